@@ -0,0 +1,154 @@
+// Service worker: keeps the app shell available offline so the dashboard
+// opens without a connection (the vault itself comes from the offline cache
+// in IndexedDB), and receives content shared to the installed app, see
+// share_target in manifest.webmanifest.
+
+const SHELL_CACHE = "vault-shell-v2";
+const SHELL_URLS = ["/", "/manifest.webmanifest", "/icon.svg", "/favicon.ico"];
+
+// Shared content waits here until the dashboard picks it up.
+// Must match src/lib/share-target.ts.
+const SHARE_DB_NAME = "vault-share-target";
+const SHARE_STORE_NAME = "shares";
+
+// The built scripts and styles an index.html loads. The app has no lazy
+// chunks, so these are all the assets a build needs to start.
+const assetUrls = (html) =>
+  new Set(Array.from(html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g), (match) => match[1]));
+
+// Drop assets of earlier builds that the cached index.html no longer loads
+const pruneAssets = async (cache) => {
+  const index = await cache.match("/");
+  if (!index) return;
+  const current = assetUrls(await index.text());
+  const requests = await cache.keys();
+  await Promise.all(
+    requests
+      .map((request) => new URL(request.url).pathname)
+      .filter((pathname) => pathname.startsWith("/assets/") && !current.has(pathname))
+      .map((pathname) => cache.delete(pathname))
+  );
+};
+
+// Cache the shell along with the assets its index.html loads, so the app
+// opens offline right after the first visit, not only on pages seen since
+const precacheShell = async () => {
+  const cache = await caches.open(SHELL_CACHE);
+  await cache.addAll(SHELL_URLS);
+  const index = await cache.match("/");
+  await cache.addAll(Array.from(assetUrls(await index.text())));
+};
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(precacheShell().then(() => self.skipWaiting()));
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== SHELL_CACHE).map((key) => caches.delete(key))))
+      .then(() => caches.open(SHELL_CACHE))
+      .then(pruneAssets)
+      .then(() => self.clients.claim())
+  );
+});
+
+const openShareDatabase = () =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(SHARE_DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(SHARE_STORE_NAME);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const saveShare = async (share) => {
+  const db = await openShareDatabase();
+  const id = self.crypto.randomUUID();
+  try {
+    await new Promise((resolve, reject) => {
+      const request = db.transaction(SHARE_STORE_NAME, "readwrite").objectStore(SHARE_STORE_NAME).put(share, id);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+  return id;
+};
+
+// Stash what was shared and open the dashboard, which prefills a new item with it
+const handleShare = async (request) => {
+  const formData = await request.formData();
+  const text = (name) => {
+    const value = formData.get(name);
+    return typeof value === "string" ? value : "";
+  };
+
+  const id = await saveShare({
+    title: text("title"),
+    text: text("text"),
+    url: text("url"),
+    files: formData.getAll("files").filter((file) => file instanceof File && file.size > 0),
+    sharedAt: Date.now(),
+  });
+  return Response.redirect(new URL(`/dashboard?share=${id}`, self.location.origin).href, 303);
+};
+
+// Pages are fetched fresh so deploys show up, falling back to the cached
+// shell offline; every route serves the same index.html. A new index.html
+// brings its assets into the cache and retires the previous build's.
+const updateShell = async (cache, response) => {
+  const html = await response.text();
+  const assets = Array.from(assetUrls(html));
+  const missing = (await Promise.all(assets.map((url) => cache.match(url)))).some((cached) => !cached);
+  // Keep the old shell if the new build's assets can't all be cached
+  if (missing) await cache.addAll(assets);
+  await cache.put("/", new Response(html, { headers: response.headers }));
+  await pruneAssets(cache);
+};
+
+const handleNavigation = async (request, event) => {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      event.waitUntil(
+        updateShell(cache, response.clone()).catch((error) => console.error("Error updating app shell:", error))
+      );
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match("/");
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+// Built assets have content hashes in their names, so cached copies never go stale
+const handleAsset = async (request) => {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) cache.put(request, response.clone());
+  return response;
+};
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  // Supabase and other APIs are left to the app and its own cache
+  if (url.origin !== self.location.origin) return;
+
+  if (request.method === "POST" && url.pathname === "/share-target") {
+    event.respondWith(handleShare(request));
+  } else if (request.method !== "GET") {
+    return;
+  } else if (request.mode === "navigate") {
+    event.respondWith(handleNavigation(request, event));
+  } else if (url.pathname.startsWith("/assets/") || SHELL_URLS.includes(url.pathname)) {
+    event.respondWith(handleAsset(request));
+  }
+});
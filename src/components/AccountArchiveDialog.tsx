@@ -0,0 +1,253 @@
+import { useMemo, useRef, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Download, FileUp, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useFolders, useItems, useSavedSearches, useTags } from "@/hooks/use-items";
+import { ARCHIVE_FILES_MAX_BYTES, fetchProfile, useExportAccount, useImportAccount } from "@/hooks/use-account-archive";
+import { AccountArchive, ArchiveConflict, ArchiveError, parseAccountArchive, planArchiveImport } from "@/lib/account-archive";
+
+interface AccountArchiveDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const CONFLICT_LABELS: Record<ArchiveConflict["kind"], string> = {
+  profile: "Profile",
+  folder: "Folder",
+  tag: "Tag",
+  item: "Item",
+  saved_search: "Smart folder",
+};
+
+const ProgressBar = ({ done, total }: { done: number; total: number }) => (
+  <div className="space-y-1">
+    <Progress value={total ? (done / total) * 100 : 0} />
+    <p className="text-xs text-muted-foreground text-right tabular-nums">
+      {done} / {total}
+    </p>
+  </div>
+);
+
+const Stat = ({ value, label }: { value: number; label: string }) => (
+  <div className="rounded-lg border p-3">
+    <p className="text-2xl font-semibold">{value}</p>
+    <p className="text-xs text-muted-foreground">{label}</p>
+  </div>
+);
+
+// Back up the whole vault to a JSON archive, or restore one, e.g. when moving
+// to another project
+const AccountArchiveDialog = ({ open, onOpenChange }: AccountArchiveDialogProps) => {
+  const [includeFiles, setIncludeFiles] = useState(true);
+  const [fileName, setFileName] = useState("");
+  const [archive, setArchive] = useState<AccountArchive | null>(null);
+  const [profile, setProfile] = useState<{ full_name: string | null; avatar_url: string | null } | null>(null);
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const { data: folders = [] } = useFolders();
+  const { data: items = [] } = useItems();
+  const { data: tags = [] } = useTags();
+  const { data: savedSearches = [] } = useSavedSearches();
+  const exportAccount = useExportAccount();
+  const importAccount = useImportAccount();
+  const isPending = exportAccount.isPending || importAccount.isPending;
+
+  const plan = useMemo(
+    () => archive && planArchiveImport(archive, { profile, folders, tags, items, savedSearches }, { skipDuplicates }),
+    [archive, profile, folders, tags, items, savedSearches, skipDuplicates]
+  );
+  const hasChanges = !!plan && (
+    plan.items.length + plan.folders.length + plan.tags.length + plan.savedSearches.length > 0 || !!plan.profile
+  );
+  const duplicateLinks = plan?.conflicts.filter((conflict) => conflict.kind === "item").length ?? 0;
+  const fileCount = items.filter((item) => item.file_path).length;
+
+  const resetForm = () => {
+    setFileName("");
+    setArchive(null);
+    setProfile(null);
+    setSkipDuplicates(true);
+    setProgress(null);
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (isPending) return;
+    onOpenChange(isOpen);
+    if (!isOpen) resetForm();
+  };
+
+  const handleExport = () => {
+    exportAccount.mutate({
+      includeFiles,
+      onProgress: (done, total) => setProgress(total ? { done, total } : null),
+    }, {
+      onSettled: () => setProgress(null),
+    });
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const parsed = parseAccountArchive(await file.text());
+      setProfile(await fetchProfile());
+      setFileName(file.name);
+      setArchive(parsed);
+    } catch (error) {
+      toast({
+        title: "Can't import this file",
+        description: error instanceof ArchiveError ? error.message : "Failed to read archive.",
+        variant: "destructive",
+      });
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  const handleImport = () => {
+    if (!plan) return;
+
+    importAccount.mutate({
+      plan,
+      onProgress: (done, total) => setProgress({ done, total }),
+    }, {
+      onSuccess: () => {
+        resetForm();
+        onOpenChange(false);
+      },
+      onError: () => setProgress(null),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Backup & Restore</DialogTitle>
+          <DialogDescription>
+            Export everything in your vault to a single file, or import an export from this or another account.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="export">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="export" disabled={isPending}>Export</TabsTrigger>
+            <TabsTrigger value="import" disabled={isPending}>Import</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="export" className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {items.length} items, {folders.length} folders, {tags.length} tags and {savedSearches.length} smart
+              folders, plus everything in the trash.
+            </p>
+
+            {fileCount > 0 && (
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="include-files"
+                  checked={includeFiles}
+                  onCheckedChange={(checked) => setIncludeFiles(checked === true)}
+                  disabled={isPending}
+                />
+                <Label htmlFor="include-files" className="text-sm font-normal">
+                  Include {fileCount} uploaded {fileCount === 1 ? "file" : "files"}, up to{" "}
+                  {ARCHIVE_FILES_MAX_BYTES / 1024 / 1024} MB in total
+                </Label>
+              </div>
+            )}
+
+            {exportAccount.isPending && progress && <ProgressBar {...progress} />}
+
+            <Button className="w-full gap-2" onClick={handleExport} disabled={isPending}>
+              {exportAccount.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+              {exportAccount.isPending ? "Exporting..." : "Download Export"}
+            </Button>
+          </TabsContent>
+
+          <TabsContent value="import" className="space-y-4">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={handleFileChange}
+            />
+            <Button
+              type="button"
+              variant="outline"
+              className="w-full gap-2 border-dashed h-16"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isPending}
+            >
+              <FileUp className="w-4 h-4" />
+              <span className="truncate">{fileName || "Choose an export file"}</span>
+            </Button>
+
+            {archive && plan && (
+              <>
+                <div className="grid grid-cols-2 gap-2 text-sm">
+                  <Stat value={plan.items.length} label={`of ${archive.items.length} items to import`} />
+                  <Stat value={plan.folders.length} label="new folders" />
+                  <Stat value={plan.tags.length} label="new tags" />
+                  <Stat value={plan.items.filter((item) => item.file).length} label="files to upload" />
+                </div>
+
+                {plan.conflicts.length > 0 && (
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium">
+                      {plan.conflicts.length} {plan.conflicts.length === 1 ? "conflict" : "conflicts"}
+                    </p>
+                    <ul className="max-h-40 overflow-y-auto rounded-lg border p-2 text-xs space-y-1">
+                      {plan.conflicts.map((conflict, index) => (
+                        <li key={index} className="flex gap-2 px-1">
+                          <span className="text-muted-foreground shrink-0 w-20">{CONFLICT_LABELS[conflict.kind]}</span>
+                          <span className="truncate flex-1" title={conflict.name}>{conflict.name}</span>
+                          <span className="text-muted-foreground shrink-0">{conflict.resolution}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {duplicateLinks > 0 && (
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id="skip-archive-duplicates"
+                      checked={skipDuplicates}
+                      onCheckedChange={(checked) => setSkipDuplicates(checked === true)}
+                      disabled={isPending}
+                    />
+                    <Label htmlFor="skip-archive-duplicates" className="text-sm font-normal">
+                      Skip links already in your vault
+                    </Label>
+                  </div>
+                )}
+              </>
+            )}
+
+            {importAccount.isPending && progress && <ProgressBar {...progress} />}
+
+            <Button
+              className="w-full gap-2"
+              onClick={handleImport}
+              disabled={isPending || !hasChanges}
+            >
+              {importAccount.isPending && <Loader2 className="w-4 h-4 animate-spin" />}
+              {importAccount.isPending ? "Importing..." : "Import"}
+            </Button>
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AccountArchiveDialog;
@@ -1,4 +1,5 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { onlineManager } from "@tanstack/react-query";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -9,9 +10,12 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Plus, Loader2, Link2, Upload } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
-import { useCreateItem, Folder } from "@/hooks/use-items";
+import { getStoredUser } from "@/hooks/use-offline";
+import { useCreateItem, useTags, Folder } from "@/hooks/use-items";
+import { SharedItemDraft } from "@/lib/share-target";
 import { z } from "zod";
 import FileUploadPreview from "./FileUploadPreview";
+import TagInput from "./TagInput";
 
 const itemSchema = z.object({
   title: z.string().min(1, "Title is required").max(200, "Title must be less than 200 characters"),
@@ -24,9 +28,18 @@ const itemSchema = z.object({
 interface AddItemDialogProps {
   folders?: Folder[];
   defaultFolderId?: string;
+  shared?: SharedItemDraft | null; // Content shared from another app; opens the dialog prefilled
+  onSharedClose?: () => void;
 }
 
-const AddItemDialog = ({ folders = [], defaultFolderId }: AddItemDialogProps) => {
+const getFileType = (mimeType: string): "image" | "video" | "note" | "link" => {
+  if (mimeType.startsWith("image/")) return "image";
+  if (mimeType.startsWith("video/")) return "video";
+  if (mimeType.startsWith("audio/")) return "video"; // Treat audio as video type for storage
+  return "note"; // Default to note for documents/other files
+};
+
+const AddItemDialog = ({ folders = [], defaultFolderId, shared, onSharedClose }: AddItemDialogProps) => {
   const [open, setOpen] = useState(false);
   const [title, setTitle] = useState("");
   const [description, setDescription] = useState("");
@@ -36,9 +49,10 @@ const AddItemDialog = ({ folders = [], defaultFolderId }: AddItemDialogProps) =>
   const [folderId, setFolderId] = useState<string>(defaultFolderId || "none");
   const [inputMode, setInputMode] = useState<"url" | "file">("url");
   const [uploadedFile, setUploadedFile] = useState<File | null>(null);
-  const [filePreviewUrl, setFilePreviewUrl] = useState<string | null>(null);
+  const [tags, setTags] = useState<string[]>([]);
   const { toast } = useToast();
   const createItem = useCreateItem();
+  const { data: allTags = [] } = useTags();
 
   const resetForm = () => {
     setTitle("");
@@ -49,23 +63,34 @@ const AddItemDialog = ({ folders = [], defaultFolderId }: AddItemDialogProps) =>
     setFolderId(defaultFolderId || "none");
     setInputMode("url");
     setUploadedFile(null);
-    if (filePreviewUrl) {
-      URL.revokeObjectURL(filePreviewUrl);
-      setFilePreviewUrl(null);
-    }
+    setTags([]);
   };
 
-  const getFileType = (mimeType: string): "image" | "video" | "note" | "link" => {
-    if (mimeType.startsWith("image/")) return "image";
-    if (mimeType.startsWith("video/")) return "video";
-    if (mimeType.startsWith("audio/")) return "video"; // Treat audio as video type for storage
-    return "note"; // Default to note for documents/other files
+  useEffect(() => {
+    if (!shared) return;
+    setTitle(shared.title);
+    if (shared.file) {
+      setInputMode("file");
+      setUploadedFile(shared.file);
+      setType(getFileType(shared.file.type));
+    } else {
+      setInputMode("url");
+      setType(shared.mode === "note" ? "note" : "link");
+      setContent(shared.content);
+    }
+    setOpen(true);
+  }, [shared]);
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (!isOpen) {
+      resetForm();
+      onSharedClose?.();
+    }
   };
 
   const handleFileSelect = (file: File) => {
     setUploadedFile(file);
-    const previewUrl = URL.createObjectURL(file);
-    setFilePreviewUrl(previewUrl);
     
     // Auto-detect type from file
     const detectedType = getFileType(file.type);
@@ -80,17 +105,16 @@ const AddItemDialog = ({ folders = [], defaultFolderId }: AddItemDialogProps) =>
 
   const handleFileRemove = () => {
     setUploadedFile(null);
-    if (filePreviewUrl) {
-      URL.revokeObjectURL(filePreviewUrl);
-      setFilePreviewUrl(null);
-    }
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    const { data: { user } } = await supabase.auth.getUser();
-    
+    // The stored session rather than getUser(), which needs a connection;
+    // offline, an expired one can't be refreshed but still names the user
+    const { data: { session } } = await supabase.auth.getSession();
+    const user = session?.user ?? getStoredUser();
+
     if (!user) {
       toast({
         title: "Error",
@@ -103,16 +127,14 @@ const AddItemDialog = ({ folders = [], defaultFolderId }: AddItemDialogProps) =>
     let finalContent = content;
     let finalThumbnailUrl = thumbnailUrl;
 
-    // If using file upload mode, we store the file info as content
-    if (inputMode === "file" && uploadedFile) {
-      // For local preview, we store file metadata as JSON
-      // In a production app, you would upload to storage and get a URL
+    // If using file upload mode, we store the file info as content.
+    // The file itself is uploaded to storage by useCreateItem.
+    const file = inputMode === "file" && uploadedFile ? uploadedFile : undefined;
+    if (file) {
       finalContent = JSON.stringify({
-        fileName: uploadedFile.name,
-        fileSize: uploadedFile.size,
-        fileType: uploadedFile.type,
-        // Store the preview URL temporarily (in production, this would be a storage URL)
-        previewUrl: filePreviewUrl || ""
+        fileName: file.name,
+        fileSize: file.size,
+        fileType: file.type,
       });
     }
 
@@ -134,6 +156,7 @@ const AddItemDialog = ({ folders = [], defaultFolderId }: AddItemDialogProps) =>
     }
 
     createItem.mutate({
+      id: crypto.randomUUID(),
       user_id: user.id,
       title: validation.data.title,
       description: validation.data.description,
@@ -141,12 +164,14 @@ const AddItemDialog = ({ folders = [], defaultFolderId }: AddItemDialogProps) =>
       content: validation.data.content,
       thumbnail_url: validation.data.thumbnailUrl,
       folder_id: folderId === "none" ? undefined : folderId,
+      file,
+      tag_names: tags,
     }, {
-      onSuccess: () => {
-        resetForm();
-        setOpen(false);
-      },
+      onSuccess: () => handleOpenChange(false),
     });
+
+    // Offline, the item is queued and already shown; don't wait on it
+    if (!onlineManager.isOnline()) handleOpenChange(false);
   };
 
   const isFormValid = () => {
@@ -160,10 +185,7 @@ const AddItemDialog = ({ folders = [], defaultFolderId }: AddItemDialogProps) =>
   };
 
   return (
-    <Dialog open={open} onOpenChange={(isOpen) => {
-      setOpen(isOpen);
-      if (!isOpen) resetForm();
-    }}>
+    <Dialog open={open} onOpenChange={handleOpenChange}>
       <DialogTrigger asChild>
         <Button className="bg-gradient-to-r from-primary to-primary hover:opacity-90 shadow-lg shadow-primary/25">
           <Plus className="w-4 h-4 mr-2" />
@@ -216,7 +238,11 @@ const AddItemDialog = ({ folders = [], defaultFolderId }: AddItemDialogProps) =>
                       <SelectContent>
                         <SelectItem value="none">No Folder</SelectItem>
                         {folders.map((folder) => (
-                          <SelectItem key={folder.id} value={folder.id}>
+                          <SelectItem
+                            key={folder.id}
+                            value={folder.id}
+                            style={{ paddingLeft: `${2 + (folder.depth || 0) * 0.75}rem` }}
+                          >
                             {folder.name}
                           </SelectItem>
                         ))}
@@ -277,7 +303,11 @@ const AddItemDialog = ({ folders = [], defaultFolderId }: AddItemDialogProps) =>
                     <SelectContent>
                       <SelectItem value="none">No Folder</SelectItem>
                       {folders.map((folder) => (
-                        <SelectItem key={folder.id} value={folder.id}>
+                        <SelectItem
+                          key={folder.id}
+                          value={folder.id}
+                          style={{ paddingLeft: `${2 + (folder.depth || 0) * 0.75}rem` }}
+                        >
                           {folder.name}
                         </SelectItem>
                       ))}
@@ -287,6 +317,7 @@ const AddItemDialog = ({ folders = [], defaultFolderId }: AddItemDialogProps) =>
               )}
 
               <FileUploadPreview
+                initialFile={uploadedFile}
                 onFileSelect={handleFileSelect}
                 onFileRemove={handleFileRemove}
                 disabled={createItem.isPending}
@@ -324,6 +355,17 @@ const AddItemDialog = ({ folders = [], defaultFolderId }: AddItemDialogProps) =>
             />
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="tags">Tags (Optional)</Label>
+            <TagInput
+              id="tags"
+              value={tags}
+              onChange={setTags}
+              suggestions={allTags}
+              disabled={createItem.isPending}
+            />
+          </div>
+
           <div className="flex gap-2">
             <Button
               type="button"
@@ -342,7 +384,7 @@ const AddItemDialog = ({ folders = [], defaultFolderId }: AddItemDialogProps) =>
               {createItem.isPending ? (
                 <>
                   <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  Adding...
+                  {uploadedFile && inputMode === "file" ? "Uploading..." : "Adding..."}
                 </>
               ) : (
                 "Add Item"
@@ -0,0 +1,171 @@
+import { useState } from "react";
+import { format, formatDistanceToNow } from "date-fns";
+import { BookOpen, Clock, ExternalLink, Loader2, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { useItemArticle, useSaveItemArticle } from "@/hooks/use-link-preview";
+import { ArticleBlock, getReadingMinutes } from "@/lib/article";
+import { LinkPreviewError, formatLinkUrl } from "@/lib/link-preview";
+
+interface ArticleReaderProps {
+  itemId: string;
+  url: string;
+}
+
+const ArticleImage = ({ src, alt }: { src: string; alt: string | null }) => {
+  const [failed, setFailed] = useState(false);
+  if (failed) return null;
+
+  return (
+    <figure className="my-6">
+      <img
+        src={src}
+        alt={alt || ""}
+        loading="lazy"
+        referrerPolicy="no-referrer"
+        className="w-full rounded-lg"
+        onError={() => setFailed(true)}
+      />
+      {alt && <figcaption className="mt-2 text-xs text-muted-foreground text-center">{alt}</figcaption>}
+    </figure>
+  );
+};
+
+const HEADING_STYLES = {
+  h2: "text-xl font-semibold mt-8 mb-3",
+  h3: "text-lg font-semibold mt-6 mb-2",
+  h4: "text-base font-semibold mt-5 mb-2",
+};
+
+const renderBlock = (block: ArticleBlock, index: number) => {
+  switch (block.type) {
+    case "heading": {
+      const Heading = `h${block.level}` as "h2" | "h3" | "h4";
+      return <Heading key={index} className={HEADING_STYLES[Heading]}>{block.text}</Heading>;
+    }
+    case "paragraph":
+      return <p key={index} className="mb-4">{block.text}</p>;
+    case "list": {
+      const List = block.ordered ? "ol" : "ul";
+      return (
+        <List key={index} className={`${block.ordered ? "list-decimal" : "list-disc"} pl-6 mb-4 space-y-1`}>
+          {block.items.map((item, itemIndex) => (
+            <li key={itemIndex}>{item}</li>
+          ))}
+        </List>
+      );
+    }
+    case "quote":
+      return (
+        <blockquote key={index} className="border-l-2 border-primary/40 pl-4 italic text-muted-foreground mb-4">
+          {block.text}
+        </blockquote>
+      );
+    case "code":
+      return (
+        <pre key={index} className="bg-muted rounded-md p-3 mb-4 text-xs overflow-x-auto">
+          <code>{block.text}</code>
+        </pre>
+      );
+    case "image":
+      return <ArticleImage key={index} src={block.src} alt={block.alt} />;
+  }
+};
+
+// Stored reader-mode copy of a link's article. It is read from the database,
+// so it stays available after the source page changes or disappears.
+const ArticleReader = ({ itemId, url }: ArticleReaderProps) => {
+  const { data: article, isLoading } = useItemArticle(itemId);
+  const saveArticle = useSaveItemArticle();
+  const { toast } = useToast();
+
+  const handleExtract = () => {
+    saveArticle.mutate(itemId, {
+      onError: (error) => {
+        toast({
+          title: "Error",
+          description: error instanceof LinkPreviewError ? error.message : "Failed to extract article.",
+          variant: "destructive",
+        });
+      },
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3 p-6">
+        <Skeleton className="h-6 w-3/4" />
+        <Skeleton className="h-4 w-1/3" />
+        <Skeleton className="h-4 w-full" />
+        <Skeleton className="h-4 w-5/6" />
+        <Skeleton className="h-4 w-full" />
+      </div>
+    );
+  }
+
+  if (!article) {
+    return (
+      <div className="text-center py-16 px-6">
+        <BookOpen className="w-12 h-12 mx-auto mb-4 text-muted-foreground opacity-50" />
+        <h3 className="text-lg font-semibold mb-1 text-muted-foreground">No reader copy yet</h3>
+        <p className="text-sm text-muted-foreground mb-4">
+          Save the article text so you can read it even if the page goes away.
+        </p>
+        <Button size="sm" className="gap-2" onClick={handleExtract} disabled={saveArticle.isPending}>
+          {saveArticle.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <BookOpen className="w-4 h-4" />}
+          Save Article
+        </Button>
+      </div>
+    );
+  }
+
+  const publishedAt = article.published_time ? new Date(article.published_time) : null;
+  // The lead image is shown above the title, so skip its copy in the body
+  const blocks = article.blocks.filter((block) => block.type !== "image" || block.src !== article.lead_image);
+
+  return (
+    <article className="p-6">
+      {article.lead_image && <ArticleImage src={article.lead_image} alt={null} />}
+
+      <header className="mb-6 space-y-2">
+        {article.title && <h1 className="text-2xl font-bold leading-tight">{article.title}</h1>}
+        <p className="flex flex-wrap items-center gap-x-2 gap-y-1 text-xs text-muted-foreground">
+          {[
+            article.site_name,
+            article.byline && `by ${article.byline}`,
+            publishedAt && format(publishedAt, "MMM d, yyyy"),
+          ]
+            .filter(Boolean)
+            .join(" • ")}
+          <span className="flex items-center gap-1">
+            <Clock className="w-3 h-3" />
+            {getReadingMinutes(article.word_count)} min read
+          </span>
+        </p>
+      </header>
+
+      <div className="text-sm text-foreground leading-relaxed">
+        {blocks.map(renderBlock)}
+      </div>
+
+      <footer className="mt-8 pt-4 border-t flex flex-wrap items-center justify-between gap-2 text-xs text-muted-foreground">
+        <span>Saved {formatDistanceToNow(new Date(article.extracted_at), { addSuffix: true })}</span>
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="sm" className="h-7 gap-1.5 text-xs" onClick={handleExtract} disabled={saveArticle.isPending}>
+            <RefreshCw className={`w-3 h-3 ${saveArticle.isPending ? "animate-spin" : ""}`} />
+            Re-extract
+          </Button>
+          <Button variant="ghost" size="sm" className="h-7 gap-1.5 text-xs" asChild>
+            <a href={formatLinkUrl(url)} target="_blank" rel="noopener noreferrer">
+              <ExternalLink className="w-3 h-3" />
+              Original
+            </a>
+          </Button>
+        </div>
+      </footer>
+    </article>
+  );
+};
+
+export default ArticleReader;
@@ -1,4 +1,5 @@
 import { useState } from "react";
+import { onlineManager } from "@tanstack/react-query";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -7,6 +8,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { FolderPlus, Loader2 } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { getStoredUser } from "@/hooks/use-offline";
 import { useCreateFolder } from "@/hooks/use-items";
 import { z } from "zod";
 
@@ -18,6 +20,7 @@ const folderSchema = z.object({
 
 interface CreateFolderDialogProps {
   trigger?: React.ReactNode;
+  parentId?: string;
 }
 
 const FOLDER_COLORS = [
@@ -32,7 +35,7 @@ const FOLDER_COLORS = [
   "#3b82f6", // Blue
 ];
 
-const CreateFolderDialog = ({ trigger }: CreateFolderDialogProps) => {
+const CreateFolderDialog = ({ trigger, parentId }: CreateFolderDialogProps) => {
   const [open, setOpen] = useState(false);
   const [name, setName] = useState("");
   const [description, setDescription] = useState("");
@@ -64,7 +67,10 @@ const CreateFolderDialog = ({ trigger }: CreateFolderDialogProps) => {
       return;
     }
 
-    const { data: { user } } = await supabase.auth.getUser();
+    // The stored session rather than getUser(), which needs a connection;
+    // offline, an expired one can't be refreshed but still names the user
+    const { data: { session } } = await supabase.auth.getSession();
+    const user = session?.user ?? getStoredUser();
     
     if (!user) {
       toast({
@@ -76,17 +82,25 @@ const CreateFolderDialog = ({ trigger }: CreateFolderDialogProps) => {
     }
 
     createFolder.mutate({
+      id: crypto.randomUUID(),
       user_id: user.id,
       name: validation.data.name,
       description: validation.data.description,
       color: validation.data.color || FOLDER_COLORS[0],
       icon: "folder",
+      parent_id: parentId ?? null,
     }, {
       onSuccess: () => {
         resetForm();
         setOpen(false);
       },
     });
+
+    // Offline, the folder is queued and already shown; don't wait on it
+    if (!onlineManager.isOnline()) {
+      resetForm();
+      setOpen(false);
+    }
   };
 
   return (
@@ -104,7 +118,7 @@ const CreateFolderDialog = ({ trigger }: CreateFolderDialogProps) => {
       </DialogTrigger>
       <DialogContent className="max-w-md">
         <DialogHeader>
-          <DialogTitle>Create New Folder</DialogTitle>
+          <DialogTitle>{parentId ? "Create Subfolder" : "Create New Folder"}</DialogTitle>
         </DialogHeader>
         <form onSubmit={handleSubmit} className="space-y-4">
           <div className="space-y-2">
@@ -1,4 +1,5 @@
 import { useState, useEffect } from "react";
+import { onlineManager } from "@tanstack/react-query";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -6,10 +7,12 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Loader2, Save, X, RefreshCw } from "lucide-react";
-import { useUpdateItem, Item, Folder } from "@/hooks/use-items";
+import { useUpdateItem, useTags, getItemVersion, Item, Folder } from "@/hooks/use-items";
 import { z } from "zod";
 import { useToast } from "@/hooks/use-toast";
-import { supabase } from "@/integrations/supabase/client";
+import { useRefreshLinkPreview } from "@/hooks/use-link-preview";
+import { LinkPreviewError } from "@/lib/link-preview";
+import TagInput from "./TagInput";
 
 const itemSchema = z.object({
   title: z.string().min(1, "Title is required").max(200, "Title must be less than 200 characters"),
@@ -33,10 +36,13 @@ const EditItemDialog = ({ item, open, onOpenChange, folders = [] }: EditItemDial
   const [content, setContent] = useState("");
   const [thumbnailUrl, setThumbnailUrl] = useState("");
   const [folderId, setFolderId] = useState<string>("none");
+  const [tags, setTags] = useState<string[]>([]);
   const [refreshingPreview, setRefreshingPreview] = useState(false);
   const { toast } = useToast();
 
   const updateItem = useUpdateItem();
+  const refreshLinkPreview = useRefreshLinkPreview();
+  const { data: allTags = [] } = useTags();
 
   // Populate form when item changes
   useEffect(() => {
@@ -47,6 +53,7 @@ const EditItemDialog = ({ item, open, onOpenChange, folders = [] }: EditItemDial
       setContent(item.content);
       setThumbnailUrl(item.thumbnail_url || "");
       setFolderId(item.folder_id || "none");
+      setTags((item.tags || []).map(tag => tag.name));
     }
   }, [item]);
 
@@ -55,19 +62,15 @@ const EditItemDialog = ({ item, open, onOpenChange, folders = [] }: EditItemDial
 
     setRefreshingPreview(true);
     try {
-      const { data, error } = await supabase.functions.invoke("fetch-link-preview", {
-        body: { url: content },
-      });
-
-      if (error) throw error;
+      const data = await refreshLinkPreview.mutateAsync(content);
 
-      if (data?.title && !title) {
+      if (data.title && !title) {
         setTitle(data.title);
       }
-      if (data?.description && !description) {
+      if (data.description && !description) {
         setDescription(data.description);
       }
-      if (data?.image) {
+      if (data.image) {
         setThumbnailUrl(data.image);
       }
 
@@ -78,7 +81,7 @@ const EditItemDialog = ({ item, open, onOpenChange, folders = [] }: EditItemDial
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to refresh link preview.",
+        description: error instanceof LinkPreviewError ? error.message : "Failed to refresh link preview.",
         variant: "destructive",
       });
     } finally {
@@ -116,11 +119,16 @@ const EditItemDialog = ({ item, open, onOpenChange, folders = [] }: EditItemDial
       content: validation.data.content,
       thumbnail_url: validation.data.thumbnailUrl,
       folder_id: folderId === "none" ? null : folderId,
+      tag_names: tags,
+      base: getItemVersion(item),
     }, {
       onSuccess: () => {
         onOpenChange(false);
       },
     });
+
+    // Offline, the edit is queued and already shown; don't wait on it
+    if (!onlineManager.isOnline()) onOpenChange(false);
   };
 
   const isFormValid = title.trim() && content.trim();
@@ -175,7 +183,11 @@ const EditItemDialog = ({ item, open, onOpenChange, folders = [] }: EditItemDial
                   <SelectContent>
                     <SelectItem value="none">No Folder</SelectItem>
                     {folders.map((folder) => (
-                      <SelectItem key={folder.id} value={folder.id}>
+                      <SelectItem
+                        key={folder.id}
+                        value={folder.id}
+                        style={{ paddingLeft: `${2 + (folder.depth || 0) * 0.75}rem` }}
+                      >
                         {folder.name}
                       </SelectItem>
                     ))}
@@ -208,6 +220,17 @@ const EditItemDialog = ({ item, open, onOpenChange, folders = [] }: EditItemDial
             />
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="edit-tags">Tags</Label>
+            <TagInput
+              id="edit-tags"
+              value={tags}
+              onChange={setTags}
+              suggestions={allTags}
+              disabled={updateItem.isPending}
+            />
+          </div>
+
           {!isFileUpload && (
             <div className="space-y-2">
               <div className="flex items-center justify-between">
@@ -254,7 +277,7 @@ const EditItemDialog = ({ item, open, onOpenChange, folders = [] }: EditItemDial
           {isFileUpload && (
             <div className="p-4 bg-muted rounded-lg">
               <p className="text-sm text-muted-foreground">
-                This is an uploaded file. The file content cannot be changed, but you can edit the title, description, and folder.
+                This is an uploaded file. The file content cannot be changed, but you can edit the title, description, tags, and folder.
               </p>
             </div>
           )}
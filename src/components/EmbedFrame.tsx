@@ -0,0 +1,29 @@
+interface EmbedFrameProps {
+  src: string;
+  title: string;
+  autoPlay?: boolean;
+  className?: string;
+}
+
+// Sandboxed player iframe for an allowlisted oEmbed provider (see getEmbedSrc)
+const EmbedFrame = ({ src, title, autoPlay = false, className = "" }: EmbedFrameProps) => {
+  const url = new URL(src);
+  if (autoPlay) url.searchParams.set("autoplay", "1");
+
+  return (
+    <div className={`relative w-full aspect-video bg-black ${className}`}>
+      <iframe
+        src={url.href}
+        title={title}
+        className="absolute inset-0 w-full h-full border-0"
+        sandbox="allow-scripts allow-same-origin allow-presentation allow-popups"
+        allow="autoplay; encrypted-media; picture-in-picture; fullscreen"
+        referrerPolicy="strict-origin-when-cross-origin"
+        loading="lazy"
+        allowFullScreen
+      />
+    </div>
+  );
+};
+
+export default EmbedFrame;
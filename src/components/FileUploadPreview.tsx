@@ -33,6 +33,7 @@ interface FileUploadPreviewProps {
   maxSize?: number;
   className?: string;
   disabled?: boolean;
+  initialFile?: File | null; // Shown when mounting, e.g. a file shared from another app
 }
 
 interface PreviewState {
@@ -43,34 +44,35 @@ interface PreviewState {
   error: string | null;
 }
 
+const getFileType = (mimeType: string): PreviewState["fileType"] => {
+  if (SAFE_IMAGE_TYPES.includes(mimeType)) return "image";
+  if (SAFE_VIDEO_TYPES.includes(mimeType)) return "video";
+  if (SAFE_AUDIO_TYPES.includes(mimeType)) return "audio";
+  if (SAFE_PDF_TYPES.includes(mimeType)) return "pdf";
+  return "unsupported";
+};
+
 const FileUploadPreview = ({
   onFileSelect,
   onFileRemove,
   accept = "*/*",
   maxSize = MAX_FILE_SIZE,
   className,
-  disabled = false
+  disabled = false,
+  initialFile
 }: FileUploadPreviewProps) => {
-  const [preview, setPreview] = useState<PreviewState>({
-    file: null,
-    previewUrl: null,
-    fileType: null,
+  const [preview, setPreview] = useState<PreviewState>(() => ({
+    file: initialFile ?? null,
+    previewUrl: initialFile ? URL.createObjectURL(initialFile) : null,
+    fileType: initialFile ? getFileType(initialFile.type) : null,
     loading: false,
     error: null
-  });
+  }));
   const [isDragOver, setIsDragOver] = useState(false);
   const [audioPlaying, setAudioPlaying] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const audioRef = useRef<HTMLAudioElement>(null);
 
-  const getFileType = (mimeType: string): PreviewState["fileType"] => {
-    if (SAFE_IMAGE_TYPES.includes(mimeType)) return "image";
-    if (SAFE_VIDEO_TYPES.includes(mimeType)) return "video";
-    if (SAFE_AUDIO_TYPES.includes(mimeType)) return "audio";
-    if (SAFE_PDF_TYPES.includes(mimeType)) return "pdf";
-    return "unsupported";
-  };
-
   const formatFileSize = (bytes: number): string => {
     if (bytes === 0) return "0 Bytes";
     const k = 1024;
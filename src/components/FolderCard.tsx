@@ -1,4 +1,4 @@
-import { FolderOpen, MoreVertical, Edit2, Trash2 } from "lucide-react";
+import { FolderOpen, MoreVertical, Edit2, Trash2, FolderInput, Download, FileText, Sheet, Share2, Users } from "lucide-react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import {
@@ -6,25 +6,37 @@ import {
   DropdownMenuContent,
   DropdownMenuItem,
   DropdownMenuTrigger,
+  DropdownMenuSub,
+  DropdownMenuSubTrigger,
+  DropdownMenuSubContent,
 } from "@/components/ui/dropdown-menu";
 import { motion } from "framer-motion";
+import { getDescendantIds, Collaborator, Folder } from "@/hooks/use-items";
+import { FolderExportFormat } from "@/lib/folder-export";
+import UserAvatar from "@/components/UserAvatar";
 
-interface Folder {
-  id: string;
-  name: string;
-  description?: string;
-  color: string;
-  itemCount?: number;
-}
+// Avatars shown before the rest are summed up as "+N"
+const MAX_AVATARS = 3;
 
 interface FolderCardProps {
   folder: Folder;
   onClick: () => void;
   onRename: () => void;
   onDelete: () => void;
+  onMove?: (parentId: string | null) => void;
+  onExport?: (format: FolderExportFormat) => void;
+  onShare?: () => void;
+  onManageMembers?: () => void;
+  members?: Collaborator[]; // Everyone with access, when the folder is shared
+  folders?: Folder[];
 }
 
-const FolderCard = ({ folder, onClick, onRename, onDelete }: FolderCardProps) => {
+const FolderCard = ({ folder, onClick, onRename, onDelete, onMove, onExport, onShare, onManageMembers, members = [], folders = [] }: FolderCardProps) => {
+  // A folder can't be moved into itself or any of its subfolders
+  const descendantIds = getDescendantIds(folder);
+  const moveTargets = folders.filter(f => f.id !== folder.id && !descendantIds.has(f.id));
+  const subfolderCount = folder.children?.length || 0;
+
   return (
     <motion.div
       initial={{ opacity: 0, scale: 0.95 }}
@@ -65,6 +77,62 @@ const FolderCard = ({ folder, onClick, onRename, onDelete }: FolderCardProps) =>
                   <Edit2 className="w-4 h-4 mr-2" />
                   Rename
                 </DropdownMenuItem>
+                {onMove && (
+                  <DropdownMenuSub>
+                    <DropdownMenuSubTrigger onClick={(e) => e.stopPropagation()}>
+                      <FolderInput className="w-4 h-4 mr-2" />
+                      Move to Folder
+                    </DropdownMenuSubTrigger>
+                    <DropdownMenuSubContent className="max-h-72 overflow-y-auto">
+                      <DropdownMenuItem
+                        onClick={(e) => { e.stopPropagation(); onMove(null); }}
+                        disabled={!folder.parent_id}
+                      >
+                        Root
+                      </DropdownMenuItem>
+                      {moveTargets.map((target) => (
+                        <DropdownMenuItem
+                          key={target.id}
+                          onClick={(e) => { e.stopPropagation(); onMove(target.id); }}
+                          disabled={folder.parent_id === target.id}
+                          style={{ paddingLeft: `${0.5 + (target.depth || 0) * 0.75}rem` }}
+                        >
+                          {target.name}
+                        </DropdownMenuItem>
+                      ))}
+                    </DropdownMenuSubContent>
+                  </DropdownMenuSub>
+                )}
+                {onExport && (
+                  <DropdownMenuSub>
+                    <DropdownMenuSubTrigger onClick={(e) => e.stopPropagation()}>
+                      <Download className="w-4 h-4 mr-2" />
+                      Export Folder
+                    </DropdownMenuSubTrigger>
+                    <DropdownMenuSubContent>
+                      <DropdownMenuItem onClick={(e) => { e.stopPropagation(); onExport("markdown"); }}>
+                        <FileText className="w-4 h-4 mr-2" />
+                        Markdown
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={(e) => { e.stopPropagation(); onExport("csv"); }}>
+                        <Sheet className="w-4 h-4 mr-2" />
+                        CSV
+                      </DropdownMenuItem>
+                    </DropdownMenuSubContent>
+                  </DropdownMenuSub>
+                )}
+                {onManageMembers && (
+                  <DropdownMenuItem onClick={(e) => { e.stopPropagation(); onManageMembers(); }}>
+                    <Users className="w-4 h-4 mr-2" />
+                    Members
+                  </DropdownMenuItem>
+                )}
+                {onShare && (
+                  <DropdownMenuItem onClick={(e) => { e.stopPropagation(); onShare(); }}>
+                    <Share2 className="w-4 h-4 mr-2" />
+                    Share Link
+                  </DropdownMenuItem>
+                )}
                 <DropdownMenuItem 
                   onClick={(e) => { e.stopPropagation(); onDelete(); }}
                   className="text-destructive"
@@ -84,9 +152,31 @@ const FolderCard = ({ folder, onClick, onRename, onDelete }: FolderCardProps) =>
             </p>
           )}
 
-          <p className="text-xs text-muted-foreground">
-            {folder.itemCount || 0} {folder.itemCount === 1 ? "item" : "items"}
-          </p>
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-xs text-muted-foreground">
+              {folder.itemCount || 0} {folder.itemCount === 1 ? "item" : "items"}
+              {subfolderCount > 0 && (
+                <> • {subfolderCount} {subfolderCount === 1 ? "folder" : "folders"}</>
+              )}
+            </p>
+            {members.length > 0 && (
+              <button
+                type="button"
+                className="flex items-center -space-x-2"
+                onClick={(e) => { e.stopPropagation(); onManageMembers?.(); }}
+                title={`Shared with ${members.length} ${members.length === 1 ? "person" : "people"}`}
+              >
+                {members.slice(0, MAX_AVATARS).map((member) => (
+                  <UserAvatar key={member.id} user={member} className="ring-2 ring-background" />
+                ))}
+                {members.length > MAX_AVATARS && (
+                  <span className="h-6 w-6 rounded-full bg-muted ring-2 ring-background flex items-center justify-center text-[10px] font-medium">
+                    +{members.length - MAX_AVATARS}
+                  </span>
+                )}
+              </button>
+            )}
+          </div>
         </div>
 
         <div 
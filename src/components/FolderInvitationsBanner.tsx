@@ -0,0 +1,51 @@
+import { FolderPlus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  FOLDER_ROLES,
+  useAcceptInvitation,
+  useDeclineInvitation,
+  usePendingInvitations,
+} from "@/hooks/use-folder-members";
+
+// Folders other people have invited the signed-in user to, above the dashboard
+const FolderInvitationsBanner = () => {
+  const { data: invitations = [] } = usePendingInvitations();
+  const acceptInvitation = useAcceptInvitation();
+  const declineInvitation = useDeclineInvitation();
+  const isPending = acceptInvitation.isPending || declineInvitation.isPending;
+
+  if (invitations.length === 0) return null;
+
+  return (
+    <div className="space-y-2 mb-6">
+      {invitations.map((invitation) => (
+        <div
+          key={invitation.id}
+          className="flex flex-col sm:flex-row sm:items-center gap-3 rounded-lg border border-primary/30 bg-primary/5 p-3"
+        >
+          <FolderPlus className="w-5 h-5 text-primary shrink-0" />
+          <p className="flex-1 text-sm">
+            <span className="font-medium">{invitation.invited_by_name || "Someone"}</span> invited you to{" "}
+            <span className="font-medium">"{invitation.folder_name}"</span> as{" "}
+            {FOLDER_ROLES.find((role) => role.value === invitation.role)?.label.toLowerCase() ?? invitation.role}.
+          </p>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => declineInvitation.mutate(invitation)}
+              disabled={isPending}
+            >
+              Decline
+            </Button>
+            <Button size="sm" onClick={() => acceptInvitation.mutate(invitation)} disabled={isPending}>
+              Accept
+            </Button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default FolderInvitationsBanner;
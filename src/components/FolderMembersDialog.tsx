@@ -0,0 +1,200 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, LogOut, Mail, UserPlus, X } from "lucide-react";
+import { z } from "zod";
+import { useToast } from "@/hooks/use-toast";
+import { Folder, useFolders } from "@/hooks/use-items";
+import {
+  FOLDER_ROLES,
+  FolderRole,
+  getCollaboratorName,
+  getFolderRole,
+  useFolderInvitations,
+  useFolderMembers,
+  useInviteToFolder,
+  useRemoveFolderMember,
+  useRevokeInvitation,
+  useUpdateMemberRole,
+} from "@/hooks/use-folder-members";
+import UserAvatar from "@/components/UserAvatar";
+
+const inviteSchema = z.object({
+  email: z.string().trim().email("Enter a valid email address").max(255, "Email must be less than 255 characters"),
+});
+
+interface FolderMembersDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  folder: Folder | null;
+  userId: string;
+}
+
+const RoleSelect = ({ value, onChange, disabled }: { value: FolderRole; onChange: (role: FolderRole) => void; disabled?: boolean }) => (
+  <Select value={value} onValueChange={(role: FolderRole) => onChange(role)} disabled={disabled}>
+    <SelectTrigger className="h-8 w-28 text-xs">
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      {FOLDER_ROLES.map((role) => (
+        <SelectItem key={role.value} value={role.value}>
+          <span title={role.description}>{role.label}</span>
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+const roleLabel = (role: FolderRole) => FOLDER_ROLES.find((option) => option.value === role)?.label ?? role;
+
+// Who can see a folder and its subfolders, and inviting more people
+const FolderMembersDialog = ({ open, onOpenChange, folder, userId }: FolderMembersDialogProps) => {
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<FolderRole>("viewer");
+  const { toast } = useToast();
+  const { data: folders = [] } = useFolders();
+  const { data: allMembers = [] } = useFolderMembers();
+  const myRole = folder ? getFolderRole(folder.id, folders, allMembers, userId) : null;
+  const canManage = myRole === "owner";
+  const { data: invitations = [] } = useFolderInvitations(open && canManage ? folder?.id : null);
+  const invite = useInviteToFolder();
+  const revokeInvitation = useRevokeInvitation();
+  const updateRole = useUpdateMemberRole();
+  const removeMember = useRemoveFolderMember();
+
+  const members = folder ? allMembers.filter((member) => member.folder_id === folder.id) : [];
+  const myMembership = members.find((member) => member.user_id === userId);
+
+  const handleInvite = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!folder) return;
+
+    const validation = inviteSchema.safeParse({ email });
+    if (!validation.success) {
+      toast({
+        title: "Validation Error",
+        description: validation.error.errors[0].message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    invite.mutate({ folderId: folder.id, email: validation.data.email, role }, {
+      onSuccess: () => setEmail(""),
+    });
+  };
+
+  const handleLeave = () => {
+    if (!myMembership) return;
+    removeMember.mutate(myMembership, {
+      onSuccess: () => onOpenChange(false),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Members of "{folder?.name}"</DialogTitle>
+          <DialogDescription>
+            Members can see this folder and everything in it. Editors can also add and change items.
+          </DialogDescription>
+        </DialogHeader>
+
+        {canManage && (
+          <form onSubmit={handleInvite} className="flex gap-2">
+            <Input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="Email address"
+              className="h-8"
+              disabled={invite.isPending}
+            />
+            <RoleSelect value={role} onChange={setRole} disabled={invite.isPending} />
+            <Button type="submit" size="sm" className="h-8 gap-1 shrink-0" disabled={!email.trim() || invite.isPending}>
+              {invite.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <UserPlus className="w-4 h-4" />}
+              Invite
+            </Button>
+          </form>
+        )}
+
+        <ul className="max-h-72 overflow-y-auto space-y-1">
+          {folder && (
+            <li className="flex items-center gap-3 py-1.5">
+              <UserAvatar user={folder.owner ?? null} className="h-8 w-8" />
+              <span className="flex-1 truncate text-sm">
+                {getCollaboratorName(folder.owner)}
+                {folder.user_id === userId && <span className="text-muted-foreground"> (you)</span>}
+              </span>
+              <span className="text-xs text-muted-foreground">Owner</span>
+            </li>
+          )}
+          {members.map((member) => {
+            const isMe = member.user_id === userId;
+            return (
+              <li key={member.user_id} className="flex items-center gap-3 py-1.5">
+                <UserAvatar user={member.profile} className="h-8 w-8" />
+                <span className="flex-1 truncate text-sm">
+                  {getCollaboratorName(member.profile)}
+                  {isMe && <span className="text-muted-foreground"> (you)</span>}
+                </span>
+                {canManage && !isMe ? (
+                  <>
+                    <RoleSelect
+                      value={member.role}
+                      onChange={(newRole) => updateRole.mutate({ member, role: newRole })}
+                      disabled={updateRole.isPending}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 shrink-0"
+                      onClick={() => removeMember.mutate(member)}
+                      disabled={removeMember.isPending}
+                      title="Remove member"
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </>
+                ) : (
+                  <span className="text-xs text-muted-foreground">{roleLabel(member.role)}</span>
+                )}
+              </li>
+            );
+          })}
+          {invitations.map((invitation) => (
+            <li key={invitation.id} className="flex items-center gap-3 py-1.5 text-muted-foreground">
+              <div className="h-8 w-8 rounded-full bg-muted flex items-center justify-center shrink-0">
+                <Mail className="w-4 h-4" />
+              </div>
+              <span className="flex-1 truncate text-sm">{invitation.email}</span>
+              <span className="text-xs">Invited as {roleLabel(invitation.role).toLowerCase()}</span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 shrink-0"
+                onClick={() => revokeInvitation.mutate(invitation)}
+                disabled={revokeInvitation.isPending}
+                title="Revoke invitation"
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+
+        {myMembership && (
+          <Button variant="outline" className="w-full gap-2" onClick={handleLeave} disabled={removeMember.isPending}>
+            <LogOut className="w-4 h-4" />
+            Leave Folder
+          </Button>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default FolderMembersDialog;
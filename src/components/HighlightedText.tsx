@@ -0,0 +1,26 @@
+interface HighlightedTextProps {
+  text: string;
+  className?: string;
+}
+
+// Renders search headlines where matches are wrapped in <mark> tags.
+// The text is split rather than injected as HTML so stored content can't render markup.
+const HighlightedText = ({ text, className }: HighlightedTextProps) => {
+  const parts = text.split(/<mark>(.*?)<\/mark>/g);
+
+  return (
+    <span className={className}>
+      {parts.map((part, index) =>
+        index % 2 === 1 ? (
+          <mark key={index} className="bg-primary/20 text-foreground rounded-sm px-0.5">
+            {part}
+          </mark>
+        ) : (
+          part
+        )
+      )}
+    </span>
+  );
+};
+
+export default HighlightedText;
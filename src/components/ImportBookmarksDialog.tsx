@@ -0,0 +1,335 @@
+import { useRef, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowRight, FileUp, Folder as FolderIcon, Loader2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useBulkCreateItems, useFolders, useItems, useTags } from "@/hooks/use-items";
+import { BookmarkImportPlan, countBookmarks, planBookmarkImport } from "@/lib/bookmarks-import";
+import { IMPORT_SOURCES, ImportFormatError, ImportSource } from "@/lib/import-sources";
+
+interface ImportBookmarksDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Browser exports with favicons inlined run to tens of megabytes
+const MAX_FILE_SIZE = 50 * 1024 * 1024;
+
+// Imported folders get the default folder color and icon
+const IMPORTED_FOLDER_COLOR = "#6366f1";
+
+const ImportBookmarksDialog = ({ open, onOpenChange }: ImportBookmarksDialogProps) => {
+  const [source, setSource] = useState<ImportSource>("browser");
+  const [fileName, setFileName] = useState("");
+  // Planned once per file, so new folder ids stay stable while the preview is open
+  const [plan, setPlan] = useState<BookmarkImportPlan | null>(null);
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const { data: folders = [] } = useFolders();
+  const { data: items = [] } = useItems();
+  const { data: tags = [] } = useTags();
+  const bulkCreate = useBulkCreateItems();
+
+  const duplicates = plan?.links.filter((link) => link.duplicate).length ?? 0;
+  const linksToImport = plan ? (skipDuplicates ? plan.links.filter((link) => !link.duplicate) : plan.links) : [];
+  // Only folders that end up holding something are created
+  const usedFolderIds = new Set<string>();
+  const parentIds = new Map(plan?.folders.map((folder) => [folder.id, folder.parent_id]));
+  linksToImport.forEach((link) => {
+    let id = link.folder_id;
+    while (id && !usedFolderIds.has(id)) {
+      usedFolderIds.add(id);
+      id = parentIds.get(id) ?? null;
+    }
+  });
+  const newFolders = plan?.folders.filter((folder) => folder.isNew && usedFolderIds.has(folder.id)) ?? [];
+  const tagNames = new Set(linksToImport.flatMap((link) => link.tag_names.map((name) => name.toLowerCase())));
+  const sourceInfo = IMPORT_SOURCES[source];
+
+  const resetForm = () => {
+    setSource("browser");
+    setFileName("");
+    setPlan(null);
+    setSkipDuplicates(true);
+    setProgress(null);
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    if (file.size > MAX_FILE_SIZE) {
+      toast({
+        title: "File too large",
+        description: "Import files must be under 50MB.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const result = sourceInfo.parse(await file.text());
+      if (countBookmarks(result.root) === 0) {
+        toast({
+          title: "No bookmarks found",
+          description: sourceInfo.instructions,
+          variant: "destructive",
+        });
+        if (fileInputRef.current) fileInputRef.current.value = "";
+        return;
+      }
+
+      setFileName(file.name);
+      setPlan(planBookmarkImport(result, folders, items, tags));
+    } catch (error) {
+      toast({
+        title: "Can't import this file",
+        description: error instanceof ImportFormatError ? error.message : "Failed to read import file.",
+        variant: "destructive",
+      });
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  const handleImport = async () => {
+    if (!plan) return;
+
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      toast({
+        title: "Error",
+        description: "You must be logged in to import bookmarks.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    bulkCreate.mutate({
+      user_id: user.id,
+      folders: newFolders.map((folder) => ({
+        id: folder.id,
+        name: folder.name,
+        parent_id: folder.parent_id,
+        color: IMPORTED_FOLDER_COLOR,
+        icon: "folder",
+        created_at: folder.created_at,
+      })),
+      items: linksToImport.map((link) => ({
+        type: "link" as const,
+        title: link.title,
+        content: link.url,
+        description: link.description,
+        thumbnail_url: link.thumbnail_url,
+        folder_id: link.folder_id ?? undefined,
+        tag_names: link.tag_names,
+        created_at: link.created_at,
+      })),
+      onProgress: (done, total) => setProgress({ done, total }),
+    }, {
+      onSuccess: () => {
+        resetForm();
+        onOpenChange(false);
+      },
+      onError: () => setProgress(null),
+    });
+  };
+
+  // Top-level folders of the file, with the links they hold at any depth
+  const topFolders = plan
+    ? plan.folders
+        .filter((folder) => folder.depth === 0 && usedFolderIds.has(folder.id))
+        .map((folder) => {
+          const ids = new Set([folder.id]);
+          plan.folders.forEach((other) => {
+            if (other.parent_id && ids.has(other.parent_id)) ids.add(other.id);
+          });
+          return {
+            ...folder,
+            total: linksToImport.filter((link) => link.folder_id && ids.has(link.folder_id)).length,
+          };
+        })
+    : [];
+  const unfolderedCount = linksToImport.filter((link) => !link.folder_id).length;
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => {
+      if (bulkCreate.isPending) return;
+      onOpenChange(isOpen);
+      if (!isOpen) resetForm();
+    }}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Import Bookmarks</DialogTitle>
+          <DialogDescription>
+            Bring in links from your browser or a read-later service. Folders and tags come along.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Import from</Label>
+            <Select
+              value={source}
+              onValueChange={(value: ImportSource) => {
+                // A file only makes sense for the source it was read as
+                resetForm();
+                setSource(value);
+              }}
+              disabled={bulkCreate.isPending}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(IMPORT_SOURCES) as ImportSource[]).map((key) => (
+                  <SelectItem key={key} value={key}>{IMPORT_SOURCES[key].label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">{sourceInfo.instructions}</p>
+          </div>
+
+          <div className="rounded-lg border p-2 text-xs space-y-1">
+            {sourceInfo.mapping.map(({ from, to }) => (
+              <div key={from} className="flex items-center gap-2 px-1">
+                <span className="flex-1 truncate">{from}</span>
+                <ArrowRight className="w-3 h-3 text-muted-foreground shrink-0" />
+                <span className="flex-1 truncate text-muted-foreground">{to}</span>
+              </div>
+            ))}
+          </div>
+
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={sourceInfo.accept}
+            className="hidden"
+            onChange={handleFileChange}
+          />
+          <Button
+            type="button"
+            variant="outline"
+            className="w-full gap-2 border-dashed h-16"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={bulkCreate.isPending}
+          >
+            <FileUp className="w-4 h-4" />
+            <span className="truncate">{fileName || "Choose an export file"}</span>
+          </Button>
+
+          {plan && (
+            <>
+              <div className="grid grid-cols-6 gap-2 text-sm">
+                <div className="rounded-lg border p-3 col-span-2">
+                  <p className="text-2xl font-semibold">{linksToImport.length}</p>
+                  <p className="text-xs text-muted-foreground">links to import</p>
+                </div>
+                <div className="rounded-lg border p-3 col-span-2">
+                  <p className="text-2xl font-semibold">{newFolders.length}</p>
+                  <p className="text-xs text-muted-foreground">new folders</p>
+                </div>
+                <div className="rounded-lg border p-3 col-span-2">
+                  <p className="text-2xl font-semibold">{tagNames.size}</p>
+                  <p className="text-xs text-muted-foreground">tags</p>
+                </div>
+                <div className="rounded-lg border p-3 col-span-3">
+                  <p className="text-2xl font-semibold">{duplicates}</p>
+                  <p className="text-xs text-muted-foreground">duplicates</p>
+                </div>
+                <div className="rounded-lg border p-3 col-span-3">
+                  <p className="text-2xl font-semibold">{plan.skipped}</p>
+                  <p className="text-xs text-muted-foreground">skipped (not web links)</p>
+                </div>
+              </div>
+
+              {(topFolders.length > 0 || unfolderedCount > 0) && (
+                <div className="max-h-40 overflow-y-auto rounded-lg border">
+                  <ul className="p-2 text-sm">
+                    {topFolders.map((folder) => (
+                      <li key={folder.id} className="flex items-center gap-2 px-2 py-1">
+                        <FolderIcon className="w-4 h-4 text-muted-foreground shrink-0" />
+                        <span className="truncate flex-1">{folder.name}</span>
+                        {!folder.isNew && <span className="text-xs text-muted-foreground">existing</span>}
+                        <span className="text-xs text-muted-foreground tabular-nums">{folder.total}</span>
+                      </li>
+                    ))}
+                    {unfolderedCount > 0 && (
+                      <li className="flex items-center gap-2 px-2 py-1 text-muted-foreground">
+                        <span className="flex-1 pl-6">Not in a folder</span>
+                        <span className="text-xs tabular-nums">{unfolderedCount}</span>
+                      </li>
+                    )}
+                  </ul>
+                </div>
+              )}
+
+              {duplicates > 0 && (
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="skip-duplicates"
+                    checked={skipDuplicates}
+                    onCheckedChange={(checked) => setSkipDuplicates(checked === true)}
+                    disabled={bulkCreate.isPending}
+                  />
+                  <Label htmlFor="skip-duplicates" className="text-sm font-normal">
+                    Skip links already in your vault or repeated in the file
+                  </Label>
+                </div>
+              )}
+            </>
+          )}
+
+          {progress && (
+            <div className="space-y-1">
+              <Progress value={progress.total ? (progress.done / progress.total) * 100 : 0} />
+              <p className="text-xs text-muted-foreground text-right tabular-nums">
+                {progress.done} / {progress.total}
+              </p>
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => {
+                onOpenChange(false);
+                resetForm();
+              }}
+              disabled={bulkCreate.isPending}
+              className="flex-1"
+            >
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              onClick={handleImport}
+              disabled={bulkCreate.isPending || linksToImport.length === 0}
+              className="flex-1 bg-gradient-to-r from-primary to-primary"
+            >
+              {bulkCreate.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Importing...
+                </>
+              ) : (
+                `Import ${linksToImport.length || ""} ${linksToImport.length === 1 ? "Link" : "Links"}`
+              )}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportBookmarksDialog;
@@ -1,10 +1,11 @@
 import { useState, useRef } from "react";
-import { Link2, FileText, Image as ImageIcon, Video, Trash2, ExternalLink, MoreVertical, FolderInput, Play, Pause, File, Maximize2, X, Calendar, Clock, Pencil } from "lucide-react";
+import { Link2, FileText, Image as ImageIcon, Video, Trash2, ExternalLink, MoreVertical, FolderInput, Play, Pause, File, Maximize2, X, Calendar, Clock, Pencil, BookOpen, Unlink, CornerUpRight, CloudOff } from "lucide-react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogTitle, DialogHeader, DialogDescription } from "@/components/ui/dialog";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Skeleton } from "@/components/ui/skeleton";
 import {
   DropdownMenu,
@@ -16,18 +17,28 @@ import {
   DropdownMenuSubContent,
 } from "@/components/ui/dropdown-menu";
 import { motion, AnimatePresence } from "framer-motion";
+import { formatDistanceToNow } from "date-fns";
 import LinkPreviewCard from "./LinkPreviewCard";
+import EmbedFrame from "./EmbedFrame";
+import ArticleReader from "./ArticleReader";
+import HighlightedText from "./HighlightedText";
+import UserAvatar from "./UserAvatar";
+import { useItemFileUrl, Collaborator, Tag, SearchMatch } from "@/hooks/use-items";
+import { getCollaboratorName } from "@/hooks/use-folder-members";
+import { useLinkPreview } from "@/hooks/use-link-preview";
+import { getEmbedSrc, formatDuration, StructuredData } from "@/lib/link-preview";
+import { LinkCheck } from "@/lib/link-health";
 
 interface Folder {
   id: string;
   name: string;
+  depth?: number;
 }
 
 interface FileMetadata {
   fileName: string;
   fileSize: number;
   fileType: string;
-  previewUrl: string;
 }
 
 interface ItemCardProps {
@@ -37,13 +48,24 @@ interface ItemCardProps {
   type: "link" | "image" | "video" | "note";
   content: string;
   thumbnailUrl?: string;
+  filePath?: string;
   folderId?: string;
+  structured?: StructuredData | null;
+  linkCheck?: LinkCheck | null;
+  tags?: Tag[];
+  addedBy?: Collaborator | null; // Set for items someone else added to a shared folder
   createdAt?: string;
   updatedAt?: string;
-  onDelete: (id: string) => void;
+  onDelete?: (id: string) => void;
   onMoveToFolder?: (itemId: string, folderId: string | null) => void;
   onEdit?: (id: string) => void;
+  onTagClick?: (tagId: string) => void;
+  onUpdateUrl?: (id: string, url: string) => void;
   folders?: Folder[];
+  searchMatch?: SearchMatch;
+  // Shared views: no deleting and no reader view, whose copy is private
+  readOnly?: boolean;
+  queued?: boolean; // Changed offline and not sent yet
 }
 
 const ItemCard = ({ 
@@ -53,20 +75,37 @@ const ItemCard = ({
   type, 
   content, 
   thumbnailUrl, 
+  filePath,
   folderId,
+  structured,
+  linkCheck,
+  tags = [],
+  addedBy,
   createdAt,
   updatedAt,
   onDelete,
   onMoveToFolder,
   onEdit,
-  folders = []
+  onTagClick,
+  onUpdateUrl,
+  folders = [],
+  searchMatch,
+  readOnly = false,
+  queued = false
 }: ItemCardProps) => {
   const [showPreview, setShowPreview] = useState(false);
+  const [previewTab, setPreviewTab] = useState<"preview" | "reader">("preview");
   const [isPlaying, setIsPlaying] = useState(false);
   const [isNoteLoading, setIsNoteLoading] = useState(false);
   const audioRef = useRef<HTMLAudioElement>(null);
 
   // Format date helper
+  const isBroken = type === "link" && linkCheck?.status === "broken";
+  const movedTo = type === "link" && linkCheck?.status === "moved" ? linkCheck.final_url : null;
+  const linkCheckSummary = linkCheck
+    ? `${linkCheck.http_status ? `HTTP ${linkCheck.http_status}` : "No response"} • checked ${formatDistanceToNow(new Date(linkCheck.checked_at), { addSuffix: true })}`
+    : "";
+
   const formatDate = (dateString?: string) => {
     if (!dateString) return null;
     const date = new Date(dateString);
@@ -95,6 +134,17 @@ const ItemCard = ({
   const fileMetadata = parseFileMetadata();
   const isFileUpload = fileMetadata !== null;
 
+  // Uploaded files live in storage; resolve a signed URL for rendering.
+  // Older uploads without a file path only have metadata and fall back to the generic file card.
+  const { data: previewUrl } = useItemFileUrl(isFileUpload ? filePath : null);
+
+  // Video links (YouTube, Vimeo, ...) take their thumbnail and player from the link preview
+  const isVideoLink = type === "video" && !isFileUpload && /^(https?:\/\/)?[\w-]+(\.[\w-]+)+/i.test(content);
+  const { data: videoPreview } = useLinkPreview(isVideoLink ? content : null);
+  const videoEmbedSrc = getEmbedSrc(videoPreview?.html);
+
+  const showSnippet = !!searchMatch && !isFileUpload && searchMatch.snippet.includes("<mark>");
+
   const formatFileSize = (bytes: number): string => {
     if (bytes === 0) return "0 Bytes";
     const k = 1024;
@@ -177,7 +227,7 @@ const ItemCard = ({
 
   const renderThumbnail = () => {
     if (isFileUpload && fileMetadata) {
-      const { fileType, previewUrl, fileName, fileSize } = fileMetadata;
+      const { fileType, fileName, fileSize } = fileMetadata;
 
       // Image preview
       if (fileType.startsWith("image/") && previewUrl) {
@@ -274,6 +324,30 @@ const ItemCard = ({
       );
     }
 
+    // Video link thumbnail with play overlay and duration
+    const videoThumbnail = thumbnailUrl || videoPreview?.image;
+    if (isVideoLink && videoThumbnail) {
+      return (
+        <div className="relative w-full h-40 overflow-hidden bg-muted">
+          <img 
+            src={videoThumbnail} 
+            alt={title} 
+            className="w-full h-full object-cover transition-transform duration-300 group-hover:scale-105"
+          />
+          <div className="absolute inset-0 flex items-center justify-center">
+            <span className="w-12 h-12 rounded-full bg-black/60 flex items-center justify-center">
+              <Play className="w-5 h-5 text-white ml-0.5" />
+            </span>
+          </div>
+          {videoPreview?.duration && (
+            <span className="absolute bottom-2 right-2 rounded bg-black/70 px-1.5 py-0.5 text-[10px] font-medium text-white">
+              {formatDuration(videoPreview.duration)}
+            </span>
+          )}
+        </div>
+      );
+    }
+
     // URL-based thumbnail for images/videos
     if (thumbnailUrl && (type === "image" || type === "video")) {
       return (
@@ -291,7 +365,7 @@ const ItemCard = ({
     if (type === "link" && !isFileUpload) {
       return (
         <div className="p-4">
-          <LinkPreviewCard url={content} />
+          <LinkPreviewCard url={content} structured={structured} />
         </div>
       );
     }
@@ -360,7 +434,7 @@ const ItemCard = ({
               </div>
             </ScrollArea>
 
-            {!isNoteLoading && (
+            {!isNoteLoading && !readOnly && (
               <div className="p-4 border-t flex items-center justify-end gap-2 shrink-0 bg-muted/30">
                 {onEdit && (
                   <Button
@@ -383,7 +457,7 @@ const ItemCard = ({
                   onClick={(e) => {
                     e.stopPropagation();
                     setShowPreview(false);
-                    onDelete(id);
+                    onDelete?.(id);
                   }}
                   className="gap-2"
                 >
@@ -398,7 +472,7 @@ const ItemCard = ({
     }
 
     if (isFileUpload && fileMetadata) {
-      const { fileType, previewUrl, fileName } = fileMetadata;
+      const { fileType, fileName } = fileMetadata;
 
       return (
         <Dialog open={showPreview} onOpenChange={setShowPreview}>
@@ -516,18 +590,61 @@ const ItemCard = ({
               >
                 <X className="w-4 h-4" />
               </Button>
-              <video 
-                src={content} 
-                className="w-full max-h-[85vh]"
-                controls
-                autoPlay
-              />
+              {videoEmbedSrc ? (
+                <EmbedFrame src={videoEmbedSrc} title={title} autoPlay />
+              ) : (
+                <video 
+                  src={content} 
+                  className="w-full max-h-[85vh]"
+                  controls
+                  autoPlay
+                />
+              )}
             </div>
           </DialogContent>
         </Dialog>
       );
     }
 
+    // Link preview with the stored reader-mode copy of the article
+    if (type === "link" && content) {
+      return (
+        <Dialog open={showPreview} onOpenChange={setShowPreview}>
+          <DialogContent className="max-w-2xl max-h-[85vh] flex flex-col p-0 gap-0">
+            <DialogHeader className="p-6 pb-4 border-b shrink-0">
+              <DialogTitle className="text-xl font-semibold leading-tight pr-8">{title}</DialogTitle>
+              <DialogDescription className="sr-only">Link preview and reader view</DialogDescription>
+            </DialogHeader>
+
+            <Tabs
+              value={previewTab}
+              onValueChange={(value) => setPreviewTab(value as "preview" | "reader")}
+              className="flex-1 min-h-0 flex flex-col"
+            >
+              {!readOnly && (
+                <TabsList className="grid grid-cols-2 mx-6 mt-4 shrink-0">
+                  <TabsTrigger value="preview" className="flex items-center gap-2">
+                    <Link2 className="w-4 h-4" />
+                    Preview
+                  </TabsTrigger>
+                  <TabsTrigger value="reader" className="flex items-center gap-2">
+                    <BookOpen className="w-4 h-4" />
+                    Reader
+                  </TabsTrigger>
+                </TabsList>
+              )}
+              <TabsContent value="preview" className="flex-1 min-h-0 overflow-y-auto p-6 mt-0">
+                <LinkPreviewCard url={content} structured={structured} />
+              </TabsContent>
+              <TabsContent value="reader" className="flex-1 min-h-0 overflow-y-auto mt-0">
+                <ArticleReader itemId={id} url={content} />
+              </TabsContent>
+            </Tabs>
+          </DialogContent>
+        </Dialog>
+      );
+    }
+
     return null;
   };
 
@@ -547,10 +664,32 @@ const ItemCard = ({
           
           <div className="p-4">
             <div className="flex items-start justify-between gap-2 mb-3">
-              <Badge variant="outline" className={`${getTypeStyles()} flex items-center gap-1.5`}>
-                {getIcon()}
-                <span className="capitalize text-xs">{getDisplayType()}</span>
-              </Badge>
+              <div className="flex flex-wrap items-center gap-1.5 min-w-0">
+                <Badge variant="outline" className={`${getTypeStyles()} flex items-center gap-1.5`}>
+                  {getIcon()}
+                  <span className="capitalize text-xs">{getDisplayType()}</span>
+                </Badge>
+                {isBroken && (
+                  <Badge
+                    variant="outline"
+                    className="bg-destructive/10 text-destructive border-destructive/20 flex items-center gap-1"
+                    title={linkCheckSummary}
+                  >
+                    <Unlink className="w-3 h-3" />
+                    <span className="text-xs">Broken</span>
+                  </Badge>
+                )}
+                {movedTo && (
+                  <Badge
+                    variant="outline"
+                    className="bg-amber-500/10 text-amber-600 border-amber-500/20 flex items-center gap-1"
+                    title={`Moved to ${movedTo} • ${linkCheckSummary}`}
+                  >
+                    <CornerUpRight className="w-3 h-3" />
+                    <span className="text-xs">Moved</span>
+                  </Badge>
+                )}
+              </div>
               
               <DropdownMenu>
                 <DropdownMenuTrigger asChild onClick={(e) => e.stopPropagation()}>
@@ -573,15 +712,26 @@ const ItemCard = ({
                       Open Link
                     </DropdownMenuItem>
                   )}
-                  {(type === "image" || type === "video" || isFileUpload) && (
+                  {(type === "image" || type === "video" || type === "link" || isFileUpload) && (
                     <DropdownMenuItem onClick={(e) => { 
                       e.stopPropagation(); 
+                      setPreviewTab("preview");
                       setShowPreview(true);
                     }}>
                       <Maximize2 className="w-4 h-4 mr-2" />
                       View Preview
                     </DropdownMenuItem>
                   )}
+                  {type === "link" && !isFileUpload && !readOnly && (
+                    <DropdownMenuItem onClick={(e) => {
+                      e.stopPropagation();
+                      setPreviewTab("reader");
+                      setShowPreview(true);
+                    }}>
+                      <BookOpen className="w-4 h-4 mr-2" />
+                      Reader View
+                    </DropdownMenuItem>
+                  )}
                   {onEdit && (
                     <DropdownMenuItem onClick={(e) => { 
                       e.stopPropagation(); 
@@ -597,7 +747,7 @@ const ItemCard = ({
                         <FolderInput className="w-4 h-4 mr-2" />
                         Move to Folder
                       </DropdownMenuSubTrigger>
-                      <DropdownMenuSubContent>
+                      <DropdownMenuSubContent className="max-h-72 overflow-y-auto">
                         <DropdownMenuItem 
                           onClick={(e) => { e.stopPropagation(); onMoveToFolder(id, null); }}
                           disabled={!folderId}
@@ -609,6 +759,7 @@ const ItemCard = ({
                             key={folder.id}
                             onClick={(e) => { e.stopPropagation(); onMoveToFolder(id, folder.id); }}
                             disabled={folderId === folder.id}
+                            style={{ paddingLeft: `${0.5 + (folder.depth || 0) * 0.75}rem` }}
                           >
                             {folder.name}
                           </DropdownMenuItem>
@@ -616,24 +767,48 @@ const ItemCard = ({
                       </DropdownMenuSubContent>
                     </DropdownMenuSub>
                   )}
-                  <DropdownMenuItem 
-                    onClick={(e) => { e.stopPropagation(); onDelete(id); }}
-                    className="text-destructive"
-                  >
-                    <Trash2 className="w-4 h-4 mr-2" />
-                    Delete
-                  </DropdownMenuItem>
+                  {!readOnly && (
+                    <DropdownMenuItem 
+                      onClick={(e) => { e.stopPropagation(); onDelete?.(id); }}
+                      className="text-destructive"
+                    >
+                      <Trash2 className="w-4 h-4 mr-2" />
+                      Delete
+                    </DropdownMenuItem>
+                  )}
                 </DropdownMenuContent>
               </DropdownMenu>
             </div>
 
-            <h3 className="font-semibold mb-1 line-clamp-2">{title}</h3>
+            {/* One-click fix for links that permanently redirect elsewhere */}
+            {movedTo && onUpdateUrl && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onUpdateUrl(id, movedTo);
+                }}
+                className="mb-3 w-full flex items-center gap-1.5 text-left text-xs text-amber-600 hover:underline"
+                title={movedTo}
+              >
+                <CornerUpRight className="w-3 h-3 shrink-0" />
+                <span className="truncate">Update to new URL: {movedTo.replace(/^https?:\/\/(www\.)?/, "")}</span>
+              </button>
+            )}
+
+            <h3 className="font-semibold mb-1 line-clamp-2">
+              {searchMatch ? <HighlightedText text={searchMatch.titleHighlight} /> : title}
+            </h3>
             
-            {description && (
+            {/* Search snippet replaces the description when it contains a match */}
+            {showSnippet ? (
+              <p className="text-sm text-muted-foreground line-clamp-3 mb-2">
+                <HighlightedText text={searchMatch.snippet} />
+              </p>
+            ) : description && (
               <p className="text-sm text-muted-foreground line-clamp-2 mb-2">{description}</p>
             )}
 
-            {type === "note" && !isFileUpload && (
+            {type === "note" && !isFileUpload && !showSnippet && (
               <p className="text-sm text-muted-foreground line-clamp-3 whitespace-pre-wrap">{content}</p>
             )}
 
@@ -642,6 +817,39 @@ const ItemCard = ({
                 {formatFileSize(fileMetadata.fileSize)}
               </p>
             )}
+
+            {tags.length > 0 && (
+              <div className="flex flex-wrap gap-1.5 mt-3">
+                {tags.map((tag) => (
+                  <Badge
+                    key={tag.id}
+                    variant="outline"
+                    className="text-xs font-normal cursor-pointer hover:opacity-80"
+                    style={{ backgroundColor: `${tag.color}15`, color: tag.color, borderColor: `${tag.color}40` }}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onTagClick?.(tag.id);
+                    }}
+                  >
+                    #{tag.name}
+                  </Badge>
+                ))}
+              </div>
+            )}
+
+            {addedBy && (
+              <div className="flex items-center gap-1.5 mt-3 text-xs text-muted-foreground">
+                <UserAvatar user={addedBy} className="h-5 w-5" />
+                <span className="truncate">Added by {getCollaboratorName(addedBy)}</span>
+              </div>
+            )}
+
+            {queued && (
+              <div className="flex items-center gap-1.5 mt-3 text-xs text-muted-foreground" title="Saved on this device; sent once you're back online">
+                <CloudOff className="w-3.5 h-3.5" />
+                <span>Waiting to sync</span>
+              </div>
+            )}
           </div>
         </Card>
       </motion.div>
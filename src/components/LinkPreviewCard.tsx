@@ -1,97 +1,35 @@
 import { useState, useEffect } from "react";
-import { Link2, ExternalLink, Globe } from "lucide-react";
+import { Link2, ExternalLink, Globe, Play } from "lucide-react";
+import { format } from "date-fns";
 import { Skeleton } from "@/components/ui/skeleton";
-import { supabase } from "@/integrations/supabase/client";
-
-interface LinkPreview {
-  title: string | null;
-  description: string | null;
-  image: string | null;
-  domain: string;
-  url: string;
-}
+import { useLinkPreview } from "@/hooks/use-link-preview";
+import { formatLinkUrl, getLinkDomain, getEmbedSrc, formatDuration, StructuredData } from "@/lib/link-preview";
+import EmbedFrame from "./EmbedFrame";
+import StructuredDataBadges from "./StructuredDataBadges";
 
 interface LinkPreviewCardProps {
   url: string;
+  structured?: StructuredData | null; // The item's stored copy, preferred over the preview's
   onImageLoad?: (imageUrl: string) => void;
 }
 
-const LinkPreviewCard = ({ url, onImageLoad }: LinkPreviewCardProps) => {
-  const [preview, setPreview] = useState<LinkPreview | null>(null);
-  const [loading, setLoading] = useState(true);
+const LinkPreviewCard = ({ url, structured: storedStructured, onImageLoad }: LinkPreviewCardProps) => {
+  // Stored previews are shared and cached, so mounting a card rarely scrapes the page
+  const { data: preview, isLoading: loading } = useLinkPreview(url);
   const [imageError, setImageError] = useState(false);
+  const [playing, setPlaying] = useState(false);
+  const [iconError, setIconError] = useState(false);
 
   useEffect(() => {
-    const fetchPreview = async () => {
-      try {
-        setLoading(true);
-        setImageError(false);
-        
-        const { data, error } = await supabase.functions.invoke('fetch-link-preview', {
-          body: { url },
-        });
-
-        if (error) {
-          console.error('Error fetching preview:', error);
-          // Set fallback preview
-          setPreview({
-            title: null,
-            description: null,
-            image: null,
-            domain: getDomain(url),
-            url: formatUrl(url),
-          });
-        } else if (data?.success && data?.data) {
-          setPreview(data.data);
-          if (data.data.image && onImageLoad) {
-            onImageLoad(data.data.image);
-          }
-        } else {
-          setPreview({
-            title: null,
-            description: null,
-            image: null,
-            domain: getDomain(url),
-            url: formatUrl(url),
-          });
-        }
-      } catch (err) {
-        console.error('Preview fetch error:', err);
-        setPreview({
-          title: null,
-          description: null,
-          image: null,
-          domain: getDomain(url),
-          url: formatUrl(url),
-        });
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    fetchPreview();
-  }, [url, onImageLoad]);
-
-  const formatUrl = (inputUrl: string): string => {
-    if (!inputUrl.startsWith('http://') && !inputUrl.startsWith('https://')) {
-      return `https://${inputUrl}`;
-    }
-    return inputUrl;
-  };
-
-  const getDomain = (inputUrl: string): string => {
-    try {
-      const formatted = formatUrl(inputUrl);
-      const urlObj = new URL(formatted);
-      return urlObj.hostname.replace('www.', '');
-    } catch {
-      return inputUrl;
+    setImageError(false);
+    if (preview?.image && onImageLoad) {
+      onImageLoad(preview.image);
     }
-  };
+  }, [preview?.image, onImageLoad]);
 
   const handleLinkClick = (e: React.MouseEvent) => {
     e.stopPropagation();
-    const formattedUrl = formatUrl(url);
+    const formattedUrl = formatLinkUrl(url);
     window.open(formattedUrl, "_blank", "noopener,noreferrer");
   };
 
@@ -108,8 +46,14 @@ const LinkPreviewCard = ({ url, onImageLoad }: LinkPreviewCardProps) => {
     );
   }
 
-  const hasRichPreview = preview && (preview.title || preview.description || (preview.image && !imageError));
-  const formattedUrl = formatUrl(url);
+  const embedSrc = getEmbedSrc(preview?.html);
+  const hasRichPreview = preview && (preview.title || preview.description || (preview.image && !imageError) || embedSrc);
+  const formattedUrl = formatLinkUrl(url);
+  const showImage = !!preview?.image && !imageError;
+  const structured = storedStructured ?? preview?.structured ?? null;
+  const author = preview?.author_name || structured?.author;
+  const publishedTime = preview?.published_time || structured?.published_at;
+  const publishedAt = publishedTime ? new Date(publishedTime) : null;
 
   if (!hasRichPreview) {
     // Fallback: Simple card with domain and link icon
@@ -122,7 +66,7 @@ const LinkPreviewCard = ({ url, onImageLoad }: LinkPreviewCardProps) => {
           <div className="min-w-0 flex-1">
             <div className="flex items-center gap-1.5 text-sm text-muted-foreground mb-1">
               <Globe className="w-3 h-3" />
-              <span>{preview?.domain || getDomain(url)}</span>
+              <span>{preview?.domain || getLinkDomain(url)}</span>
             </div>
             <p className="text-xs text-muted-foreground/70">Preview not available</p>
           </div>
@@ -140,24 +84,58 @@ const LinkPreviewCard = ({ url, onImageLoad }: LinkPreviewCardProps) => {
 
   return (
     <div className="w-full">
-      {/* Preview Image */}
-      {preview.image && !imageError && (
-        <div className="w-full h-36 overflow-hidden bg-muted rounded-t-lg">
-          <img
-            src={preview.image}
-            alt={preview.title || 'Link preview'}
-            className="w-full h-full object-cover"
-            onError={() => setImageError(true)}
-          />
+      {/* Embedded player, loaded only once the user asks for it */}
+      {embedSrc && playing ? (
+        <div className="overflow-hidden rounded-t-lg" onClick={(e) => e.stopPropagation()}>
+          <EmbedFrame src={embedSrc} title={preview.title || "Embedded media"} autoPlay />
+        </div>
+      ) : (showImage || embedSrc) && (
+        <div className="relative w-full h-36 overflow-hidden bg-muted rounded-t-lg">
+          {showImage && (
+            <img
+              src={preview.image!}
+              alt={preview.title || 'Link preview'}
+              className="w-full h-full object-cover"
+              onError={() => setImageError(true)}
+            />
+          )}
+          {embedSrc && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                setPlaying(true);
+              }}
+              className="absolute inset-0 flex items-center justify-center bg-black/20 hover:bg-black/30 transition-colors"
+              aria-label="Play"
+            >
+              <span className="w-12 h-12 rounded-full bg-black/60 flex items-center justify-center">
+                <Play className="w-5 h-5 text-white ml-0.5" />
+              </span>
+            </button>
+          )}
+          {preview.duration && (
+            <span className="absolute bottom-2 right-2 rounded bg-black/70 px-1.5 py-0.5 text-[10px] font-medium text-white">
+              {formatDuration(preview.duration)}
+            </span>
+          )}
         </div>
       )}
       
       {/* Content */}
-      <div className={`p-3 bg-muted/30 border border-border/50 ${preview.image && !imageError ? 'rounded-b-lg border-t-0' : 'rounded-lg'}`}>
-        {/* Domain */}
+      <div className={`p-3 bg-muted/30 border border-border/50 ${showImage || embedSrc ? 'rounded-b-lg border-t-0' : 'rounded-lg'}`}>
+        {/* Site */}
         <div className="flex items-center gap-1.5 text-xs text-muted-foreground mb-1.5">
-          <Globe className="w-3 h-3" />
-          <span>{preview.domain}</span>
+          {preview.icon && !iconError ? (
+            <img
+              src={preview.icon}
+              alt=""
+              className="w-3 h-3 rounded-sm object-contain"
+              onError={() => setIconError(true)}
+            />
+          ) : (
+            <Globe className="w-3 h-3" />
+          )}
+          <span className="truncate">{preview.provider_name || preview.site_name || preview.domain}</span>
         </div>
         
         {/* Title */}
@@ -166,7 +144,19 @@ const LinkPreviewCard = ({ url, onImageLoad }: LinkPreviewCardProps) => {
             {preview.title}
           </h4>
         )}
+
+        {/* Author and publish date */}
+        {(author || publishedAt) && (
+          <p className="text-xs text-muted-foreground mb-1 truncate">
+            {[author && `by ${author}`, publishedAt && format(publishedAt, "MMM d, yyyy")]
+              .filter(Boolean)
+              .join(" • ")}
+          </p>
+        )}
         
+        {/* Recipe, product and event details */}
+        {structured && <StructuredDataBadges data={structured} />}
+
         {/* Description */}
         {preview.description && (
           <p className="text-xs text-muted-foreground line-clamp-2">
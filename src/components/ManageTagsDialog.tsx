@@ -0,0 +1,146 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Check, Edit2, Merge, Trash2, X } from "lucide-react";
+import { useUpdateTag, useDeleteTag, useMergeTags, Tag } from "@/hooks/use-items";
+
+interface ManageTagsDialogProps {
+  tags: Tag[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ManageTagsDialog = ({ tags, open, onOpenChange }: ManageTagsDialogProps) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState("");
+  const [mergingId, setMergingId] = useState<string | null>(null);
+  const updateTag = useUpdateTag();
+  const deleteTag = useDeleteTag();
+  const mergeTags = useMergeTags();
+
+  const isBusy = updateTag.isPending || deleteTag.isPending || mergeTags.isPending;
+
+  const handleRename = (tag: Tag) => {
+    const name = editName.trim();
+    if (!name || name === tag.name) {
+      setEditingId(null);
+      return;
+    }
+    // Renaming onto an existing tag name is a merge
+    const existing = tags.find(t => t.id !== tag.id && t.name.toLowerCase() === name.toLowerCase());
+    if (existing) {
+      mergeTags.mutate({ sourceId: tag.id, targetId: existing.id });
+    } else {
+      updateTag.mutate({ id: tag.id, name });
+    }
+    setEditingId(null);
+  };
+
+  const handleMerge = (sourceId: string, targetId: string) => {
+    mergeTags.mutate({ sourceId, targetId });
+    setMergingId(null);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Manage Tags</DialogTitle>
+          <DialogDescription>
+            Rename, merge or delete tags. Deleting a tag does not delete its items.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-1">
+          {tags.map((tag) => (
+            <div key={tag.id} className="flex items-center gap-2 rounded-md px-2 py-1.5 hover:bg-muted/50">
+              <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: tag.color }} />
+
+              {editingId === tag.id ? (
+                <>
+                  <Input
+                    value={editName}
+                    onChange={(e) => setEditName(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") handleRename(tag);
+                      if (e.key === "Escape") setEditingId(null);
+                    }}
+                    className="h-8 flex-1"
+                    autoFocus
+                  />
+                  <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleRename(tag)}>
+                    <Check className="w-4 h-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setEditingId(null)}>
+                    <X className="w-4 h-4" />
+                  </Button>
+                </>
+              ) : mergingId === tag.id ? (
+                <>
+                  <span className="text-sm truncate">{tag.name}</span>
+                  <Select onValueChange={(targetId) => handleMerge(tag.id, targetId)}>
+                    <SelectTrigger className="h-8 flex-1">
+                      <SelectValue placeholder="Merge into..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {tags.filter(t => t.id !== tag.id).map((t) => (
+                        <SelectItem key={t.id} value={t.id}>
+                          {t.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setMergingId(null)}>
+                    <X className="w-4 h-4" />
+                  </Button>
+                </>
+              ) : (
+                <>
+                  <span className="text-sm flex-1 truncate">{tag.name}</span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    disabled={isBusy}
+                    onClick={() => {
+                      setMergingId(null);
+                      setEditName(tag.name);
+                      setEditingId(tag.id);
+                    }}
+                  >
+                    <Edit2 className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    disabled={isBusy || tags.length < 2}
+                    onClick={() => {
+                      setEditingId(null);
+                      setMergingId(tag.id);
+                    }}
+                  >
+                    <Merge className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-destructive"
+                    disabled={isBusy}
+                    onClick={() => deleteTag.mutate(tag.id)}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ManageTagsDialog;
@@ -0,0 +1,200 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useCreateSavedSearch, useUpdateSavedSearch, SavedSearch } from "@/hooks/use-items";
+import { SMART_FOLDER_ICONS } from "@/lib/smart-folders";
+import { z } from "zod";
+
+const savedSearchSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100, "Name must be less than 100 characters"),
+});
+
+const SMART_FOLDER_COLORS = [
+  "#8b5cf6", // Violet
+  "#6366f1", // Indigo
+  "#ec4899", // Pink
+  "#ef4444", // Red
+  "#f97316", // Orange
+  "#eab308", // Yellow
+  "#22c55e", // Green
+  "#06b6d4", // Cyan
+  "#3b82f6", // Blue
+];
+
+interface SaveSearchDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  savedSearch?: SavedSearch | null; // Edit this smart folder instead of creating one
+  query?: string;
+  tagIds?: string[];
+  onSaved?: (savedSearch: SavedSearch) => void;
+}
+
+const SaveSearchDialog = ({
+  open,
+  onOpenChange,
+  savedSearch,
+  query = "",
+  tagIds = [],
+  onSaved,
+}: SaveSearchDialogProps) => {
+  const [name, setName] = useState("");
+  const [icon, setIcon] = useState("sparkles");
+  const [color, setColor] = useState(SMART_FOLDER_COLORS[0]);
+  const { toast } = useToast();
+  const createSavedSearch = useCreateSavedSearch();
+  const updateSavedSearch = useUpdateSavedSearch();
+
+  const isPending = createSavedSearch.isPending || updateSavedSearch.isPending;
+
+  useEffect(() => {
+    if (open) {
+      setName(savedSearch?.name ?? "");
+      setIcon(savedSearch?.icon ?? "sparkles");
+      setColor(savedSearch?.color ?? SMART_FOLDER_COLORS[0]);
+    }
+  }, [open, savedSearch]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validation = savedSearchSchema.safeParse({ name });
+    if (!validation.success) {
+      toast({
+        title: "Validation Error",
+        description: validation.error.errors[0].message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (savedSearch) {
+      updateSavedSearch.mutate(
+        { id: savedSearch.id, name: validation.data.name, icon, color },
+        { onSuccess: () => onOpenChange(false) }
+      );
+      return;
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      toast({
+        title: "Error",
+        description: "You must be logged in to save searches.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    createSavedSearch.mutate({
+      user_id: user.id,
+      name: validation.data.name,
+      icon,
+      color,
+      query: query.trim(),
+      tag_ids: tagIds,
+    }, {
+      onSuccess: (created) => {
+        onOpenChange(false);
+        onSaved?.(created);
+      },
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{savedSearch ? "Edit Smart Folder" : "Save Search"}</DialogTitle>
+          <DialogDescription>
+            Smart folders show every item matching their search, updated as you save new items.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {!savedSearch && query.trim() && (
+            <p className="rounded-md bg-muted px-3 py-2 font-mono text-xs break-all">{query.trim()}</p>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="saved-search-name">Name</Label>
+            <Input
+              id="saved-search-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g., Unread articles, GitHub repos"
+              required
+              disabled={isPending}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Icon</Label>
+            <div className="flex gap-2 flex-wrap">
+              {Object.entries(SMART_FOLDER_ICONS).map(([key, Icon]) => (
+                <button
+                  key={key}
+                  type="button"
+                  onClick={() => setIcon(key)}
+                  className={`w-9 h-9 rounded-lg flex items-center justify-center border transition-all ${
+                    icon === key ? "border-primary bg-primary/10" : "border-border/50 hover:bg-muted"
+                  }`}
+                >
+                  <Icon className="w-4 h-4" style={{ color }} />
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Color</Label>
+            <div className="flex gap-2 flex-wrap">
+              {SMART_FOLDER_COLORS.map((c) => (
+                <button
+                  key={c}
+                  type="button"
+                  onClick={() => setColor(c)}
+                  className={`w-8 h-8 rounded-full transition-all ${
+                    color === c ? "ring-2 ring-offset-2 ring-primary scale-110" : "hover:scale-105"
+                  }`}
+                  style={{ backgroundColor: c }}
+                />
+              ))}
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={isPending}
+              className="flex-1"
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isPending || !name.trim()} className="flex-1">
+              {isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Saving...
+                </>
+              ) : savedSearch ? (
+                "Save Changes"
+              ) : (
+                "Save Search"
+              )}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SaveSearchDialog;
@@ -0,0 +1,223 @@
+import { useRef, useState } from "react";
+import { AlertCircle, FolderOpen, Loader2, Search, Tag as TagIcon, Zap } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import { Folder, Tag } from "@/hooks/use-items";
+import {
+  ITEM_TYPES,
+  SEARCH_OPERATORS,
+  SearchField,
+  SearchQueryError,
+  quoteSearchValue,
+} from "@/lib/search-query";
+
+interface SearchQueryInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  errors?: SearchQueryError[];
+  tags?: Tag[];
+  folders?: Folder[];
+  isSearching?: boolean;
+}
+
+interface Suggestion {
+  key: string;
+  label: string;
+  description?: string;
+  icon: React.ReactNode;
+  insert: string;
+}
+
+const MAX_SUGGESTIONS = 8;
+
+// Start of the token under the caret; spaces inside an open quote belong to the token
+const findTokenStart = (text: string) => {
+  const quotes = text.split('"').length - 1;
+  const searchEnd = quotes % 2 === 1 ? text.lastIndexOf('"') : text.length;
+  const lastSpace = Math.max(text.lastIndexOf(" ", searchEnd - 1), text.lastIndexOf("\t", searchEnd - 1));
+  return lastSpace + 1;
+};
+
+const SearchQueryInput = ({
+  value,
+  onChange,
+  errors = [],
+  tags = [],
+  folders = [],
+  isSearching = false,
+}: SearchQueryInputProps) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [caret, setCaret] = useState(0);
+  const [focused, setFocused] = useState(false);
+  const [dismissed, setDismissed] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const prefix = value.slice(0, caret);
+  const tokenStart = findTokenStart(prefix);
+  const rawToken = prefix.slice(tokenStart);
+  const negation = rawToken.startsWith("-") ? "-" : "";
+  const token = rawToken.slice(negation.length);
+
+  const getSuggestions = (): Suggestion[] => {
+    if (!value.trim()) {
+      return SEARCH_OPERATORS.map((op) => ({
+        key: op.field,
+        label: op.example,
+        description: op.description,
+        icon: <Zap className="w-3 h-3 text-primary" />,
+        insert: `${op.field}:`,
+      }));
+    }
+
+    const operator = /^([a-z]+):(.*)$/i.exec(token);
+    if (operator) {
+      const field = operator[1].toLowerCase() as SearchField;
+      const partial = operator[2].replace(/^"/, "").toLowerCase();
+      const valueSuggestion = (name: string, icon: React.ReactNode): Suggestion => ({
+        key: `${field}-${name}`,
+        label: name,
+        icon,
+        insert: `${negation}${field}:${quoteSearchValue(name)} `,
+      });
+
+      switch (field) {
+        case "type":
+          return ITEM_TYPES.filter((t) => t.startsWith(partial)).map((t) =>
+            valueSuggestion(t, <Zap className="w-3 h-3 text-primary" />)
+          );
+        case "tag":
+          return tags
+            .filter((t) => t.name.toLowerCase().includes(partial))
+            .map((t) => valueSuggestion(t.name, <TagIcon className="w-3 h-3" style={{ color: t.color }} />));
+        case "folder":
+          return [...new Set(folders.map((f) => f.name))]
+            .filter((name) => name.toLowerCase().includes(partial))
+            .map((name) =>
+              valueSuggestion(
+                name,
+                <FolderOpen className="w-3 h-3" style={{ color: folders.find((f) => f.name === name)?.color }} />
+              )
+            );
+        default:
+          return [];
+      }
+    }
+
+    if (/^[a-z]+$/i.test(token)) {
+      return SEARCH_OPERATORS.filter((op) => op.field.startsWith(token.toLowerCase()) && op.field !== token.toLowerCase())
+        .map((op) => ({
+          key: op.field,
+          label: `${op.field}:`,
+          description: op.description,
+          icon: <Zap className="w-3 h-3 text-primary" />,
+          insert: `${negation}${op.field}:`,
+        }));
+    }
+
+    return [];
+  };
+
+  const suggestions = getSuggestions().slice(0, MAX_SUGGESTIONS);
+  const showSuggestions = focused && !dismissed && suggestions.length > 0;
+  const active = Math.min(activeIndex, suggestions.length - 1);
+
+  const syncCaret = () => {
+    setCaret(inputRef.current?.selectionStart ?? value.length);
+  };
+
+  const applySuggestion = (suggestion: Suggestion) => {
+    const next = value.slice(0, tokenStart) + suggestion.insert + value.slice(caret).replace(/^\S*/, "");
+    const nextCaret = tokenStart + suggestion.insert.length;
+    onChange(next);
+    setCaret(nextCaret);
+    setActiveIndex(0);
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(nextCaret, nextCaret);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!showSuggestions) return;
+
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setActiveIndex((active + 1) % suggestions.length);
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setActiveIndex((active - 1 + suggestions.length) % suggestions.length);
+    } else if (e.key === "Enter" || e.key === "Tab") {
+      e.preventDefault();
+      applySuggestion(suggestions[active]);
+    } else if (e.key === "Escape") {
+      setDismissed(true);
+    }
+  };
+
+  return (
+    <div className="relative flex-1">
+      <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+      <Input
+        ref={inputRef}
+        placeholder="Search items... try type:link or tag:research"
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setCaret(e.target.selectionStart ?? e.target.value.length);
+          setDismissed(false);
+          setActiveIndex(0);
+        }}
+        onKeyDown={handleKeyDown}
+        onKeyUp={syncCaret}
+        onClick={syncCaret}
+        onFocus={() => {
+          setFocused(true);
+          syncCaret();
+        }}
+        onBlur={() => {
+          // Delay so clicks on suggestions register first
+          setTimeout(() => setFocused(false), 150);
+        }}
+        aria-invalid={errors.length > 0}
+        className={cn(
+          "pl-10 pr-10 bg-card border-border/50 focus-visible:ring-primary/50",
+          errors.length > 0 && "border-destructive/60"
+        )}
+      />
+      {value && isSearching && (
+        <Loader2 className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 animate-spin text-muted-foreground" />
+      )}
+
+      {showSuggestions ? (
+        <div className="absolute z-50 mt-1 w-full rounded-md border bg-popover p-1 shadow-md">
+          {suggestions.map((suggestion, index) => (
+            <button
+              key={suggestion.key}
+              type="button"
+              onMouseDown={(e) => e.preventDefault()}
+              onMouseEnter={() => setActiveIndex(index)}
+              onClick={() => applySuggestion(suggestion)}
+              className={cn(
+                "flex w-full items-center gap-2 rounded-sm px-2 py-1.5 text-sm text-left",
+                index === active && "bg-accent text-accent-foreground"
+              )}
+            >
+              {suggestion.icon}
+              <span className="font-mono text-xs">{suggestion.label}</span>
+              {suggestion.description && (
+                <span className="ml-auto truncate text-xs text-muted-foreground">{suggestion.description}</span>
+              )}
+            </button>
+          ))}
+        </div>
+      ) : errors.length > 0 && (
+        <div className="absolute left-0 top-full mt-1 flex items-center gap-1 text-xs text-destructive">
+          <AlertCircle className="w-3 h-3 shrink-0" />
+          <span className="truncate">{errors.map((error) => error.message).join(" • ")}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SearchQueryInput;
@@ -0,0 +1,186 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Copy, Link2, Loader2, Lock, Trash2 } from "lucide-react";
+import { addDays, format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { Folder } from "@/hooks/use-items";
+import {
+  FolderShare,
+  getShareUrl,
+  isShareExpired,
+  useCreateFolderShare,
+  useDeleteFolderShare,
+  useFolderShares,
+} from "@/hooks/use-folder-shares";
+
+// Days until a new link expires; "never" keeps it until revoked
+const EXPIRY_OPTIONS = [
+  { value: "never", label: "Never expires" },
+  { value: "1", label: "Expires in 1 day" },
+  { value: "7", label: "Expires in 7 days" },
+  { value: "30", label: "Expires in 30 days" },
+];
+
+interface ShareFolderDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  folder: Folder | null;
+}
+
+const ShareFolderDialog = ({ open, onOpenChange, folder }: ShareFolderDialogProps) => {
+  const [expiry, setExpiry] = useState("never");
+  const [password, setPassword] = useState("");
+  const { toast } = useToast();
+  const { data: shares = [], isLoading } = useFolderShares(open ? folder?.id : null);
+  const createShare = useCreateFolderShare();
+  const deleteShare = useDeleteFolderShare();
+
+  const copyLink = async (share: FolderShare) => {
+    try {
+      await navigator.clipboard.writeText(getShareUrl(share.slug));
+      toast({ title: "Link copied", description: "Anyone with the link can view this folder." });
+    } catch {
+      toast({
+        title: "Error",
+        description: "Couldn't copy the link. Select it and copy it instead.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!folder) return;
+
+    createShare.mutate({
+      folderId: folder.id,
+      expiresAt: expiry === "never" ? null : addDays(new Date(), Number(expiry)).toISOString(),
+      password: password.trim(),
+    }, {
+      onSuccess: (share) => {
+        setPassword("");
+        setExpiry("never");
+        copyLink(share);
+      },
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Share "{folder?.name}"</DialogTitle>
+          <DialogDescription>
+            Anyone with a link can view the items in this folder without an account. Subfolders and uploaded
+            files aren't included.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleCreate} className="space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label>Expiry</Label>
+              <Select value={expiry} onValueChange={setExpiry} disabled={createShare.isPending}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPIRY_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="share-password">Password</Label>
+              <Input
+                id="share-password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="Optional"
+                autoComplete="new-password"
+                maxLength={100}
+                disabled={createShare.isPending}
+              />
+            </div>
+          </div>
+
+          <Button type="submit" className="w-full gap-2" disabled={!folder || createShare.isPending}>
+            {createShare.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Link2 className="w-4 h-4" />}
+            Create Link
+          </Button>
+        </form>
+
+        {isLoading ? (
+          <div className="flex justify-center py-2">
+            <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+          </div>
+        ) : shares.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Active links</p>
+            <ul className="max-h-56 overflow-y-auto space-y-2">
+              {shares.map((share) => {
+                const expired = isShareExpired(share);
+                return (
+                  <li key={share.id} className="rounded-lg border p-2 space-y-2">
+                    <div className="flex items-center gap-2">
+                      <Input
+                        readOnly
+                        value={getShareUrl(share.slug)}
+                        className="h-8 text-xs font-mono"
+                        onFocus={(e) => e.target.select()}
+                      />
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 shrink-0"
+                        onClick={() => copyLink(share)}
+                        disabled={expired}
+                        title="Copy link"
+                      >
+                        <Copy className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 shrink-0 text-destructive"
+                        onClick={() => deleteShare.mutate(share)}
+                        disabled={deleteShare.isPending}
+                        title="Revoke link"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                    <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                      {expired ? (
+                        <Badge variant="outline" className="text-destructive border-destructive/30">Expired</Badge>
+                      ) : (
+                        <span>
+                          {share.expires_at ? `Expires ${format(new Date(share.expires_at), "MMM d, yyyy")}` : "No expiry"}
+                        </span>
+                      )}
+                      {share.has_password && (
+                        <span className="flex items-center gap-1">
+                          <Lock className="w-3 h-3" />
+                          Password
+                        </span>
+                      )}
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ShareFolderDialog;
@@ -0,0 +1,142 @@
+import { useMemo } from "react";
+import { MoreVertical, Edit2, Trash2, Pin, PinOff, Loader2 } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { motion } from "framer-motion";
+import { buildSearchPlan, useSearchCount, Folder, SavedSearch, Tag } from "@/hooks/use-items";
+import { parseSearchQuery } from "@/lib/search-query";
+import { getSmartFolderIcon } from "@/lib/smart-folders";
+
+interface SmartFolderCardProps {
+  savedSearch: SavedSearch;
+  folders: Folder[];
+  tags: Tag[];
+  onClick: () => void;
+  onEdit: () => void;
+  onTogglePin: () => void;
+  onDelete: () => void;
+}
+
+const SmartFolderCard = ({
+  savedSearch,
+  folders,
+  tags,
+  onClick,
+  onEdit,
+  onTogglePin,
+  onDelete,
+}: SmartFolderCardProps) => {
+  // Contents are computed live from the saved query
+  const plan = useMemo(
+    () => buildSearchPlan(parseSearchQuery(savedSearch.query).nodes, folders, tags, savedSearch.tag_ids),
+    [savedSearch.query, savedSearch.tag_ids, folders, tags]
+  );
+  const { data: itemCount = 0, isLoading } = useSearchCount(plan);
+  const Icon = getSmartFolderIcon(savedSearch.icon);
+  const tagNames = savedSearch.tag_ids
+    .map(id => tags.find(tag => tag.id === id)?.name)
+    .filter(Boolean)
+    .map(name => `#${name}`);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, scale: 0.95 }}
+      animate={{ opacity: 1, scale: 1 }}
+      whileHover={{ scale: 1.02 }}
+      transition={{ duration: 0.2 }}
+    >
+      <Card
+        className="group relative overflow-hidden cursor-pointer transition-all duration-300 hover:shadow-lg border-dashed border-border"
+        onClick={onClick}
+      >
+        <div
+          className="absolute inset-0 opacity-10"
+          style={{ backgroundColor: savedSearch.color }}
+        />
+
+        <div className="relative p-5">
+          <div className="flex items-start justify-between">
+            <div
+              className="w-12 h-12 rounded-xl flex items-center justify-center mb-3"
+              style={{ backgroundColor: `${savedSearch.color}20` }}
+            >
+              <Icon className="w-6 h-6" style={{ color: savedSearch.color }} />
+            </div>
+
+            <div className="flex items-center gap-1">
+              {savedSearch.pinned && (
+                <Pin className="w-4 h-4 text-muted-foreground" />
+              )}
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild onClick={(e) => e.stopPropagation()}>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 opacity-0 group-hover:opacity-100 transition-opacity"
+                  >
+                    <MoreVertical className="w-4 h-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={(e) => { e.stopPropagation(); onTogglePin(); }}>
+                    {savedSearch.pinned ? (
+                      <>
+                        <PinOff className="w-4 h-4 mr-2" />
+                        Unpin
+                      </>
+                    ) : (
+                      <>
+                        <Pin className="w-4 h-4 mr-2" />
+                        Pin
+                      </>
+                    )}
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={(e) => { e.stopPropagation(); onEdit(); }}>
+                    <Edit2 className="w-4 h-4 mr-2" />
+                    Rename
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onClick={(e) => { e.stopPropagation(); onDelete(); }}
+                    className="text-destructive"
+                  >
+                    <Trash2 className="w-4 h-4 mr-2" />
+                    Delete
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </div>
+          </div>
+
+          <h3 className="font-semibold text-lg mb-1 line-clamp-1">{savedSearch.name}</h3>
+
+          <p className="text-xs font-mono text-muted-foreground line-clamp-1 mb-2">
+            {[savedSearch.query, ...tagNames].filter(Boolean).join(" ")}
+          </p>
+
+          <p className="text-xs text-muted-foreground flex items-center gap-1">
+            {isLoading ? (
+              <Loader2 className="w-3 h-3 animate-spin" />
+            ) : (
+              <>{itemCount} {itemCount === 1 ? "item" : "items"}</>
+            )}
+            <span className="text-border">•</span>
+            Smart folder
+          </p>
+        </div>
+
+        <div
+          className="absolute bottom-0 left-0 right-0 h-1 opacity-0 group-hover:opacity-100 transition-opacity"
+          style={{ backgroundColor: savedSearch.color }}
+        />
+      </Card>
+    </motion.div>
+  );
+};
+
+export default SmartFolderCard;
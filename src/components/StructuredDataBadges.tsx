@@ -0,0 +1,93 @@
+import { format } from "date-fns";
+import { CalendarDays, ChefHat, Clock, MapPin, ShoppingBag, Star, Users } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { StructuredData, formatMinutes, formatPrice } from "@/lib/link-preview";
+
+interface StructuredDataBadgesProps {
+  data: StructuredData;
+}
+
+interface BadgeSpec {
+  key: string;
+  icon: React.ReactNode;
+  label: string;
+}
+
+const iconClass = "w-3 h-3";
+
+const formatEventDate = (start: string, end?: string) => {
+  const startDate = new Date(start);
+  const label = format(startDate, "EEE, MMM d, yyyy");
+  if (!end || isNaN(Date.parse(end))) return label;
+  const endDate = new Date(end);
+  return startDate.toDateString() === endDate.toDateString() ? label : `${label} – ${format(endDate, "MMM d")}`;
+};
+
+const getBadges = (data: StructuredData): BadgeSpec[] => {
+  const badges: BadgeSpec[] = [];
+
+  switch (data.type) {
+    case "recipe":
+      badges.push({ key: "type", icon: <ChefHat className={iconClass} />, label: "Recipe" });
+      if (data.recipe_yield) {
+        badges.push({ key: "yield", icon: <Users className={iconClass} />, label: data.recipe_yield });
+      }
+      if (data.total_time) {
+        badges.push({ key: "time", icon: <Clock className={iconClass} />, label: formatMinutes(data.total_time) });
+      }
+      break;
+    case "product":
+      if (data.price !== undefined) {
+        badges.push({
+          key: "price",
+          icon: <ShoppingBag className={iconClass} />,
+          label: formatPrice(data.price, data.currency),
+        });
+      }
+      break;
+    case "event":
+      if (data.event_start && !isNaN(Date.parse(data.event_start))) {
+        badges.push({
+          key: "date",
+          icon: <CalendarDays className={iconClass} />,
+          label: formatEventDate(data.event_start, data.event_end),
+        });
+      }
+      if (data.event_location) {
+        badges.push({ key: "location", icon: <MapPin className={iconClass} />, label: data.event_location });
+      }
+      break;
+    // Article author and date are part of the byline
+  }
+
+  if (data.rating !== undefined) {
+    const count = data.rating_count ? ` (${data.rating_count.toLocaleString()})` : "";
+    badges.push({
+      key: "rating",
+      icon: <Star className={`${iconClass} fill-amber-400 text-amber-400`} />,
+      label: `${Number(data.rating.toFixed(1))}${count}`,
+    });
+  }
+
+  return badges;
+};
+
+// Type-specific facts from a page's schema.org data: recipe yield and time,
+// product price, event date and venue, and ratings
+const StructuredDataBadges = ({ data }: StructuredDataBadgesProps) => {
+  const badges = getBadges(data);
+  if (badges.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-1 mb-1.5">
+      {badges.map((badge) => (
+        <Badge key={badge.key} variant="secondary" className="gap-1 px-1.5 py-0 text-[10px] font-normal max-w-full">
+          {badge.icon}
+          <span className="truncate">{badge.label}</span>
+        </Badge>
+      ))}
+    </div>
+  );
+};
+
+export default StructuredDataBadges;
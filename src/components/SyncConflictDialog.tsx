@@ -0,0 +1,83 @@
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Item, ItemUpdate, ItemVersionField, getFolderPath, getItemVersion, useFolders, useUpdateItem } from "@/hooks/use-items";
+import { dismissSyncConflict, useSyncConflicts } from "@/hooks/use-sync-conflicts";
+
+const FIELD_LABELS: Record<ItemVersionField, string> = {
+  title: "Title",
+  description: "Description",
+  type: "Type",
+  content: "Content",
+  thumbnail_url: "Thumbnail",
+  folder_id: "Folder",
+};
+
+// Edits that clashed with a change saved elsewhere, one at a time. Either
+// side wins only on the fields both changed; the rest of the edit is kept.
+const SyncConflictDialog = () => {
+  const conflicts = useSyncConflicts();
+  const { data: folders = [] } = useFolders();
+  const updateItem = useUpdateItem();
+  const conflict = conflicts[0];
+
+  const formatValue = (field: ItemVersionField, value: Item[ItemVersionField]) => {
+    if (field === "folder_id") {
+      return value ? getFolderPath(value, folders).map((folder) => folder.name).join(" / ") || "Unknown folder" : "No folder";
+    }
+    return value || "—";
+  };
+
+  const resolve = (keepMine: boolean) => {
+    if (!conflict) return;
+    const update: ItemUpdate = { ...conflict.update, base: getItemVersion(conflict.remote) };
+    if (!keepMine) {
+      conflict.fields.forEach((field) => {
+        delete update[field];
+      });
+    }
+    updateItem.mutate(update);
+    dismissSyncConflict(conflict.id);
+  };
+
+  return (
+    <Dialog open={!!conflict} onOpenChange={(open) => !open && resolve(false)}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Changed in two places</DialogTitle>
+          <DialogDescription>
+            "{conflict?.remote.title}" was also edited somewhere else. Choose which version to keep.
+          </DialogDescription>
+        </DialogHeader>
+
+        {conflict && (
+          <div className="space-y-3 max-h-80 overflow-y-auto">
+            {conflict.fields.map((field) => (
+              <div key={field} className="space-y-1">
+                <p className="text-xs font-medium text-muted-foreground">{FIELD_LABELS[field]}</p>
+                <div className="grid grid-cols-2 gap-2 text-sm">
+                  <div className="rounded-md border p-2">
+                    <p className="text-xs text-muted-foreground mb-1">Your edit</p>
+                    <p className="break-words line-clamp-4">{formatValue(field, conflict.update[field])}</p>
+                  </div>
+                  <div className="rounded-md border p-2">
+                    <p className="text-xs text-muted-foreground mb-1">Saved elsewhere</p>
+                    <p className="break-words line-clamp-4">{formatValue(field, conflict.remote[field])}</p>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => resolve(false)}>
+            Keep Theirs
+          </Button>
+          <Button onClick={() => resolve(true)}>Keep Mine</Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SyncConflictDialog;
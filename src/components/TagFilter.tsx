@@ -0,0 +1,93 @@
+import { useState } from "react";
+import { Tag as TagIcon, Settings2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Tag } from "@/hooks/use-items";
+import ManageTagsDialog from "./ManageTagsDialog";
+
+interface TagFilterProps {
+  tags: Tag[];
+  selectedTagIds: string[];
+  onChange: (tagIds: string[]) => void;
+}
+
+const TagFilter = ({ tags, selectedTagIds, onChange }: TagFilterProps) => {
+  const [manageOpen, setManageOpen] = useState(false);
+
+  const toggleTag = (tagId: string) => {
+    onChange(
+      selectedTagIds.includes(tagId)
+        ? selectedTagIds.filter(id => id !== tagId)
+        : [...selectedTagIds, tagId]
+    );
+  };
+
+  return (
+    <>
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="outline" className="gap-2 bg-card border-border/50">
+            <TagIcon className="w-4 h-4" />
+            Tags
+            {selectedTagIds.length > 0 && (
+              <Badge variant="secondary" className="h-5 px-1.5 text-xs">
+                {selectedTagIds.length}
+              </Badge>
+            )}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-64 p-2">
+          {tags.length === 0 ? (
+            <p className="text-sm text-muted-foreground p-2">
+              No tags yet. Add tags when creating or editing an item.
+            </p>
+          ) : (
+            <div className="max-h-64 overflow-y-auto">
+              {tags.map((tag) => (
+                <label
+                  key={tag.id}
+                  className="flex items-center gap-2 rounded-sm px-2 py-1.5 text-sm cursor-pointer hover:bg-accent"
+                >
+                  <Checkbox
+                    checked={selectedTagIds.includes(tag.id)}
+                    onCheckedChange={() => toggleTag(tag.id)}
+                  />
+                  <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: tag.color }} />
+                  <span className="truncate">{tag.name}</span>
+                </label>
+              ))}
+            </div>
+          )}
+
+          <div className="flex items-center justify-between gap-2 border-t mt-2 pt-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-8 text-xs"
+              onClick={() => onChange([])}
+              disabled={selectedTagIds.length === 0}
+            >
+              Clear
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-8 text-xs gap-1"
+              onClick={() => setManageOpen(true)}
+              disabled={tags.length === 0}
+            >
+              <Settings2 className="w-3 h-3" />
+              Manage tags
+            </Button>
+          </div>
+        </PopoverContent>
+      </Popover>
+
+      <ManageTagsDialog tags={tags} open={manageOpen} onOpenChange={setManageOpen} />
+    </>
+  );
+};
+
+export default TagFilter;
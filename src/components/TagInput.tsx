@@ -0,0 +1,112 @@
+import { useState } from "react";
+import { X, Tag as TagIcon } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Tag } from "@/hooks/use-items";
+
+interface TagInputProps {
+  id?: string;
+  value: string[];
+  onChange: (tags: string[]) => void;
+  suggestions?: Tag[];
+  disabled?: boolean;
+}
+
+const MAX_TAG_LENGTH = 50;
+
+const TagInput = ({ id, value, onChange, suggestions = [], disabled = false }: TagInputProps) => {
+  const [draft, setDraft] = useState("");
+  const [focused, setFocused] = useState(false);
+
+  const addTag = (name: string) => {
+    const trimmed = name.trim().slice(0, MAX_TAG_LENGTH);
+    if (!trimmed) return;
+    // Reuse the existing tag's casing if one matches
+    const existing = suggestions.find(t => t.name.toLowerCase() === trimmed.toLowerCase());
+    const finalName = existing?.name ?? trimmed;
+    if (!value.some(v => v.toLowerCase() === finalName.toLowerCase())) {
+      onChange([...value, finalName]);
+    }
+    setDraft("");
+  };
+
+  const removeTag = (name: string) => {
+    onChange(value.filter(v => v !== name));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter" || e.key === ",") {
+      e.preventDefault();
+      addTag(draft);
+    } else if (e.key === "Backspace" && !draft && value.length > 0) {
+      removeTag(value[value.length - 1]);
+    }
+  };
+
+  const matches = suggestions
+    .filter(t => !value.some(v => v.toLowerCase() === t.name.toLowerCase()))
+    .filter(t => t.name.toLowerCase().includes(draft.trim().toLowerCase()))
+    .slice(0, 6);
+
+  const colorFor = (name: string) =>
+    suggestions.find(t => t.name.toLowerCase() === name.toLowerCase())?.color;
+
+  return (
+    <div className="relative">
+      <div className="flex flex-wrap items-center gap-1.5 min-h-10 w-full rounded-md border border-input bg-background px-2 py-1.5 focus-within:ring-2 focus-within:ring-ring focus-within:ring-offset-2">
+        {value.map((name) => (
+          <Badge
+            key={name}
+            variant="secondary"
+            className="gap-1 pr-1"
+            style={colorFor(name) ? { backgroundColor: `${colorFor(name)}20`, color: colorFor(name) } : undefined}
+          >
+            {name}
+            <button
+              type="button"
+              onClick={() => removeTag(name)}
+              disabled={disabled}
+              className="rounded-full hover:bg-foreground/10 p-0.5"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </Badge>
+        ))}
+        <Input
+          id={id}
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setFocused(true)}
+          onBlur={() => {
+            // Delay so clicks on suggestions register first
+            setTimeout(() => setFocused(false), 150);
+            if (draft.trim()) addTag(draft);
+          }}
+          placeholder={value.length === 0 ? "Add tags..." : ""}
+          disabled={disabled}
+          className="flex-1 min-w-[8rem] h-7 border-0 p-0 shadow-none focus-visible:ring-0 focus-visible:ring-offset-0"
+        />
+      </div>
+
+      {focused && matches.length > 0 && (
+        <div className="absolute z-50 mt-1 w-full rounded-md border bg-popover p-1 shadow-md">
+          {matches.map((tag) => (
+            <button
+              key={tag.id}
+              type="button"
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => addTag(tag.name)}
+              className="flex w-full items-center gap-2 rounded-sm px-2 py-1.5 text-sm hover:bg-accent hover:text-accent-foreground"
+            >
+              <TagIcon className="w-3 h-3" style={{ color: tag.color }} />
+              {tag.name}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TagInput;
@@ -0,0 +1,184 @@
+import { useState } from "react";
+import { formatDistanceToNow, differenceInDays } from "date-fns";
+import { Trash2, RotateCcw, FolderOpen, Link2, FileText, Image as ImageIcon, Video, Loader2 } from "lucide-react";
+import { motion } from "framer-motion";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  useTrash,
+  useRestoreItem,
+  useRestoreFolder,
+  useDeleteItemForever,
+  useDeleteFolderForever,
+  TRASH_RETENTION_DAYS,
+  Item,
+} from "@/hooks/use-items";
+
+const getItemIcon = (type: Item["type"]) => {
+  switch (type) {
+    case "link":
+      return <Link2 className="w-5 h-5 text-blue-500" />;
+    case "image":
+      return <ImageIcon className="w-5 h-5 text-purple-500" />;
+    case "video":
+      return <Video className="w-5 h-5 text-pink-500" />;
+    case "note":
+      return <FileText className="w-5 h-5 text-amber-500" />;
+  }
+};
+
+const TrashView = () => {
+  const [confirmDelete, setConfirmDelete] = useState<{ type: "folder" | "item"; id: string; name: string } | null>(null);
+  const { data: trash, isLoading } = useTrash();
+  const restoreItem = useRestoreItem();
+  const restoreFolder = useRestoreFolder();
+  const deleteItemForever = useDeleteItemForever();
+  const deleteFolderForever = useDeleteFolderForever();
+
+  const describeDeletion = (deletedAt?: string | null) => {
+    if (!deletedAt) return null;
+    const deleted = new Date(deletedAt);
+    const daysLeft = Math.max(0, TRASH_RETENTION_DAYS - differenceInDays(new Date(), deleted));
+    return `Deleted ${formatDistanceToNow(deleted, { addSuffix: true })} • ${daysLeft} ${daysLeft === 1 ? "day" : "days"} left`;
+  };
+
+  const renderRow = (
+    key: string,
+    icon: React.ReactNode,
+    name: string,
+    deletedAt: string | null | undefined,
+    onRestore: () => void,
+    onDelete: () => void
+  ) => (
+    <motion.div key={key} initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} layout>
+      <Card className="flex items-center gap-4 p-4 border-border/50">
+        <div className="w-10 h-10 rounded-lg bg-muted flex items-center justify-center shrink-0">
+          {icon}
+        </div>
+        <div className="min-w-0 flex-1">
+          <p className="font-medium truncate">{name}</p>
+          <p className="text-xs text-muted-foreground">{describeDeletion(deletedAt)}</p>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          <Button variant="outline" size="sm" className="gap-2" onClick={onRestore}>
+            <RotateCcw className="w-4 h-4" />
+            <span className="hidden sm:inline">Restore</span>
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="gap-2 text-destructive hover:text-destructive"
+            onClick={onDelete}
+          >
+            <Trash2 className="w-4 h-4" />
+            <span className="hidden sm:inline">Delete Forever</span>
+          </Button>
+        </div>
+      </Card>
+    </motion.div>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-20">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const folders = trash?.folders || [];
+  const items = trash?.items || [];
+
+  return (
+    <div>
+      <h2 className="text-xl font-semibold mb-1 flex items-center gap-2">
+        <Trash2 className="w-5 h-5 text-primary" />
+        Trash
+        <span className="text-sm font-normal text-muted-foreground">
+          ({folders.length + items.length})
+        </span>
+      </h2>
+      <p className="text-sm text-muted-foreground mb-6">
+        Items in the trash are permanently deleted after {TRASH_RETENTION_DAYS} days.
+      </p>
+
+      {folders.length === 0 && items.length === 0 ? (
+        <div className="text-center py-20">
+          <Trash2 className="w-16 h-16 mx-auto mb-4 text-muted-foreground opacity-50" />
+          <h2 className="text-2xl font-semibold mb-2 text-muted-foreground">
+            Trash is empty
+          </h2>
+          <p className="text-muted-foreground">
+            Deleted items and folders will show up here
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {folders.map((folder) =>
+            renderRow(
+              `folder-${folder.id}`,
+              <FolderOpen className="w-5 h-5" style={{ color: folder.color }} />,
+              folder.name,
+              folder.deleted_at,
+              () => restoreFolder.mutate(folder.id),
+              () => setConfirmDelete({ type: "folder", id: folder.id, name: folder.name })
+            )
+          )}
+          {items.map((item) =>
+            renderRow(
+              `item-${item.id}`,
+              getItemIcon(item.type),
+              item.title,
+              item.deleted_at,
+              () => restoreItem.mutate(item.id),
+              () => setConfirmDelete({ type: "item", id: item.id, name: item.title })
+            )
+          )}
+        </div>
+      )}
+
+      {/* Delete Forever Confirmation Dialog */}
+      <AlertDialog open={!!confirmDelete} onOpenChange={() => setConfirmDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{confirmDelete?.name}" forever?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {confirmDelete?.type === "folder"
+                ? "This action cannot be undone. The folder and everything inside it will be permanently deleted."
+                : "This action cannot be undone. This item will be permanently deleted."
+              }
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => {
+                if (confirmDelete?.type === "folder") {
+                  deleteFolderForever.mutate(confirmDelete.id);
+                } else if (confirmDelete?.type === "item") {
+                  deleteItemForever.mutate(confirmDelete.id);
+                }
+                setConfirmDelete(null);
+              }}
+            >
+              Delete Forever
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default TrashView;
@@ -0,0 +1,30 @@
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { cn } from "@/lib/utils";
+import { Collaborator } from "@/hooks/use-items";
+import { getCollaboratorName } from "@/hooks/use-folder-members";
+
+interface UserAvatarProps {
+  user: Collaborator | null;
+  className?: string;
+}
+
+const getInitials = (name: string) =>
+  name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0].toUpperCase())
+    .join("");
+
+const UserAvatar = ({ user, className }: UserAvatarProps) => {
+  const name = getCollaboratorName(user);
+
+  return (
+    <Avatar className={cn("h-6 w-6", className)} title={name}>
+      {user?.avatar_url && <AvatarImage src={user.avatar_url} alt={name} />}
+      <AvatarFallback className="text-[10px] font-medium">{user?.full_name ? getInitials(name) : "?"}</AvatarFallback>
+    </Avatar>
+  );
+};
+
+export default UserAvatar;
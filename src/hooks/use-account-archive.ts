@@ -0,0 +1,297 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { useToast } from "@/hooks/use-toast";
+import { ITEM_FILES_BUCKET, groupFoldersByDepth, queryKeys, uploadItemFile } from "@/hooks/use-items";
+import {
+  ARCHIVE_FORMAT,
+  ARCHIVE_VERSION,
+  AccountArchive,
+  ArchiveFile,
+  ArchiveImportPlan,
+  getArchiveFileName,
+} from "@/lib/account-archive";
+import { downloadFile } from "@/lib/utils";
+
+// PostgREST returns at most this many rows per request
+const PAGE_SIZE = 1000;
+const INSERT_BATCH_SIZE = 200;
+// Files are inlined as base64 in one JSON string, so the tab holds the whole
+// archive in memory; files past this total are left out of the export
+export const ARCHIVE_FILES_MAX_BYTES = 100 * 1024 * 1024;
+
+type Progress = (done: number, total: number) => void;
+
+const getUserId = async () => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error("You must be logged in.");
+  return user.id;
+};
+
+// Read every row of a query, a page at a time
+const fetchAllRows = async <T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: Error | null }>
+): Promise<T[]> => {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+};
+
+const inBatches = async <T>(rows: T[], insert: (batch: T[]) => Promise<void>) => {
+  for (let start = 0; start < rows.length; start += INSERT_BATCH_SIZE) {
+    await insert(rows.slice(start, start + INSERT_BATCH_SIZE));
+  }
+};
+
+const blobToBase64 = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve((reader.result as string).split(",", 2)[1] ?? "");
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const base64ToFile = ({ name, content_type, data }: ArchiveFile) => {
+  const bytes = Uint8Array.from(atob(data), (char) => char.charCodeAt(0));
+  return new File([bytes], name, { type: content_type || "" });
+};
+
+// Uploaded objects are stored as "<user id>/<uuid>-<file name>"
+const fileNameFromPath = (path: string) => path.split("/").pop()!.replace(/^[0-9a-f-]{36}-/i, "");
+
+// The signed-in user's profile, for filling in blanks on import
+export const fetchProfile = async () => {
+  const userId = await getUserId();
+  const { data, error } = await supabase
+    .from("profiles")
+    .select("full_name, avatar_url")
+    .eq("id", userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+// Download the whole vault, trash included, as a versioned JSON archive
+export const useExportAccount = () => {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ includeFiles, onProgress }: { includeFiles: boolean; onProgress?: Progress }) => {
+      const userId = await getUserId();
+      const [profile, folders, tags, items, savedSearches] = await Promise.all([
+        fetchProfile(),
+        fetchAllRows((from, to) =>
+          supabase
+            .from("folders")
+            .select("id, name, description, color, icon, parent_id, created_at, deleted_at")
+            .eq("user_id", userId)
+            .order("created_at")
+            .order("id") // Rows created together share created_at; pages need a strict order
+            .range(from, to)
+        ),
+        fetchAllRows((from, to) =>
+          supabase.from("tags").select("id, name, color").eq("user_id", userId).order("name").range(from, to)
+        ),
+        fetchAllRows((from, to) =>
+          supabase
+            .from("items")
+            .select("id, title, description, type, content, thumbnail_url, folder_id, structured, file_path, created_at, deleted_at, item_tags(tag_id)")
+            .eq("user_id", userId)
+            .order("created_at")
+            .order("id")
+            .range(from, to)
+        ),
+        fetchAllRows((from, to) =>
+          supabase
+            .from("saved_searches")
+            .select("id, name, icon, color, query, tag_ids, pinned, created_at")
+            .eq("user_id", userId)
+            .order("created_at")
+            .order("id")
+            .range(from, to)
+        ),
+      ]);
+
+      // Items and subfolders can sit in folders other people shared with us,
+      // which aren't exported; those end up at the top level instead
+      const folderIds = new Set(folders.map((folder) => folder.id));
+      const exportedFolderId = (folderId: string | null) => (folderId && folderIds.has(folderId) ? folderId : null);
+
+      const filePaths = includeFiles ? items.filter((item) => item.file_path).length : 0;
+      let filesDone = 0;
+      let missingFiles = 0;
+      let skippedFiles = 0;
+      let fileBytes = 0;
+      onProgress?.(0, filePaths);
+
+      const archiveItems: AccountArchive["items"] = [];
+      // One file at a time keeps memory use to the archive itself
+      for (const { file_path, item_tags, structured, ...item } of items) {
+        let file: ArchiveFile | null = null;
+        if (includeFiles && file_path) {
+          const { data, error } = await supabase.storage.from(ITEM_FILES_BUCKET).download(file_path);
+          if (error || !data) {
+            console.error("Error exporting file:", error);
+            missingFiles++;
+          } else if (fileBytes + data.size > ARCHIVE_FILES_MAX_BYTES) {
+            skippedFiles++;
+          } else {
+            fileBytes += data.size;
+            file = { name: fileNameFromPath(file_path), content_type: data.type || null, data: await blobToBase64(data) };
+          }
+          onProgress?.(++filesDone, filePaths);
+        }
+        archiveItems.push({
+          ...item,
+          folder_id: exportedFolderId(item.folder_id),
+          structured: structured as Record<string, unknown> | null,
+          tag_ids: item_tags.map((itemTag) => itemTag.tag_id),
+          file,
+        });
+      }
+
+      const archive: AccountArchive = {
+        format: ARCHIVE_FORMAT,
+        version: ARCHIVE_VERSION,
+        exported_at: new Date().toISOString(),
+        profile,
+        folders: folders.map((folder) => ({ ...folder, parent_id: exportedFolderId(folder.parent_id) })),
+        tags,
+        items: archiveItems,
+        saved_searches: savedSearches,
+      };
+      downloadFile(getArchiveFileName(), JSON.stringify(archive), "application/json");
+
+      return { items: archiveItems.length, folders: folders.length, missingFiles, skippedFiles };
+    },
+    onSuccess: ({ items, folders, missingFiles, skippedFiles }) => {
+      const notes = [
+        missingFiles > 0 && `${missingFiles} files couldn't be downloaded.`,
+        skippedFiles > 0 && `${skippedFiles} files were left out to keep the export under ${ARCHIVE_FILES_MAX_BYTES / 1024 / 1024} MB.`,
+      ].filter(Boolean);
+      toast({
+        title: "Export ready",
+        description: [`${items} items and ${folders} folders exported.`, ...notes].join(" "),
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to export your vault.",
+        variant: "destructive",
+      });
+    },
+  });
+};
+
+// Write a planned archive import. Rows go in dependency order: tags and
+// folders first, then items and their tags, then saved searches.
+export const useImportAccount = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ plan, onProgress }: { plan: ArchiveImportPlan; onProgress?: Progress }) => {
+      const userId = await getUserId();
+      const total = plan.tags.length + plan.folders.length + plan.items.length + plan.savedSearches.length;
+      let done = 0;
+      let itemsSaved = 0;
+      let missingFiles = 0;
+      const advance = (count: number) => onProgress?.((done += count), total);
+      onProgress?.(0, total);
+
+      try {
+        if (plan.profile) {
+          const { error } = await supabase.from("profiles").update(plan.profile).eq("id", userId);
+          if (error) throw error;
+        }
+
+        await inBatches(plan.tags, async (batch) => {
+          const { error } = await supabase.from("tags").insert(batch.map((tag) => ({ ...tag, user_id: userId })));
+          if (error) throw error;
+          advance(batch.length);
+        });
+
+        for (const level of groupFoldersByDepth(plan.folders)) {
+          await inBatches(level, async (batch) => {
+            const { error } = await supabase.from("folders").insert(batch.map((folder) => ({ ...folder, user_id: userId })));
+            if (error) throw error;
+            advance(batch.length);
+          });
+        }
+
+        await inBatches(plan.items, async (batch) => {
+          const rows = [];
+          for (const { file, tag_ids, structured, ...item } of batch) {
+            let filePath: string | null = null;
+            if (file) {
+              try {
+                filePath = await uploadItemFile(userId, base64ToFile(file));
+              } catch (error) {
+                // Keep the item; only its attachment is lost
+                console.error("Error uploading imported file:", error);
+                missingFiles++;
+              }
+            }
+            rows.push({ ...item, structured: structured as Json, file_path: filePath, user_id: userId });
+          }
+
+          const { error } = await supabase.from("items").insert(rows);
+          if (error) throw error;
+
+          const itemTags = batch.flatMap((item) =>
+            item.tag_ids.map((tagId) => ({ item_id: item.id, tag_id: tagId, user_id: userId }))
+          );
+          if (itemTags.length > 0) {
+            const { error: tagError } = await supabase.from("item_tags").insert(itemTags);
+            if (tagError) throw tagError;
+          }
+          itemsSaved += batch.length;
+          advance(batch.length);
+        });
+
+        if (plan.savedSearches.length > 0) {
+          const { error } = await supabase
+            .from("saved_searches")
+            .insert(plan.savedSearches.map((search) => ({ ...search, user_id: userId })));
+          if (error) throw error;
+          advance(plan.savedSearches.length);
+        }
+      } catch (error) {
+        // Earlier batches are already saved; say how far the import got
+        const message = error instanceof Error ? error.message : String(error);
+        throw new Error(`Saved ${itemsSaved} of ${plan.items.length} items before failing: ${message}`);
+      }
+
+      return { items: itemsSaved, missingFiles };
+    },
+    onSuccess: ({ items, missingFiles }) => {
+      toast({
+        title: "Import complete",
+        description: missingFiles > 0
+          ? `${items} items added to your vault. ${missingFiles} files couldn't be uploaded.`
+          : `${items} items added to your vault.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to import archive.",
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      // Partial imports still change the vault
+      queryClient.invalidateQueries({ queryKey: queryKeys.items });
+      queryClient.invalidateQueries({ queryKey: queryKeys.foldersWithCounts });
+      queryClient.invalidateQueries({ queryKey: queryKeys.tags });
+      queryClient.invalidateQueries({ queryKey: queryKeys.savedSearches });
+      queryClient.invalidateQueries({ queryKey: queryKeys.trash });
+    },
+  });
+};
@@ -0,0 +1,13 @@
+import { useEffect, useState } from "react";
+
+// Returns the value once it has stopped changing for `delay` ms
+export const useDebounce = <T>(value: T, delay = 300): T => {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timeoutId = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(timeoutId);
+  }, [value, delay]);
+
+  return debounced;
+};
@@ -0,0 +1,285 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Collaborator, Folder, queryKeys } from "@/hooks/use-items";
+
+// A member's access to a folder and everything nested in it
+export type FolderRole = "viewer" | "editor" | "owner";
+
+export const FOLDER_ROLES: { value: FolderRole; label: string; description: string }[] = [
+  { value: "viewer", label: "Viewer", description: "Can view items" },
+  { value: "editor", label: "Editor", description: "Can add, edit and remove items" },
+  { value: "owner", label: "Owner", description: "Can also manage members" },
+];
+
+export interface FolderMember {
+  folder_id: string;
+  user_id: string;
+  role: FolderRole;
+  profile: Collaborator | null;
+}
+
+export interface FolderInvitation {
+  id: string;
+  folder_id: string;
+  email: string;
+  role: FolderRole;
+  created_at: string;
+}
+
+// An invitation to the signed-in user, see pending_folder_invitations()
+export interface PendingInvitation {
+  id: string;
+  folder_id: string;
+  folder_name: string;
+  role: FolderRole;
+  invited_by_name: string | null;
+  created_at: string;
+}
+
+const ROLE_RANK: Record<FolderRole, number> = { viewer: 1, editor: 2, owner: 3 };
+
+// The user's role on a folder, mirroring folder_role() in the database:
+// ownership or membership of the folder or any folder above it
+export const getFolderRole = (
+  folderId: string,
+  folders: Folder[],
+  members: FolderMember[],
+  userId: string
+): FolderRole | null => {
+  const byId = new Map(folders.map((folder) => [folder.id, folder]));
+  let role: FolderRole | null = null;
+  const visited = new Set<string>();
+  let current = byId.get(folderId);
+  while (current && !visited.has(current.id)) {
+    visited.add(current.id);
+    if (current.user_id === userId) return "owner";
+    const membership = members.find((member) => member.folder_id === current.id && member.user_id === userId);
+    if (membership && (!role || ROLE_RANK[membership.role] > ROLE_RANK[role])) role = membership.role;
+    current = current.parent_id ? byId.get(current.parent_id) : undefined;
+  }
+  return role;
+};
+
+export const getCollaboratorName = (collaborator?: Collaborator | null) =>
+  collaborator?.full_name?.trim() || "Unnamed user";
+
+// Every membership the signed-in user can see: their own, and the other
+// members of folders they have access to
+export const useFolderMembers = () => {
+  return useQuery({
+    queryKey: queryKeys.folderMembers,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("folder_members")
+        .select("folder_id, user_id, role, profile:profiles!folder_members_user_id_fkey(id, full_name, avatar_url)")
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as FolderMember[];
+    },
+    staleTime: 1000 * 60 * 5,
+    gcTime: 1000 * 60 * 30,
+    refetchOnWindowFocus: false,
+  });
+};
+
+// Invitations a folder's owners have sent and that haven't been accepted yet
+export const useFolderInvitations = (folderId?: string | null) => {
+  return useQuery({
+    queryKey: queryKeys.folderInvitations(folderId ?? ""),
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("folder_invitations")
+        .select("id, folder_id, email, role, created_at")
+        .eq("folder_id", folderId!)
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as FolderInvitation[];
+    },
+    enabled: !!folderId,
+  });
+};
+
+export const useInviteToFolder = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ folderId, email, role }: { folderId: string; email: string; role: FolderRole }) => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("You must be logged in to invite people.");
+
+      const { error } = await supabase
+        .from("folder_invitations")
+        .upsert(
+          { folder_id: folderId, email: email.trim().toLowerCase(), role, invited_by: user.id },
+          { onConflict: "folder_id,email" }
+        );
+
+      if (error) throw error;
+      return { folderId, email };
+    },
+    onSuccess: ({ folderId, email }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.folderInvitations(folderId) });
+      toast({
+        title: "Invitation sent",
+        description: `${email} will see it the next time they sign in.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to send invitation.",
+        variant: "destructive",
+      });
+    },
+  });
+};
+
+export const useRevokeInvitation = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (invitation: FolderInvitation) => {
+      const { error } = await supabase.from("folder_invitations").delete().eq("id", invitation.id);
+      if (error) throw error;
+      return invitation;
+    },
+    onSuccess: (invitation) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.folderInvitations(invitation.folder_id) });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to revoke invitation.",
+        variant: "destructive",
+      });
+    },
+  });
+};
+
+export const useUpdateMemberRole = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ member, role }: { member: FolderMember; role: FolderRole }) => {
+      const { error } = await supabase
+        .from("folder_members")
+        .update({ role })
+        .eq("folder_id", member.folder_id)
+        .eq("user_id", member.user_id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.folderMembers });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to change role.",
+        variant: "destructive",
+      });
+    },
+  });
+};
+
+// Remove a member, or leave a folder when the member is yourself
+export const useRemoveFolderMember = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (member: FolderMember) => {
+      const { error } = await supabase
+        .from("folder_members")
+        .delete()
+        .eq("folder_id", member.folder_id)
+        .eq("user_id", member.user_id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      // Leaving takes the folder and its items with it
+      queryClient.invalidateQueries({ queryKey: queryKeys.folderMembers });
+      queryClient.invalidateQueries({ queryKey: queryKeys.items });
+      queryClient.invalidateQueries({ queryKey: queryKeys.foldersWithCounts });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to remove member.",
+        variant: "destructive",
+      });
+    },
+  });
+};
+
+export const usePendingInvitations = () => {
+  return useQuery({
+    queryKey: queryKeys.pendingInvitations,
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("pending_folder_invitations");
+      if (error) throw error;
+      return (data || []) as PendingInvitation[];
+    },
+    staleTime: 1000 * 60 * 5,
+    refetchOnWindowFocus: false,
+  });
+};
+
+export const useAcceptInvitation = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (invitation: PendingInvitation) => {
+      const { error } = await supabase.rpc("accept_folder_invitation", { invitation_id: invitation.id });
+      if (error) throw error;
+      return invitation;
+    },
+    onSuccess: (invitation) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.pendingInvitations });
+      queryClient.invalidateQueries({ queryKey: queryKeys.folderMembers });
+      queryClient.invalidateQueries({ queryKey: queryKeys.items });
+      queryClient.invalidateQueries({ queryKey: queryKeys.foldersWithCounts });
+      toast({
+        title: "Folder added",
+        description: `"${invitation.folder_name}" is now in your vault.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to accept invitation.",
+        variant: "destructive",
+      });
+    },
+  });
+};
+
+export const useDeclineInvitation = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (invitation: PendingInvitation) => {
+      const { error } = await supabase.from("folder_invitations").delete().eq("id", invitation.id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.pendingInvitations });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to decline invitation.",
+        variant: "destructive",
+      });
+    },
+  });
+};
@@ -0,0 +1,157 @@
+import { useQuery, useMutation, useQueryClient, keepPreviousData, QueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Item, queryKeys } from "@/hooks/use-items";
+import { LinkPreview, formatLinkUrl, getLinkDomain, normalizePreviewUrl } from "@/lib/link-preview";
+
+// A public, read-only link to one folder
+export interface FolderShare {
+  id: string;
+  folder_id: string;
+  slug: string;
+  expires_at: string | null;
+  has_password: boolean;
+  created_at: string;
+}
+
+// What a share slug resolves to, see get_shared_folder(). Only "ok" carries
+// the folder and its items; "rate_limited" says when passwords may be tried again.
+export interface SharedFolder {
+  status: "ok" | "not_found" | "expired" | "password_required" | "rate_limited";
+  folder?: { name: string; description: string | null; color: string };
+  items?: Item[];
+  retry_after?: number; // Seconds
+}
+
+const SHARE_COLUMNS = "id, folder_id, slug, expires_at, has_password, created_at";
+
+export const getShareUrl = (slug: string) => `${window.location.origin}/s/${slug}`;
+
+export const isShareExpired = (share: FolderShare) =>
+  !!share.expires_at && new Date(share.expires_at).getTime() <= Date.now();
+
+// The signed-in user's shares of a folder, newest first
+export const useFolderShares = (folderId?: string | null) => {
+  return useQuery({
+    queryKey: queryKeys.folderShares(folderId ?? ""),
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("folder_shares")
+        .select(SHARE_COLUMNS)
+        .eq("folder_id", folderId!)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      return (data || []) as FolderShare[];
+    },
+    enabled: !!folderId,
+  });
+};
+
+export const useCreateFolderShare = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ folderId, expiresAt, password }: { folderId: string; expiresAt: string | null; password: string }) => {
+      const { data: id, error } = await supabase.rpc("create_folder_share", {
+        target_folder_id: folderId,
+        share_expires_at: expiresAt ?? undefined,
+        share_password: password || undefined,
+      });
+      if (error) throw error;
+
+      const { data, error: fetchError } = await supabase
+        .from("folder_shares")
+        .select(SHARE_COLUMNS)
+        .eq("id", id)
+        .single();
+
+      if (fetchError) throw fetchError;
+      return data as FolderShare;
+    },
+    onSuccess: (share) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.folderShares(share.folder_id) });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create share link.",
+        variant: "destructive",
+      });
+    },
+  });
+};
+
+// Revoke a share; its link stops working immediately
+export const useDeleteFolderShare = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (share: FolderShare) => {
+      const { error } = await supabase.from("folder_shares").delete().eq("id", share.id);
+      if (error) throw error;
+      return share;
+    },
+    onSuccess: (share) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.folderShares(share.folder_id) });
+      toast({
+        title: "Link revoked",
+        description: "The share link no longer works.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to revoke share link.",
+        variant: "destructive",
+      });
+    },
+  });
+};
+
+// Viewers can't read the preview cache or call the preview function, so link
+// cards are built from what the item itself stores
+const seedLinkPreviews = (queryClient: QueryClient, items: Item[]) => {
+  items
+    .filter((item) => item.type === "link" || item.type === "video")
+    .forEach((item) => {
+      const key = queryKeys.linkPreview(normalizePreviewUrl(item.content));
+      if (queryClient.getQueryData(key)) return;
+      const preview: LinkPreview = {
+        title: item.title,
+        description: item.description ?? null,
+        image: item.thumbnail_url ?? null,
+        domain: getLinkDomain(item.content),
+        url: formatLinkUrl(item.content),
+        structured: item.structured ?? null,
+      };
+      queryClient.setQueryData(key, preview);
+    });
+};
+
+// A shared folder as seen by anyone with the link, signed in or not. Goes
+// through the shared-folder edge function, which rate limits password guesses.
+export const useSharedFolder = (slug?: string, password?: string) => {
+  const queryClient = useQueryClient();
+
+  return useQuery({
+    queryKey: queryKeys.sharedFolder(slug ?? "", password ?? ""),
+    queryFn: async () => {
+      const { data, error } = await supabase.functions.invoke("shared-folder", {
+        body: { slug, password: password || undefined },
+      });
+
+      if (error) throw error;
+      if (!data?.success || !data?.data) throw new Error("Failed to open shared folder");
+      const shared = data.data as SharedFolder;
+      if (shared.status === "ok") seedLinkPreviews(queryClient, shared.items);
+      return shared;
+    },
+    enabled: !!slug,
+    // Keep showing the password form while a password is checked
+    placeholderData: keepPreviousData,
+    refetchOnWindowFocus: false,
+  });
+};
@@ -0,0 +1,1797 @@
+import { useQuery, useMutation, useQueryClient, keepPreviousData, QueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { ToastAction } from "@/components/ui/toast";
+import { SearchNode, toFullTextQuery } from "@/lib/search-query";
+import { StructuredData } from "@/lib/link-preview";
+import { LinkCheck } from "@/lib/link-health";
+import { saveItemArticle, storeItemStructuredData } from "@/hooks/use-link-preview";
+import { SyncConflictError } from "@/hooks/use-sync-conflicts";
+
+export interface Item {
+  id: string;
+  user_id?: string;
+  title: string;
+  description?: string;
+  type: "link" | "image" | "video" | "note";
+  content: string;
+  thumbnail_url?: string;
+  file_path?: string;
+  folder_id?: string;
+  structured?: StructuredData | null; // schema.org summary for links
+  link_check?: LinkCheck | null; // Latest dead-link check, for links
+  tags?: Tag[];
+  creator?: Collaborator | null; // Who added it; differs from you in shared folders
+  created_at?: string;
+  updated_at?: string;
+  deleted_at?: string | null;
+}
+
+export interface Folder {
+  id: string;
+  user_id?: string;
+  owner?: Collaborator | null;
+  name: string;
+  description?: string;
+  color: string;
+  icon?: string;
+  parent_id?: string | null;
+  itemCount?: number; // Items in this folder and all of its subfolders
+  depth?: number;
+  children?: Folder[];
+  deleted_at?: string | null;
+}
+
+// Someone you share folders with, as shown next to folders and items
+export interface Collaborator {
+  id: string;
+  full_name: string | null;
+  avatar_url: string | null;
+}
+
+export interface SearchMatch {
+  id: string;
+  rank: number;
+  titleHighlight: string;
+  snippet: string;
+}
+
+export interface Tag {
+  id: string;
+  name: string;
+  color: string;
+}
+
+// A saved search, shown as a smart folder
+export interface SavedSearch {
+  id: string;
+  name: string;
+  icon: string;
+  color: string;
+  query: string; // Search box syntax, see lib/search-query
+  tag_ids: string[];
+  pinned: boolean;
+  created_at?: string;
+}
+
+// A PostgREST filter applied with `.filter()`, or a raw `.or()` expression
+type SearchFilter = { column: string; operator: string; value: string } | { or: string };
+
+// A parsed search query resolved against the user's folders and tags
+export interface SearchPlan {
+  text: string; // Free text for full-text search, in web search syntax
+  filters: SearchFilter[];
+  tagIds: string[]; // Items must carry every one of these tags
+  excludedTagIds: string[];
+  matchesNothing: boolean; // An operator named a tag or folder that doesn't exist
+}
+
+// The fields someone edits on an item, as they were when editing started.
+// Edits carry it so that saving, possibly much later after being queued
+// offline, can tell whether the item also changed elsewhere.
+export type ItemVersion = Pick<Item, "title" | "description" | "type" | "content" | "thumbnail_url" | "folder_id" | "updated_at">;
+
+const ITEM_VERSION_FIELDS = ["title", "description", "type", "content", "thumbnail_url", "folder_id"] as const;
+
+export type ItemVersionField = (typeof ITEM_VERSION_FIELDS)[number];
+
+export const getItemVersion = (item: Item): ItemVersion => ({
+  title: item.title,
+  description: item.description,
+  type: item.type,
+  content: item.content,
+  thumbnail_url: item.thumbnail_url,
+  folder_id: item.folder_id,
+  updated_at: item.updated_at,
+});
+
+export interface ItemUpdate extends Partial<Item> {
+  id: string;
+  tag_names?: string[];
+  base?: ItemVersion;
+}
+
+// Query keys for cache management
+export const queryKeys = {
+  items: ["items"] as const,
+  folders: ["folders"] as const,
+  foldersWithCounts: ["folders", "withCounts"] as const,
+  search: (plan: SearchPlan) => ["items", "search", plan] as const,
+  searchCount: (plan: SearchPlan) => ["items", "search", plan, "count"] as const,
+  tags: ["tags"] as const,
+  savedSearches: ["savedSearches"] as const,
+  trash: ["trash"] as const,
+  fileUrl: (path: string) => ["fileUrl", path] as const,
+  linkPreview: (url: string) => ["linkPreview", url] as const,
+  itemArticle: (itemId: string) => ["itemArticle", itemId] as const,
+  folderShares: (folderId: string) => ["folderShares", folderId] as const,
+  folderMembers: ["folderMembers"] as const,
+  folderInvitations: (folderId: string) => ["folderInvitations", folderId] as const,
+  pendingInvitations: ["pendingInvitations"] as const,
+  sharedFolder: (slug: string, password: string) => ["sharedFolder", slug, password] as const,
+};
+
+// Keys of the mutations that can wait for a connection. Their functions are
+// registered as defaults (see registerVaultMutations) so changes queued while
+// offline still run after a reload.
+export const mutationKeys = {
+  createItem: ["createItem"] as const,
+  updateItem: ["updateItem"] as const,
+  deleteItem: ["deleteItem"] as const,
+  moveItem: ["moveItem"] as const,
+  createFolder: ["createFolder"] as const,
+  updateFolder: ["updateFolder"] as const,
+  moveFolder: ["moveFolder"] as const,
+  deleteFolder: ["deleteFolder"] as const,
+};
+
+// Queued changes share a scope so they're replayed one at a time, in order
+const VAULT_MUTATION_SCOPE = { id: "vault" };
+
+// Storage bucket for uploaded item files
+export const ITEM_FILES_BUCKET = "item-files";
+const SIGNED_URL_TTL = 60 * 60; // 1 hour, in seconds
+
+// Days an entry stays in the trash before the nightly purge removes it
+export const TRASH_RETENTION_DAYS = 30;
+
+// Upload a file under the user's folder and return its object path
+export const uploadItemFile = async (userId: string, file: File) => {
+  const safeName = file.name.replace(/[^a-zA-Z0-9._-]/g, "_");
+  const path = `${userId}/${crypto.randomUUID()}-${safeName}`;
+
+  const { error } = await supabase.storage
+    .from(ITEM_FILES_BUCKET)
+    .upload(path, file, { contentType: file.type || undefined });
+
+  if (error) throw error;
+  return path;
+};
+
+// Remove uploaded files whose rows have been permanently deleted
+const removeItemFiles = async (filePaths: (string | null)[]) => {
+  const paths = filePaths.filter(Boolean) as string[];
+  if (paths.length === 0) return;
+
+  const { error } = await supabase.storage.from(ITEM_FILES_BUCKET).remove(paths);
+  if (error) console.error("Failed to remove item files:", error);
+};
+
+// Resolve a short-lived signed URL for an uploaded item file
+export const useItemFileUrl = (path?: string | null) => {
+  return useQuery({
+    queryKey: queryKeys.fileUrl(path ?? ""),
+    queryFn: async () => {
+      const { data, error } = await supabase.storage
+        .from(ITEM_FILES_BUCKET)
+        .createSignedUrl(path!, SIGNED_URL_TTL);
+
+      if (error) throw error;
+      return data.signedUrl;
+    },
+    enabled: !!path,
+    staleTime: 1000 * (SIGNED_URL_TTL - 5 * 60), // refresh before the URL expires
+    gcTime: 1000 * SIGNED_URL_TTL,
+    refetchOnWindowFocus: false,
+  });
+};
+
+// Replace an item's tags with the given tag names, creating missing tags
+const syncItemTags = async (itemId: string, userId: string, tagNames: string[]) => {
+  const names = [...new Set(tagNames.map((name) => name.trim()).filter(Boolean))];
+  let tagIds: string[] = [];
+
+  if (names.length > 0) {
+    const { data, error } = await supabase
+      .from("tags")
+      .upsert(names.map((name) => ({ user_id: userId, name })), { onConflict: "user_id,name" })
+      .select("id");
+
+    if (error) throw error;
+    tagIds = (data || []).map((tag) => tag.id);
+  }
+
+  let removeQuery = supabase.from("item_tags").delete().eq("item_id", itemId);
+  if (tagIds.length > 0) {
+    removeQuery = removeQuery.not("tag_id", "in", `(${tagIds.join(",")})`);
+  }
+  const { error: removeError } = await removeQuery;
+  if (removeError) throw removeError;
+
+  if (tagIds.length > 0) {
+    const { error: insertError } = await supabase
+      .from("item_tags")
+      .upsert(
+        tagIds.map((tagId) => ({ item_id: itemId, tag_id: tagId, user_id: userId })),
+        { onConflict: "item_id,tag_id", ignoreDuplicates: true }
+      );
+
+    if (insertError) throw insertError;
+  }
+};
+
+// Columns and joins cached for each item and folder
+export const ITEM_COLUMNS =
+  "*, tags(id, name, color), link_check:item_link_checks(status, http_status, final_url, checked_at), creator:profiles(id, full_name, avatar_url)";
+export const FOLDER_COLUMNS = "*, owner:profiles(id, full_name, avatar_url)";
+
+// Fetch all items with caching
+export const useItems = () => {
+  return useQuery({
+    queryKey: queryKeys.items,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("items")
+        .select(ITEM_COLUMNS)
+        .is("deleted_at", null)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      // structured is untyped JSON in the generated types
+      return (data || []) as unknown as Item[];
+    },
+    staleTime: 1000 * 60 * 5, // 5 minutes - data considered fresh
+    gcTime: 1000 * 60 * 30, // 30 minutes - keep in cache
+    refetchOnWindowFocus: false, // Don't refetch on tab focus
+  });
+};
+
+// Ranked server-side full-text search. Matches carry highlighted title and
+// snippet text with <mark> delimiters around matched terms.
+// Upper bound on rows returned for a single search
+const SEARCH_RESULT_LIMIT = 200;
+
+const nextDay = (date: string) => {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next.toISOString().slice(0, 10);
+};
+
+// Translate parsed search operators into filters on the items table.
+// Tag and folder names are matched case-insensitively; a folder includes its subfolders.
+// `tagIds` adds required tags by id, as stored on saved searches.
+export const buildSearchPlan = (
+  nodes: SearchNode[],
+  folders: Folder[],
+  tags: Tag[],
+  tagIds: string[] = []
+): SearchPlan => {
+  const plan: SearchPlan = {
+    text: toFullTextQuery(nodes),
+    filters: [],
+    tagIds: tagIds.filter((id) => tags.some((tag) => tag.id === id)),
+    excludedTagIds: [],
+    matchesNothing: false,
+  };
+  // A deleted tag can't match anything
+  if (plan.tagIds.length < tagIds.length) plan.matchesNothing = true;
+
+  nodes.forEach((node) => {
+    if (node.kind !== "field") return;
+    const { value, negated } = node;
+
+    switch (node.field) {
+      case "type":
+        plan.filters.push({ column: "type", operator: negated ? "neq" : "eq", value });
+        break;
+
+      case "tag": {
+        const tag = tags.find((t) => t.name.toLowerCase() === value.toLowerCase());
+        if (!tag) {
+          if (!negated) plan.matchesNothing = true;
+        } else if (negated) {
+          plan.excludedTagIds.push(tag.id);
+        } else {
+          plan.tagIds.push(tag.id);
+        }
+        break;
+      }
+
+      case "folder": {
+        const matching = folders.filter((f) => f.name.toLowerCase() === value.toLowerCase());
+        if (matching.length === 0) {
+          if (!negated) plan.matchesNothing = true;
+          break;
+        }
+        const ids = new Set<string>();
+        matching.forEach((folder) => {
+          ids.add(folder.id);
+          getDescendantIds(folder).forEach((id) => ids.add(id));
+        });
+        const list = `(${[...ids].join(",")})`;
+        // NOT IN never matches NULL, so keep unfiled items when excluding a folder
+        plan.filters.push(
+          negated
+            ? { or: `folder_id.is.null,folder_id.not.in.${list}` }
+            : { column: "folder_id", operator: "in", value: list }
+        );
+        break;
+      }
+
+      case "before":
+        plan.filters.push({ column: "created_at", operator: negated ? "gte" : "lt", value });
+        break;
+
+      case "after":
+        plan.filters.push({ column: "created_at", operator: negated ? "lt" : "gte", value: nextDay(value) });
+        break;
+
+      case "domain":
+        if (negated) {
+          plan.filters.push(
+            { column: "content", operator: "not.ilike", value: `%://${value}%` },
+            { column: "content", operator: "not.ilike", value: `%.${value}%` }
+          );
+        } else {
+          plan.filters.push(
+            { column: "type", operator: "eq", value: "link" },
+            { or: `content.ilike."*://${value}*",content.ilike."*.${value}*"` }
+          );
+        }
+        break;
+    }
+  });
+
+  return plan;
+};
+
+const isEmptySearchPlan = (plan: SearchPlan) =>
+  !plan.text &&
+  plan.filters.length === 0 &&
+  plan.tagIds.length === 0 &&
+  plan.excludedTagIds.length === 0 &&
+  !plan.matchesNothing;
+
+const applySearchFilters = <T extends {
+  filter: (column: string, operator: string, value: unknown) => T;
+  or: (filters: string) => T;
+}>(query: T, filters: SearchFilter[]) =>
+  filters.reduce((q, f) => ("or" in f ? q.or(f.or) : q.filter(f.column, f.operator, f.value)), query);
+
+// Arguments of search_items for a plan; tags are matched in the database
+const searchItemsArgs = (plan: SearchPlan) => ({
+  search_query: plan.text,
+  tag_ids: plan.tagIds,
+  excluded_tag_ids: plan.excludedTagIds,
+});
+
+// Search items with a resolved search plan through the ranked search_items
+// RPC; operators become filters on its result. Without free text every item
+// ranks the same, so the newest come first.
+export const useSearchItems = (plan: SearchPlan) => {
+  return useQuery({
+    queryKey: queryKeys.search(plan),
+    queryFn: async (): Promise<SearchMatch[]> => {
+      if (plan.matchesNothing) return [];
+
+      const { data, error } = await applySearchFilters(supabase.rpc("search_items", searchItemsArgs(plan)), plan.filters)
+        .order("rank", { ascending: false })
+        .order("created_at", { ascending: false })
+        .limit(SEARCH_RESULT_LIMIT);
+
+      if (error) throw error;
+      if (!data || data.length === 0) return [];
+      if (!plan.text) {
+        return data.map((row) => ({ id: row.id, rank: 0, titleHighlight: row.title, snippet: "" }));
+      }
+
+      // Highlighting is costly, so it's only done for the page being shown
+      const { data: highlights, error: highlightError } = await supabase.rpc("search_highlights", {
+        search_query: plan.text,
+        item_ids: data.map((row) => row.id),
+      });
+
+      if (highlightError) throw highlightError;
+      const highlightById = new Map((highlights || []).map((row) => [row.id, row]));
+      return data.map((row) => ({
+        id: row.id,
+        rank: row.rank,
+        titleHighlight: highlightById.get(row.id)?.title_highlight ?? row.title,
+        snippet: highlightById.get(row.id)?.snippet ?? "",
+      }));
+    },
+    enabled: !isEmptySearchPlan(plan),
+    placeholderData: keepPreviousData, // keep showing results while the next query loads
+    staleTime: 1000 * 60,
+    gcTime: 1000 * 60 * 5,
+    refetchOnWindowFocus: false,
+  });
+};
+
+// How many items a search plan matches, without the result limit of useSearchItems
+export const useSearchCount = (plan: SearchPlan) => {
+  return useQuery({
+    queryKey: queryKeys.searchCount(plan),
+    queryFn: async (): Promise<number> => {
+      if (plan.matchesNothing) return 0;
+
+      const { count, error } = await applySearchFilters(
+        supabase.rpc("search_items", searchItemsArgs(plan), { count: "exact", head: true }),
+        plan.filters
+      );
+
+      if (error) throw error;
+      return count ?? 0;
+    },
+    enabled: !isEmptySearchPlan(plan),
+    staleTime: 1000 * 60,
+    gcTime: 1000 * 60 * 5,
+    refetchOnWindowFocus: false,
+  });
+};
+
+// Nest folders under their parents and roll item counts up from descendants.
+// Returns every folder (not just roots) in depth-first order.
+export const buildFolderTree = (folders: Folder[], items: Item[]): Folder[] => {
+  const nodes = new Map<string, Folder>(
+    folders.map(folder => [folder.id, { ...folder, children: [], itemCount: 0, depth: 0 }])
+  );
+  const directCounts = new Map<string, number>();
+  items.forEach(item => {
+    if (item.folder_id) {
+      directCounts.set(item.folder_id, (directCounts.get(item.folder_id) || 0) + 1);
+    }
+  });
+
+  const roots: Folder[] = [];
+  nodes.forEach(node => {
+    const parent = node.parent_id ? nodes.get(node.parent_id) : undefined;
+    if (parent) {
+      parent.children!.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+
+  const ordered: Folder[] = [];
+  const visit = (node: Folder, depth: number): number => {
+    node.depth = depth;
+    ordered.push(node);
+    node.itemCount = node.children!.reduce(
+      (sum, child) => sum + visit(child, depth + 1),
+      directCounts.get(node.id) || 0
+    );
+    return node.itemCount;
+  };
+  roots.forEach(root => visit(root, 0));
+
+  return ordered;
+};
+
+// Ancestors of a folder from the root down, including the folder itself
+export const getFolderPath = (folderId: string, folders: Folder[]): Folder[] => {
+  const byId = new Map(folders.map(folder => [folder.id, folder]));
+  const path: Folder[] = [];
+  let current = byId.get(folderId);
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    current = current.parent_id ? byId.get(current.parent_id) : undefined;
+  }
+  return path;
+};
+
+// Ids of every folder nested (at any depth) below the given folder
+export const getDescendantIds = (folder: Folder): Set<string> => {
+  const ids = new Set<string>();
+  const collect = (node: Folder) => {
+    node.children?.forEach(child => {
+      ids.add(child.id);
+      collect(child);
+    });
+  };
+  collect(folder);
+  return ids;
+};
+
+// Fetch all folders with item counts
+export const useFolders = () => {
+  const { data: items = [] } = useItems();
+
+  return useQuery({
+    queryKey: queryKeys.foldersWithCounts,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("folders")
+        .select(FOLDER_COLUMNS)
+        .is("deleted_at", null)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      return (data || []) as Folder[];
+    },
+    staleTime: 1000 * 60 * 5,
+    gcTime: 1000 * 60 * 30,
+    refetchOnWindowFocus: false,
+    select: (folders) => {
+      // Nest folders and add rolled-up item counts
+      return buildFolderTree(folders, items);
+    },
+  });
+};
+
+// Create item mutation
+// Links get their structured data and a reader-mode copy of the article after
+// saving, so the dialog doesn't wait on page fetches
+const enrichLinkItem = (queryClient: QueryClient, item: Pick<Item, "id" | "type" | "content">) => {
+  if (item.type !== "link") return;
+
+  storeItemStructuredData(item.id, item.content)
+    .then(() => queryClient.invalidateQueries({ queryKey: queryKeys.items }))
+    .catch((error) => console.error("Error storing structured data:", error));
+
+  saveItemArticle(item.id)
+    .then((article) => queryClient.setQueryData(queryKeys.itemArticle(item.id), article))
+    // Many links (videos, apps) have no article; the reader tab offers a retry
+    .catch((error) => console.error("Error saving article:", error));
+};
+
+// Drop a link's check result once its URL changes; the next checker run picks it up again
+const clearLinkCheck = async (itemId: string) => {
+  const { error } = await supabase.from("item_link_checks").delete().eq("item_id", itemId);
+  if (error) console.error("Error clearing link check:", error);
+};
+
+// Trashed entries, as returned by useTrash
+interface TrashContents {
+  items: Item[];
+  folders: Folder[];
+}
+
+// A row an optimistic patch changed, as it was before (no row when the patch
+// added it) and where it sat in its list
+interface RowChange<T> {
+  id: string;
+  row?: T;
+  index: number;
+}
+
+// The rows an optimistic patch changed, so an error undoes just those and
+// keeps other mutations' patches and realtime updates made since
+interface CacheChanges {
+  items?: RowChange<Item>[];
+  folders?: RowChange<Folder>[];
+  trashItems?: RowChange<Item>[];
+  trashFolders?: RowChange<Folder>[];
+}
+
+// Patches return unchanged rows as they were, so a new object means a change
+const diffRows = <T extends { id: string }>(before: T[], after: T[]): RowChange<T>[] => {
+  const afterById = new Map(after.map((row) => [row.id, row]));
+  const beforeIds = new Set(before.map((row) => row.id));
+  return [
+    ...before.flatMap((row, index) => (afterById.get(row.id) === row ? [] : [{ id: row.id, row, index }])),
+    ...after.filter((row) => !beforeIds.has(row.id)).map((row) => ({ id: row.id, index: -1 })),
+  ];
+};
+
+const revertRows = <T extends { id: string }>(rows: T[], changes: RowChange<T>[]): T[] => {
+  const changed = new Map(changes.map((change) => [change.id, change]));
+  const reverted = rows.flatMap((row) => {
+    const change = changed.get(row.id);
+    if (!change) return [row];
+    return change.row ? [change.row] : [];
+  });
+  // Put back rows the patch removed, where they were
+  changes
+    .filter((change) => change.row && !rows.some((row) => row.id === change.id))
+    .sort((a, b) => a.index - b.index)
+    .forEach((change) => reverted.splice(Math.min(change.index, reverted.length), 0, change.row!));
+  return reverted;
+};
+
+// Patch the cached lists a mutation will change, so the UI updates before
+// the server answers. Folder item counts are derived from the items list, so
+// they follow item patches. Returns the changed rows to roll back on error.
+const patchCaches = async (
+  queryClient: QueryClient,
+  patch: {
+    items?: (items: Item[]) => Item[];
+    folders?: (folders: Folder[]) => Folder[];
+    trash?: (trash: TrashContents) => TrashContents;
+  }
+): Promise<CacheChanges> => {
+  // A refetch already in flight would overwrite the patch with older data
+  await Promise.all([
+    queryClient.cancelQueries({ queryKey: queryKeys.items, exact: true }),
+    queryClient.cancelQueries({ queryKey: queryKeys.foldersWithCounts, exact: true }),
+    queryClient.cancelQueries({ queryKey: queryKeys.trash, exact: true }),
+  ]);
+
+  const items = queryClient.getQueryData<Item[]>(queryKeys.items);
+  const folders = queryClient.getQueryData<Folder[]>(queryKeys.foldersWithCounts);
+  const trash = queryClient.getQueryData<TrashContents>(queryKeys.trash);
+  const changes: CacheChanges = {};
+
+  if (patch.items && items) {
+    const patched = patch.items(items);
+    changes.items = diffRows(items, patched);
+    queryClient.setQueryData(queryKeys.items, patched);
+  }
+  if (patch.folders && folders) {
+    const patched = patch.folders(folders);
+    changes.folders = diffRows(folders, patched);
+    queryClient.setQueryData(queryKeys.foldersWithCounts, patched);
+  }
+  if (patch.trash && trash) {
+    const patched = patch.trash(trash);
+    changes.trashItems = diffRows(trash.items, patched.items);
+    changes.trashFolders = diffRows(trash.folders, patched.folders);
+    queryClient.setQueryData(queryKeys.trash, patched);
+  }
+  return changes;
+};
+
+const rollbackCaches = (queryClient: QueryClient, changes?: CacheChanges) => {
+  if (!changes) return;
+  if (changes.items) {
+    queryClient.setQueryData<Item[]>(queryKeys.items, (items) => items && revertRows(items, changes.items!));
+  }
+  if (changes.folders) {
+    queryClient.setQueryData<Folder[]>(queryKeys.foldersWithCounts, (folders) => folders && revertRows(folders, changes.folders!));
+  }
+  if (changes.trashItems || changes.trashFolders) {
+    queryClient.setQueryData<TrashContents>(queryKeys.trash, (trash) => trash && {
+      items: revertRows(trash.items, changes.trashItems ?? []),
+      folders: revertRows(trash.folders, changes.trashFolders ?? []),
+    });
+  }
+};
+
+// Merge a saved row into its optimistic copy until the refetch lands
+const mergeSavedRow = <T extends { id: string }>(rows: T[] | undefined, saved: T) =>
+  rows?.map((row) => (row.id === saved.id ? { ...row, ...saved } : row));
+
+// Tags for an optimistic item, reusing cached tags so colors don't flicker
+const pendingTags = (queryClient: QueryClient, tagNames: string[]): Tag[] => {
+  const cached = queryClient.getQueryData<Tag[]>(queryKeys.tags) ?? [];
+  const names = [...new Set(tagNames.map((name) => name.trim()).filter(Boolean))];
+  return names.map(
+    (name) => cached.find((tag) => tag.name === name) ?? { id: `pending-${name}`, name, color: "#6366f1" }
+  );
+};
+
+// A folder and every folder nested in it, from the flat cached list
+const collectFolderIds = (folderId: string, folders: Folder[]) => {
+  const ids = new Set([folderId]);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    folders.forEach((folder) => {
+      if (folder.parent_id && ids.has(folder.parent_id) && !ids.has(folder.id)) {
+        ids.add(folder.id);
+        grew = true;
+      }
+    });
+  }
+  return ids;
+};
+
+// New items come with a client-generated id, so changes queued after them
+// while offline can refer to them
+const createItem = async ({ file, tag_names, tags, ...item }: Omit<Item, "created_at" | "updated_at"> & { user_id: string; file?: File; tag_names?: string[] }) => {
+  const filePath = file ? await uploadItemFile(item.user_id, file) : item.file_path;
+
+  const { data, error } = await supabase
+    .from("items")
+    .insert({ ...item, file_path: filePath })
+    .select()
+    .single();
+
+  if (error) {
+    // Don't leave an orphaned object behind if the row couldn't be created
+    if (file && filePath) {
+      await supabase.storage.from(ITEM_FILES_BUCKET).remove([filePath]);
+    }
+    throw error;
+  }
+
+  if (tag_names && tag_names.length > 0) {
+    await syncItemTags(data.id, item.user_id, tag_names);
+  }
+  return data;
+};
+
+export const useCreateItem = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationKey: mutationKeys.createItem,
+    mutationFn: createItem,
+    scope: VAULT_MUTATION_SCOPE,
+    onMutate: async ({ file, tag_names, tags, ...item }) => {
+      const placeholder: Item = {
+        ...item,
+        tags: pendingTags(queryClient, tag_names ?? []),
+        created_at: new Date().toISOString(),
+        deleted_at: null,
+      };
+      const changes = await patchCaches(queryClient, {
+        items: (items) => [placeholder, ...items.filter((existing) => existing.id !== placeholder.id)],
+      });
+      return { changes };
+    },
+    onSuccess: (item) => {
+      queryClient.setQueryData<Item[]>(queryKeys.items, (items) => mergeSavedRow(items, item as unknown as Item));
+      enrichLinkItem(queryClient, item);
+      toast({
+        title: "Success!",
+        description: "Item added to your vault.",
+      });
+    },
+    onError: (error: Error, _, context) => {
+      rollbackCaches(queryClient, context?.changes);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to add item.",
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.items });
+      queryClient.invalidateQueries({ queryKey: queryKeys.tags });
+      queryClient.invalidateQueries({ queryKey: queryKeys.foldersWithCounts });
+    },
+  });
+};
+
+// Rows per insert request when creating many items at once
+const BULK_INSERT_BATCH_SIZE = 200;
+
+export interface BulkCreateInput {
+  user_id: string;
+  // Client-generated ids so items can reference folders created in the same run
+  folders?: { id: string; name: string; parent_id: string | null; color: string; icon: string; created_at?: string }[];
+  items: (Pick<Item, "title" | "type" | "content"> &
+    Pick<Item, "description" | "thumbnail_url" | "folder_id" | "created_at"> & { tag_names?: string[] })[];
+  onProgress?: (done: number, total: number) => void;
+}
+
+// Order new folders so every parent is inserted before its children; the
+// parent check trigger can't see rows from the same insert statement
+export const groupFoldersByDepth = <T extends { id: string; parent_id: string | null }>(folders: T[]): T[][] => {
+  const byId = new Map(folders.map(folder => [folder.id, folder]));
+  // A parent cycle stops where it comes back round, rather than recursing forever
+  const depthOf = (id: string, seen = new Set<string>()): number => {
+    seen.add(id);
+    const parentId = byId.get(id)?.parent_id;
+    return parentId && byId.has(parentId) && !seen.has(parentId) ? depthOf(parentId, seen) + 1 : 0;
+  };
+
+  const levels: T[][] = [];
+  folders.forEach(folder => {
+    const depth = depthOf(folder.id);
+    if (!levels[depth]) levels[depth] = [];
+    levels[depth].push(folder);
+  });
+  return levels.filter(Boolean);
+};
+
+// Create many items (and the folders they go in) in batches, e.g. for imports.
+// Links aren't enriched up front: thousands of page fetches would run into the
+// preview rate limit, and cards load their previews when shown.
+export const useBulkCreateItems = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ user_id, folders = [], items, onProgress }: BulkCreateInput) => {
+      const total = folders.length + items.length;
+      let done = 0;
+      onProgress?.(done, total);
+
+      try {
+        // Create every tag up front, then link each batch of items to them
+        const tagNames = [...new Set(items.flatMap(item => item.tag_names ?? []))];
+        const tagIds = new Map<string, string>();
+        for (let start = 0; start < tagNames.length; start += BULK_INSERT_BATCH_SIZE) {
+          const { data, error } = await supabase
+            .from("tags")
+            .upsert(
+              tagNames.slice(start, start + BULK_INSERT_BATCH_SIZE).map(name => ({ user_id, name })),
+              { onConflict: "user_id,name" }
+            )
+            .select("id, name");
+          if (error) throw error;
+          data.forEach(tag => tagIds.set(tag.name, tag.id));
+        }
+
+        for (const level of groupFoldersByDepth(folders)) {
+          for (let start = 0; start < level.length; start += BULK_INSERT_BATCH_SIZE) {
+            const batch = level.slice(start, start + BULK_INSERT_BATCH_SIZE);
+            const { error } = await supabase.from("folders").insert(batch.map(folder => ({ ...folder, user_id })));
+            if (error) throw error;
+            done += batch.length;
+            onProgress?.(done, total);
+          }
+        }
+
+        for (let start = 0; start < items.length; start += BULK_INSERT_BATCH_SIZE) {
+          const batch = items
+            .slice(start, start + BULK_INSERT_BATCH_SIZE)
+            .map(({ tag_names, ...item }) => ({ item: { ...item, id: crypto.randomUUID(), user_id }, tag_names }));
+          const { error } = await supabase.from("items").insert(batch.map(({ item }) => item));
+          if (error) throw error;
+
+          const itemTags = batch.flatMap(({ item, tag_names = [] }) =>
+            tag_names.map(name => ({ item_id: item.id, tag_id: tagIds.get(name)!, user_id }))
+          );
+          if (itemTags.length > 0) {
+            const { error: tagError } = await supabase.from("item_tags").insert(itemTags);
+            if (tagError) throw tagError;
+          }
+          done += batch.length;
+          onProgress?.(done, total);
+        }
+      } catch (error) {
+        // Earlier batches are already saved; say how far the import got
+        const itemsSaved = Math.max(done - folders.length, 0);
+        const message = error instanceof Error ? error.message : String(error);
+        throw new Error(`Saved ${itemsSaved} of ${items.length} items before failing: ${message}`);
+      }
+
+      return { folders: folders.length, items: items.length };
+    },
+    onSuccess: ({ items }) => {
+      toast({
+        title: "Import complete",
+        description: `${items} ${items === 1 ? "item" : "items"} added to your vault.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to add items.",
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      // Partial imports still change the vault
+      queryClient.invalidateQueries({ queryKey: queryKeys.items });
+      queryClient.invalidateQueries({ queryKey: queryKeys.foldersWithCounts });
+      queryClient.invalidateQueries({ queryKey: queryKeys.tags });
+    },
+  });
+};
+
+const sameValue = (a: unknown, b: unknown) => (a ?? null) === (b ?? null);
+
+// Fields this edit and someone else both changed, to different values
+export const findConflictingFields = (base: ItemVersion, local: Partial<Item>, remote: Item): ItemVersionField[] =>
+  ITEM_VERSION_FIELDS.filter(
+    (field) =>
+      local[field] !== undefined &&
+      !sameValue(local[field], base[field]) &&
+      !sameValue(remote[field], base[field]) &&
+      !sameValue(remote[field], local[field])
+  );
+
+const updateItem = async ({ base, ...update }: ItemUpdate) => {
+  const { id, tag_names, tags, ...updates } = update;
+
+  // Saved since editing started: only a clash on the same field needs a decision
+  if (base) {
+    const { data: remote, error: remoteError } = await supabase.from("items").select("*").eq("id", id).single();
+    if (remoteError) throw remoteError;
+
+    const changedRemotely = new Date(remote.updated_at).getTime() > new Date(base.updated_at ?? 0).getTime();
+    const fields = changedRemotely ? findConflictingFields(base, updates, remote as unknown as Item) : [];
+    if (fields.length > 0) {
+      throw new SyncConflictError({ update, remote: remote as unknown as Item, fields });
+    }
+  }
+
+  const { data, error } = await supabase
+    .from("items")
+    .update(updates)
+    .eq("id", id)
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  if (tag_names) {
+    await syncItemTags(id, data.user_id, tag_names);
+  }
+  return data;
+};
+
+// Update item mutation
+export const useUpdateItem = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationKey: mutationKeys.updateItem,
+    mutationFn: updateItem,
+    scope: VAULT_MUTATION_SCOPE,
+    onMutate: async ({ id, tag_names, tags, base, ...updates }) => {
+      const changes = await patchCaches(queryClient, {
+        items: (items) =>
+          items.map((item) => {
+            if (item.id !== id) return item;
+            const contentChanged = updates.content !== undefined && updates.content !== item.content;
+            return {
+              ...item,
+              ...updates,
+              tags: tag_names ? pendingTags(queryClient, tag_names) : item.tags,
+              link_check: contentChanged ? null : item.link_check,
+            };
+          }),
+      });
+      return { changes };
+    },
+    onSuccess: (item, { id, content }, context) => {
+      // Only a changed URL needs its link data fetched again
+      const previous = context?.changes.items?.find(change => change.id === id)?.row;
+      const contentChanged = content !== undefined && content !== previous?.content;
+
+      if (contentChanged && item.type === "link") {
+        clearLinkCheck(item.id).then(() => queryClient.invalidateQueries({ queryKey: queryKeys.items }));
+        enrichLinkItem(queryClient, item);
+      }
+      toast({
+        title: "Updated",
+        description: "Item updated successfully.",
+      });
+    },
+    onError: (error: Error, _, context) => {
+      rollbackCaches(queryClient, context?.changes);
+      // Conflicts are settled in the sync conflict dialog instead
+      if (error instanceof SyncConflictError) return;
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update item.",
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.items });
+      queryClient.invalidateQueries({ queryKey: queryKeys.foldersWithCounts });
+      queryClient.invalidateQueries({ queryKey: queryKeys.tags });
+    },
+  });
+};
+
+// Point a moved link at its new address
+export const useUpdateLinkUrl = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ id, url }: { id: string; url: string }) => {
+      const { data, error } = await supabase
+        .from("items")
+        .update({ content: url })
+        .eq("id", id)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      await clearLinkCheck(id);
+      return data;
+    },
+    onMutate: async ({ id, url }) => {
+      const changes = await patchCaches(queryClient, {
+        items: (items) => items.map((item) => (item.id === id ? { ...item, content: url, link_check: null } : item)),
+      });
+      return { changes };
+    },
+    onSuccess: (item) => {
+      enrichLinkItem(queryClient, item);
+      toast({
+        title: "Link updated",
+        description: "The item now points to the new URL.",
+      });
+    },
+    onError: (error: Error, _, context) => {
+      rollbackCaches(queryClient, context?.changes);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update link.",
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.items });
+    },
+  });
+};
+
+const deleteItem = async (id: string) => {
+  const { error } = await supabase
+    .from("items")
+    .update({ deleted_at: new Date().toISOString() })
+    .eq("id", id);
+
+  if (error) throw error;
+};
+
+// Delete item mutation (moves the item to the trash)
+export const useDeleteItem = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const restoreItem = useRestoreItem();
+
+  return useMutation({
+    mutationKey: mutationKeys.deleteItem,
+    mutationFn: deleteItem,
+    scope: VAULT_MUTATION_SCOPE,
+    onMutate: async (id) => {
+      const changes = await patchCaches(queryClient, {
+        items: (items) => items.filter((item) => item.id !== id),
+      });
+      return { changes };
+    },
+    onSuccess: (_, id) => {
+      toast({
+        title: "Moved to trash",
+        description: "Item moved to the trash.",
+        action: (
+          <ToastAction altText="Undo delete" onClick={() => restoreItem.mutate(id)}>
+            Undo
+          </ToastAction>
+        ),
+      });
+    },
+    onError: (error: Error, _, context) => {
+      rollbackCaches(queryClient, context?.changes);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete item.",
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.items });
+      queryClient.invalidateQueries({ queryKey: queryKeys.foldersWithCounts });
+      queryClient.invalidateQueries({ queryKey: queryKeys.trash });
+    },
+  });
+};
+
+const moveItem = async ({ itemId, folderId }: { itemId: string; folderId: string | null }) => {
+  const { error } = await supabase
+    .from("items")
+    .update({ folder_id: folderId })
+    .eq("id", itemId);
+
+  if (error) throw error;
+};
+
+// Move item to folder mutation
+export const useMoveItem = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationKey: mutationKeys.moveItem,
+    mutationFn: moveItem,
+    scope: VAULT_MUTATION_SCOPE,
+    onMutate: async ({ itemId, folderId }) => {
+      const changes = await patchCaches(queryClient, {
+        items: (items) => items.map((item) => (item.id === itemId ? { ...item, folder_id: folderId } : item)),
+      });
+      return { changes };
+    },
+    onSuccess: (_, { folderId }) => {
+      toast({
+        title: "Moved",
+        description: folderId ? "Item moved to folder." : "Item removed from folder.",
+      });
+    },
+    onError: (error: Error, _, context) => {
+      rollbackCaches(queryClient, context?.changes);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to move item.",
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.items });
+      queryClient.invalidateQueries({ queryKey: queryKeys.foldersWithCounts });
+    },
+  });
+};
+
+const createFolder = async (folder: { id: string; name: string; description?: string; color: string; icon: string; parent_id?: string | null; user_id: string }) => {
+  const { data, error } = await supabase
+    .from("folders")
+    .insert(folder)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+// Create folder mutation
+export const useCreateFolder = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationKey: mutationKeys.createFolder,
+    mutationFn: createFolder,
+    scope: VAULT_MUTATION_SCOPE,
+    onMutate: async (folder) => {
+      const placeholder: Folder = { ...folder, parent_id: folder.parent_id ?? null, deleted_at: null };
+      const changes = await patchCaches(queryClient, {
+        folders: (folders) => [placeholder, ...folders.filter((existing) => existing.id !== placeholder.id)],
+      });
+      return { changes };
+    },
+    onSuccess: (folder) => {
+      queryClient.setQueryData<Folder[]>(queryKeys.foldersWithCounts, (folders) => mergeSavedRow(folders, folder));
+      toast({
+        title: "Created!",
+        description: "Folder created successfully.",
+      });
+    },
+    onError: (error: Error, _, context) => {
+      rollbackCaches(queryClient, context?.changes);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create folder.",
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.foldersWithCounts });
+    },
+  });
+};
+
+const updateFolder = async ({ id, itemCount, depth, children, ...updates }: Partial<Folder> & { id: string }) => {
+  const { data, error } = await supabase
+    .from("folders")
+    .update(updates)
+    .eq("id", id)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+// Update folder mutation
+export const useUpdateFolder = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationKey: mutationKeys.updateFolder,
+    mutationFn: updateFolder,
+    scope: VAULT_MUTATION_SCOPE,
+    onMutate: async ({ id, itemCount, depth, children, ...updates }) => {
+      const changes = await patchCaches(queryClient, {
+        folders: (folders) => folders.map((folder) => (folder.id === id ? { ...folder, ...updates } : folder)),
+      });
+      return { changes };
+    },
+    onSuccess: () => {
+      toast({
+        title: "Renamed",
+        description: "Folder renamed successfully.",
+      });
+    },
+    onError: (error: Error, _, context) => {
+      rollbackCaches(queryClient, context?.changes);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to rename folder.",
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.foldersWithCounts });
+    },
+  });
+};
+
+const moveFolder = async ({ folderId, parentId }: { folderId: string; parentId: string | null }) => {
+  const { error } = await supabase
+    .from("folders")
+    .update({ parent_id: parentId })
+    .eq("id", folderId);
+
+  if (error) throw error;
+};
+
+// Move folder into another folder (or to the root) mutation
+export const useMoveFolder = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationKey: mutationKeys.moveFolder,
+    mutationFn: moveFolder,
+    scope: VAULT_MUTATION_SCOPE,
+    onMutate: async ({ folderId, parentId }) => {
+      const changes = await patchCaches(queryClient, {
+        folders: (folders) => folders.map((folder) => (folder.id === folderId ? { ...folder, parent_id: parentId } : folder)),
+      });
+      return { changes };
+    },
+    onSuccess: (_, { parentId }) => {
+      toast({
+        title: "Moved",
+        description: parentId ? "Folder moved into folder." : "Folder moved to root.",
+      });
+    },
+    onError: (error: Error, _, context) => {
+      // Moves into the folder's own subfolders are rejected by the server
+      rollbackCaches(queryClient, context?.changes);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to move folder.",
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.foldersWithCounts });
+    },
+  });
+};
+
+const deleteFolder = async (id: string) => {
+  const { error } = await supabase.rpc("soft_delete_folder", { target_folder_id: id });
+
+  if (error) throw error;
+};
+
+// Delete folder mutation (moves the folder and its contents to the trash)
+export const useDeleteFolder = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const restoreFolder = useRestoreFolder();
+
+  return useMutation({
+    mutationKey: mutationKeys.deleteFolder,
+    mutationFn: deleteFolder,
+    scope: VAULT_MUTATION_SCOPE,
+    onMutate: async (id) => {
+      // Everything nested in the folder goes to the trash with it
+      const folderIds = collectFolderIds(id, queryClient.getQueryData<Folder[]>(queryKeys.foldersWithCounts) ?? []);
+      const changes = await patchCaches(queryClient, {
+        folders: (folders) => folders.filter((folder) => !folderIds.has(folder.id)),
+        items: (items) => items.filter((item) => !item.folder_id || !folderIds.has(item.folder_id)),
+      });
+      return { changes };
+    },
+    onSuccess: (_, id) => {
+      toast({
+        title: "Moved to trash",
+        description: "Folder and its contents moved to the trash.",
+        action: (
+          <ToastAction altText="Undo delete" onClick={() => restoreFolder.mutate(id)}>
+            Undo
+          </ToastAction>
+        ),
+      });
+    },
+    onError: (error: Error, _, context) => {
+      rollbackCaches(queryClient, context?.changes);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete folder.",
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.items });
+      queryClient.invalidateQueries({ queryKey: queryKeys.foldersWithCounts });
+      queryClient.invalidateQueries({ queryKey: queryKeys.trash });
+    },
+  });
+};
+
+// Let queued changes restored from the offline cache run without the hooks
+// that made them; they refetch everything they touch once done
+export const registerVaultMutations = (queryClient: QueryClient) => {
+  const refetchVault = () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.items });
+    queryClient.invalidateQueries({ queryKey: queryKeys.foldersWithCounts });
+    queryClient.invalidateQueries({ queryKey: queryKeys.tags });
+    queryClient.invalidateQueries({ queryKey: queryKeys.trash });
+  };
+
+  const mutationFns = { createItem, updateItem, deleteItem, moveItem, createFolder, updateFolder, moveFolder, deleteFolder };
+  (Object.keys(mutationFns) as (keyof typeof mutationFns)[]).forEach((name) => {
+    queryClient.setMutationDefaults(mutationKeys[name], {
+      mutationFn: mutationFns[name] as (variables: unknown) => Promise<unknown>,
+      scope: VAULT_MUTATION_SCOPE,
+      onSettled: refetchVault,
+    });
+  });
+};
+
+// Fetch trashed items and folders. Entries trashed along with a folder are
+// listed under that folder rather than on their own.
+export const useTrash = () => {
+  return useQuery({
+    queryKey: queryKeys.trash,
+    queryFn: async () => {
+      const [itemsResult, foldersResult] = await Promise.all([
+        supabase
+          .from("items")
+          .select("*")
+          .not("deleted_at", "is", null)
+          .order("deleted_at", { ascending: false }),
+        supabase
+          .from("folders")
+          .select("*")
+          .not("deleted_at", "is", null)
+          .order("deleted_at", { ascending: false }),
+      ]);
+
+      if (itemsResult.error) throw itemsResult.error;
+      if (foldersResult.error) throw foldersResult.error;
+
+      const folders = (foldersResult.data || []) as Folder[];
+      const trashedFolderIds = new Set(folders.map(folder => folder.id));
+
+      return {
+        items: ((itemsResult.data || []) as unknown as Item[]).filter(
+          item => !item.folder_id || !trashedFolderIds.has(item.folder_id)
+        ),
+        folders: folders.filter(
+          folder => !folder.parent_id || !trashedFolderIds.has(folder.parent_id)
+        ),
+      };
+    },
+    staleTime: 1000 * 60 * 5,
+    gcTime: 1000 * 60 * 30,
+    refetchOnWindowFocus: false,
+  });
+};
+
+// Restore item from the trash mutation
+export const useRestoreItem = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.rpc("restore_item", { target_item_id: id });
+
+      if (error) throw error;
+    },
+    onMutate: async (id) => {
+      const restored = queryClient.getQueryData<TrashContents>(queryKeys.trash)?.items.find((item) => item.id === id);
+      const changes = await patchCaches(queryClient, {
+        trash: (trash) => ({ ...trash, items: trash.items.filter((item) => item.id !== id) }),
+        // Tags and other joins arrive with the refetch
+        items: (items) =>
+          restored && !items.some((item) => item.id === id)
+            ? [...items, { ...restored, deleted_at: null }].sort(
+                (a, b) => new Date(b.created_at ?? 0).getTime() - new Date(a.created_at ?? 0).getTime()
+              )
+            : items,
+      });
+      return { changes };
+    },
+    onSuccess: () => {
+      toast({
+        title: "Restored",
+        description: "Item restored from the trash.",
+      });
+    },
+    onError: (error: Error, _, context) => {
+      rollbackCaches(queryClient, context?.changes);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to restore item.",
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.items });
+      queryClient.invalidateQueries({ queryKey: queryKeys.foldersWithCounts });
+      queryClient.invalidateQueries({ queryKey: queryKeys.trash });
+    },
+  });
+};
+
+// Restore folder (and everything trashed with it) mutation
+export const useRestoreFolder = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.rpc("restore_folder", { target_folder_id: id });
+
+      if (error) throw error;
+    },
+    onMutate: async (id) => {
+      // What was trashed with the folder isn't cached; it comes back with the refetch
+      const changes = await patchCaches(queryClient, {
+        trash: (trash) => ({ ...trash, folders: trash.folders.filter((folder) => folder.id !== id) }),
+      });
+      return { changes };
+    },
+    onSuccess: () => {
+      toast({
+        title: "Restored",
+        description: "Folder restored from the trash.",
+      });
+    },
+    onError: (error: Error, _, context) => {
+      rollbackCaches(queryClient, context?.changes);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to restore folder.",
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.items });
+      queryClient.invalidateQueries({ queryKey: queryKeys.foldersWithCounts });
+      queryClient.invalidateQueries({ queryKey: queryKeys.trash });
+    },
+  });
+};
+
+// Permanently delete a trashed item mutation
+export const useDeleteItemForever = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { data, error } = await supabase
+        .from("items")
+        .delete()
+        .eq("id", id)
+        .select("file_path");
+
+      if (error) throw error;
+
+      // Remove the uploaded file, if any, now that the row is gone
+      await removeItemFiles((data || []).map((row) => row.file_path));
+    },
+    onMutate: async (id) => {
+      const changes = await patchCaches(queryClient, {
+        trash: (trash) => ({ ...trash, items: trash.items.filter((item) => item.id !== id) }),
+      });
+      return { changes };
+    },
+    onSuccess: () => {
+      toast({
+        title: "Deleted",
+        description: "Item permanently deleted.",
+      });
+    },
+    onError: (error: Error, _, context) => {
+      rollbackCaches(queryClient, context?.changes);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete item.",
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.trash });
+    },
+  });
+};
+
+// Permanently delete a trashed folder and its contents mutation
+export const useDeleteFolderForever = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { data, error } = await supabase.rpc("purge_folder", { target_folder_id: id });
+
+      if (error) throw error;
+
+      await removeItemFiles(data || []);
+    },
+    onMutate: async (id) => {
+      const changes = await patchCaches(queryClient, {
+        trash: (trash) => ({ ...trash, folders: trash.folders.filter((folder) => folder.id !== id) }),
+      });
+      return { changes };
+    },
+    onSuccess: () => {
+      toast({
+        title: "Deleted",
+        description: "Folder permanently deleted.",
+      });
+    },
+    onError: (error: Error, _, context) => {
+      rollbackCaches(queryClient, context?.changes);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete folder.",
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.trash });
+    },
+  });
+};
+
+// Fetch all tags
+export const useTags = () => {
+  return useQuery({
+    queryKey: queryKeys.tags,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("tags")
+        .select("id, name, color")
+        .order("name", { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as Tag[];
+    },
+    staleTime: 1000 * 60 * 5,
+    gcTime: 1000 * 60 * 30,
+    refetchOnWindowFocus: false,
+  });
+};
+
+// Create tag mutation
+export const useCreateTag = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (tag: { name: string; color?: string; user_id: string }) => {
+      const { data, error } = await supabase
+        .from("tags")
+        .insert(tag)
+        .select("id, name, color")
+        .single();
+
+      if (error) throw error;
+      return data as Tag;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.tags });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create tag.",
+        variant: "destructive",
+      });
+    },
+  });
+};
+
+// Update (rename/recolor) tag mutation
+export const useUpdateTag = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ id, ...updates }: Partial<Tag> & { id: string }) => {
+      const { data, error } = await supabase
+        .from("tags")
+        .update(updates)
+        .eq("id", id)
+        .select("id, name, color")
+        .single();
+
+      if (error) throw error;
+      return data as Tag;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.tags });
+      queryClient.invalidateQueries({ queryKey: queryKeys.items });
+      toast({
+        title: "Renamed",
+        description: "Tag updated successfully.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update tag.",
+        variant: "destructive",
+      });
+    },
+  });
+};
+
+// Delete tag mutation (items keep existing, only the tag is removed)
+export const useDeleteTag = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from("tags")
+        .delete()
+        .eq("id", id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.tags });
+      queryClient.invalidateQueries({ queryKey: queryKeys.items });
+      toast({
+        title: "Deleted",
+        description: "Tag removed from all items.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete tag.",
+        variant: "destructive",
+      });
+    },
+  });
+};
+
+// Merge one tag into another
+export const useMergeTags = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ sourceId, targetId }: { sourceId: string; targetId: string }) => {
+      const { error } = await supabase.rpc("merge_tags", {
+        source_tag_id: sourceId,
+        target_tag_id: targetId,
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.tags });
+      queryClient.invalidateQueries({ queryKey: queryKeys.items });
+      toast({
+        title: "Merged",
+        description: "Tags merged successfully.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to merge tags.",
+        variant: "destructive",
+      });
+    },
+  });
+};
+
+// Fetch saved searches, pinned first
+export const useSavedSearches = () => {
+  return useQuery({
+    queryKey: queryKeys.savedSearches,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("saved_searches")
+        .select("id, name, icon, color, query, tag_ids, pinned, created_at")
+        .order("pinned", { ascending: false })
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as SavedSearch[];
+    },
+    staleTime: 1000 * 60 * 5,
+    gcTime: 1000 * 60 * 30,
+    refetchOnWindowFocus: false,
+  });
+};
+
+// Create saved search mutation
+export const useCreateSavedSearch = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (savedSearch: Omit<SavedSearch, "id" | "pinned" | "created_at"> & { user_id: string }) => {
+      const { data, error } = await supabase
+        .from("saved_searches")
+        .insert(savedSearch)
+        .select("id, name, icon, color, query, tag_ids, pinned, created_at")
+        .single();
+
+      if (error) throw error;
+      return data as SavedSearch;
+    },
+    onSuccess: (savedSearch) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.savedSearches });
+      toast({
+        title: "Search saved",
+        description: `"${savedSearch.name}" is now a smart folder.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save search.",
+        variant: "destructive",
+      });
+    },
+  });
+};
+
+// Update (rename/pin/restyle) saved search mutation
+export const useUpdateSavedSearch = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ id, ...updates }: Partial<Omit<SavedSearch, "created_at">> & { id: string }) => {
+      const { error } = await supabase
+        .from("saved_searches")
+        .update(updates)
+        .eq("id", id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.savedSearches });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update smart folder.",
+        variant: "destructive",
+      });
+    },
+  });
+};
+
+// Delete saved search mutation (the matching items are untouched)
+export const useDeleteSavedSearch = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from("saved_searches")
+        .delete()
+        .eq("id", id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.savedSearches });
+      toast({
+        title: "Deleted",
+        description: "Smart folder deleted. Its items were not changed.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete smart folder.",
+        variant: "destructive",
+      });
+    },
+  });
+};
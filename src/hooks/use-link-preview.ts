@@ -0,0 +1,154 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { queryKeys } from "@/hooks/use-items";
+import {
+  LinkPreview,
+  LinkPreviewError,
+  formatLinkUrl,
+  getLinkDomain,
+  isLinkFailure,
+  normalizePreviewUrl,
+} from "@/lib/link-preview";
+import { ArticleBlock, ItemArticle } from "@/lib/article";
+
+const ARTICLE_COLUMNS =
+  "item_id, source_url, title, byline, site_name, lead_image, excerpt, blocks, word_count, published_time, extracted_at";
+
+const fallbackPreview = (url: string): LinkPreview => ({
+  title: null,
+  description: null,
+  image: null,
+  domain: getLinkDomain(url),
+  url: formatLinkUrl(url),
+});
+
+// Retries of previews that were rate limited. The quota is shared by every
+// card on screen, so retries wait at least as long as the function asks and
+// are spread out a little to avoid hitting it again all at once.
+const RATE_LIMIT_MAX_RETRIES = 6;
+const MAX_RETRY_DELAY_MS = 60 * 1000;
+
+const previewRetryDelay = (attempt: number, error: unknown) => {
+  const backoff = Math.min(1000 * 2 ** attempt, MAX_RETRY_DELAY_MS);
+  const retryAfter = error instanceof LinkPreviewError && error.retryAfter ? error.retryAfter * 1000 : 0;
+  return Math.max(backoff, retryAfter) + Math.random() * 1000;
+};
+
+// Call the edge function. Non-2xx responses carry a structured
+// { code, message } error in the body, and a Retry-After header when rate limited.
+const invokePreviewFunction = async <T>(body: Record<string, unknown>): Promise<T> => {
+  const { data, error } = await supabase.functions.invoke("fetch-link-preview", { body });
+
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      const errorBody = await error.context.json().catch(() => null);
+      const retryAfter = Number(error.context.headers.get("retry-after")) || undefined;
+      throw new LinkPreviewError(
+        errorBody?.error?.code ?? "INTERNAL",
+        errorBody?.error?.message ?? error.message,
+        retryAfter
+      );
+    }
+    throw error;
+  }
+  if (!data?.success || !data?.data) throw new LinkPreviewError("INTERNAL", "Failed to fetch preview");
+  return data.data as T;
+};
+
+// Preview through the edge function, which serves fresh entries from the
+// link_previews cache and scrapes (and stores) the rest
+const fetchLinkPreview = (url: string, refresh = false) =>
+  invokePreviewFunction<LinkPreview>({ url, refresh });
+
+// Extract a link item's article in reader mode; the edge function stores it in item_articles
+export const saveItemArticle = async (itemId: string): Promise<ItemArticle> => {
+  const article = await invokePreviewFunction<ItemArticle>({ mode: "reader", item_id: itemId });
+  return { ...article, blocks: article.blocks ?? [] };
+};
+
+// Copy a link's structured data onto its item, so badges and later features
+// don't depend on the shared preview cache still holding it
+export const storeItemStructuredData = async (itemId: string, url: string) => {
+  const preview = await fetchLinkPreview(url);
+  const structured = preview.structured ?? null;
+
+  const { error } = await supabase
+    .from("items")
+    .update({ structured })
+    .eq("id", itemId);
+
+  if (error) throw error;
+  return structured;
+};
+
+// A link's preview. The shared cache table isn't readable by clients, since its
+// keys are every URL anyone has saved; the edge function reads it for us.
+// Links that can't be previewed get a plain fallback, cached like a preview;
+// other errors (rate limits, outages) leave the query failed and retried.
+export const useLinkPreview = (url?: string | null) => {
+  const key = url ? normalizePreviewUrl(url) : "";
+
+  return useQuery({
+    queryKey: queryKeys.linkPreview(key),
+    queryFn: async (): Promise<LinkPreview> => {
+      try {
+        return await fetchLinkPreview(url!);
+      } catch (fetchError) {
+        console.error("Error fetching preview:", fetchError);
+        if (isLinkFailure(fetchError)) return fallbackPreview(url!);
+        throw fetchError;
+      }
+    },
+    retry: (failureCount, error) =>
+      failureCount < (error instanceof LinkPreviewError && error.code === "RATE_LIMITED" ? RATE_LIMIT_MAX_RETRIES : 3),
+    retryDelay: previewRetryDelay,
+    enabled: !!url,
+    staleTime: 1000 * 60 * 60,
+    gcTime: 1000 * 60 * 60 * 24,
+    refetchOnWindowFocus: false,
+  });
+};
+
+// Re-scrape a link, bypassing the stored preview
+export const useRefreshLinkPreview = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (url: string) => fetchLinkPreview(url, true),
+    onSuccess: (preview, url) => {
+      queryClient.setQueryData(queryKeys.linkPreview(normalizePreviewUrl(url)), preview);
+    },
+  });
+};
+
+// The stored reader-mode copy of a link item, or null if none was extracted
+export const useItemArticle = (itemId?: string | null) => {
+  return useQuery({
+    queryKey: queryKeys.itemArticle(itemId ?? ""),
+    queryFn: async (): Promise<ItemArticle | null> => {
+      const { data, error } = await supabase
+        .from("item_articles")
+        .select(ARTICLE_COLUMNS)
+        .eq("item_id", itemId!)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data ? { ...data, blocks: (data.blocks ?? []) as ArticleBlock[] } : null;
+    },
+    enabled: !!itemId,
+    staleTime: 1000 * 60 * 60,
+  });
+};
+
+// Re-extract a link item's article from the live page
+export const useSaveItemArticle = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: saveItemArticle,
+    onSuccess: (article, itemId) => {
+      queryClient.setQueryData(queryKeys.itemArticle(itemId), article);
+    },
+  });
+};
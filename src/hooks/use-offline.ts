@@ -0,0 +1,208 @@
+import { useEffect, useMemo, useState, useSyncExternalStore } from "react";
+import {
+  Mutation,
+  QueryClient,
+  dehydrate,
+  DehydratedState,
+  hashKey,
+  hydrate,
+  onlineManager,
+  useMutationState,
+} from "@tanstack/react-query";
+import type { User } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { mutationKeys, queryKeys } from "@/hooks/use-items";
+
+// The vault is cached in IndexedDB so it opens without a connection, along
+// with changes made offline that are still waiting to be sent
+const DB_NAME = "vault-offline";
+const STORE_NAME = "cache";
+const CACHE_KEY = "queryClient";
+const CACHE_VERSION = 1; // Bump when cached shapes change
+const CACHE_MAX_AGE = 1000 * 60 * 60 * 24 * 7; // 7 days
+const SAVE_THROTTLE = 1000;
+
+// Queries worth having offline; search results and previews are refetched
+const PERSISTED_QUERY_HASHES = new Set(
+  [
+    queryKeys.items,
+    queryKeys.foldersWithCounts,
+    queryKeys.tags,
+    queryKeys.savedSearches,
+    queryKeys.trash,
+    queryKeys.folderMembers,
+  ].map((key) => hashKey(key))
+);
+
+interface PersistedCache {
+  version: number;
+  userId: string;
+  savedAt: number;
+  state: DehydratedState;
+}
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const runTransaction = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+// Stored with structured cloning rather than JSON, so files attached to
+// queued uploads survive a reload
+const readCache = () => runTransaction<PersistedCache | undefined>("readonly", (store) => store.get(CACHE_KEY));
+const writeCache = (cache: PersistedCache) => runTransaction("readwrite", (store) => store.put(cache, CACHE_KEY));
+const clearCache = () => runTransaction("readwrite", (store) => store.delete(CACHE_KEY));
+
+// The user of the session the auth client keeps in local storage.
+// getSession() returns no session when an expired token can't be refreshed,
+// e.g. offline, though nobody signed out; this still knows who was signed in.
+export const getStoredUser = (): User | null => {
+  const key = Object.keys(localStorage).find((name) => /^sb-.+-auth-token$/.test(name));
+  if (!key) return null;
+  try {
+    return JSON.parse(localStorage.getItem(key) ?? "null")?.user ?? null;
+  } catch {
+    return null;
+  }
+};
+
+const dehydrateVault = (queryClient: QueryClient) =>
+  dehydrate(queryClient, {
+    shouldDehydrateQuery: (query) => query.state.status === "success" && PERSISTED_QUERY_HASHES.has(query.queryHash),
+    // Only changes still waiting for a connection need replaying
+    shouldDehydrateMutation: (mutation) => mutation.state.isPaused,
+  });
+
+// Restore the cached vault of the signed-in user, then keep the cache up to
+// date. Nothing renders until the restore finishes, so queries don't fetch
+// over data about to be restored. Only signing out, or another user signing
+// in, wipes the cache; a session that can't be refreshed offline doesn't.
+export const usePersistedQueryClient = (queryClient: QueryClient) => {
+  const [isRestoring, setIsRestoring] = useState(true);
+
+  useEffect(() => {
+    let userId: string | null = null;
+    let saveTimer: ReturnType<typeof setTimeout> | null = null;
+    let active = true;
+
+    const save = () => {
+      saveTimer = null;
+      if (!userId) return;
+      writeCache({ version: CACHE_VERSION, userId, savedAt: Date.now(), state: dehydrateVault(queryClient) }).catch(
+        (error) => console.error("Error saving offline cache:", error)
+      );
+    };
+
+    const scheduleSave = () => {
+      if (!saveTimer) saveTimer = setTimeout(save, SAVE_THROTTLE);
+    };
+
+    const restore = async () => {
+      try {
+        const { data: { session } } = await supabase.auth.getSession();
+        userId = session?.user.id ?? getStoredUser()?.id ?? null;
+        const cache = await readCache();
+        // Without a known user, keep the cache (and its queued changes) for later
+        if (!cache || !userId) return;
+
+        const usable =
+          cache.version === CACHE_VERSION && cache.userId === userId && Date.now() - cache.savedAt < CACHE_MAX_AGE;
+        if (usable) {
+          hydrate(queryClient, cache.state);
+        } else {
+          await clearCache();
+        }
+      } catch (error) {
+        console.error("Error restoring offline cache:", error);
+      } finally {
+        if (active) {
+          setIsRestoring(false);
+          // Changes queued before the reload go out now, or once back online
+          queryClient.resumePausedMutations();
+        }
+      }
+    };
+
+    restore();
+
+    const unsubscribeQueries = queryClient.getQueryCache().subscribe(scheduleSave);
+    const unsubscribeMutations = queryClient.getMutationCache().subscribe(scheduleSave);
+    const dropVault = () => {
+      queryClient.clear();
+      clearCache().catch((error) => console.error("Error clearing offline cache:", error));
+    };
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+      if (session) {
+        // Another account signing in mustn't see, or replay, the last one's vault
+        if (userId && session.user.id !== userId) dropVault();
+        userId = session.user.id;
+      }
+      if (event === "SIGNED_OUT") {
+        userId = null;
+        dropVault();
+      }
+    });
+
+    return () => {
+      active = false;
+      if (saveTimer) clearTimeout(saveTimer);
+      unsubscribeQueries();
+      unsubscribeMutations();
+      subscription.unsubscribe();
+    };
+  }, [queryClient]);
+
+  return isRestoring;
+};
+
+export const useOnlineStatus = () =>
+  useSyncExternalStore(
+    (onChange) => onlineManager.subscribe(onChange),
+    () => onlineManager.isOnline()
+  );
+
+// The item a queued change is about, if any
+const getQueuedItemId = (mutation: Mutation<unknown, Error, unknown, unknown>): string | null => {
+  const [name] = mutation.options.mutationKey ?? [];
+  const variables = mutation.state.variables;
+
+  switch (name) {
+    case mutationKeys.deleteItem[0]:
+      return variables as string;
+    case mutationKeys.moveItem[0]:
+      return (variables as { itemId: string }).itemId;
+    case mutationKeys.createItem[0]:
+    case mutationKeys.updateItem[0]:
+      return (variables as { id: string }).id;
+    default:
+      return null;
+  }
+};
+
+// Changes waiting for a connection, and the items they're about
+export const useQueuedChanges = () => {
+  const itemIds = useMutationState({
+    filters: { predicate: (mutation) => mutation.state.isPaused },
+    select: getQueuedItemId,
+  });
+
+  return useMemo(
+    () => ({ count: itemIds.length, itemIds: new Set(itemIds.filter(Boolean)) }),
+    [itemIds]
+  );
+};
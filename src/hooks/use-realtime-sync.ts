@@ -0,0 +1,164 @@
+import { useEffect, useState } from "react";
+import { QueryClient, useQueryClient } from "@tanstack/react-query";
+import type { RealtimePostgresChangesPayload } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { FOLDER_COLUMNS, Folder, ITEM_COLUMNS, Item, queryKeys } from "@/hooks/use-items";
+
+// Changes arriving within this window are reconciled with a single fetch
+const RECONCILE_DELAY = 300;
+
+type CachedRow = { id: string; created_at?: string; deleted_at?: string | null };
+
+const byNewest = (a: CachedRow, b: CachedRow) =>
+  new Date(b.created_at ?? 0).getTime() - new Date(a.created_at ?? 0).getTime();
+
+// Apply one change to a cached list of live rows in place. Payloads carry
+// only the table's own columns, so joined fields (tags, creator, owner) of
+// rows already cached are kept. Returns the id of a row that still needs
+// its joins fetched, if any.
+const patchCachedRows = <T extends CachedRow>(
+  queryClient: QueryClient,
+  queryKey: readonly unknown[],
+  payload: RealtimePostgresChangesPayload<T>
+): string | null => {
+  let staleId: string | null = null;
+
+  queryClient.setQueryData<T[]>(queryKey, (rows) => {
+    if (!rows) return rows;
+
+    if (payload.eventType === "DELETE") {
+      return rows.filter((row) => row.id !== payload.old.id);
+    }
+
+    const changed = payload.new;
+    // Trashing is an update that takes the row out of the live list
+    if (changed.deleted_at) {
+      return rows.filter((row) => row.id !== changed.id);
+    }
+
+    staleId = changed.id;
+    if (!rows.some((row) => row.id === changed.id)) {
+      return [...rows, changed].sort(byNewest);
+    }
+    return rows.map((row) => (row.id === changed.id ? { ...row, ...changed } : row));
+  });
+
+  return staleId;
+};
+
+// Replace cached rows with freshly fetched ones, joins included
+const replaceCachedRows = <T extends CachedRow>(queryClient: QueryClient, queryKey: readonly unknown[], fresh: T[]) => {
+  const byId = new Map(fresh.map((row) => [row.id, row]));
+  queryClient.setQueryData<T[]>(queryKey, (rows) => rows?.map((row) => byId.get(row.id) ?? row));
+};
+
+// Keep the items and folders caches in step with changes made in other tabs,
+// on other devices and by collaborators. Rows are patched as changes arrive,
+// then refetched in batches to fill in their joins; isSyncing is true while
+// that reconciliation runs.
+export const useRealtimeSync = (userId?: string | null) => {
+  const queryClient = useQueryClient();
+  const [pendingFetches, setPendingFetches] = useState(0);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    let active = true;
+    let hasSubscribed = false;
+    let reconcileTimer: ReturnType<typeof setTimeout> | null = null;
+    const staleItemIds = new Set<string>();
+    const staleFolderIds = new Set<string>();
+
+    const reconcile = async () => {
+      reconcileTimer = null;
+      const itemIds = [...staleItemIds];
+      const folderIds = [...staleFolderIds];
+      staleItemIds.clear();
+      staleFolderIds.clear();
+
+      try {
+        const [itemsResult, foldersResult] = await Promise.all([
+          itemIds.length > 0
+            ? supabase.from("items").select(ITEM_COLUMNS).in("id", itemIds).is("deleted_at", null)
+            : null,
+          folderIds.length > 0
+            ? supabase.from("folders").select(FOLDER_COLUMNS).in("id", folderIds).is("deleted_at", null)
+            : null,
+        ]);
+
+        if (itemsResult?.error) throw itemsResult.error;
+        if (foldersResult?.error) throw foldersResult.error;
+        if (!active) return;
+
+        // structured is untyped JSON in the generated types
+        if (itemsResult) replaceCachedRows(queryClient, queryKeys.items, (itemsResult.data || []) as unknown as Item[]);
+        if (foldersResult) replaceCachedRows(queryClient, queryKeys.foldersWithCounts, (foldersResult.data || []) as Folder[]);
+      } catch (error) {
+        console.error("Error reconciling realtime changes:", error);
+        if (active) {
+          queryClient.invalidateQueries({ queryKey: queryKeys.items });
+          queryClient.invalidateQueries({ queryKey: queryKeys.foldersWithCounts });
+        }
+      } finally {
+        if (active) setPendingFetches((count) => count - 1);
+      }
+    };
+
+    const scheduleReconcile = () => {
+      if (reconcileTimer) return;
+      setPendingFetches((count) => count + 1);
+      reconcileTimer = setTimeout(reconcile, RECONCILE_DELAY);
+    };
+
+    // Search results and the trash are fetched on their own; refetch them if open
+    const refreshDerivedQueries = () => {
+      queryClient.invalidateQueries({ queryKey: [...queryKeys.items, "search"] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.trash });
+    };
+
+    const channel = supabase
+      .channel(`vault-sync-${userId}`)
+      .on<Item>("postgres_changes", { event: "*", schema: "public", table: "items" }, (payload) => {
+        const staleId = patchCachedRows(queryClient, queryKeys.items, payload);
+        if (staleId) {
+          staleItemIds.add(staleId);
+          scheduleReconcile();
+        }
+        refreshDerivedQueries();
+      })
+      .on<Folder>("postgres_changes", { event: "*", schema: "public", table: "folders" }, (payload) => {
+        const staleId = patchCachedRows(queryClient, queryKeys.foldersWithCounts, payload);
+        if (staleId) {
+          staleFolderIds.add(staleId);
+          scheduleReconcile();
+        }
+        refreshDerivedQueries();
+      })
+      .on<{ item_id: string }>("postgres_changes", { event: "*", schema: "public", table: "item_tags" }, (payload) => {
+        // Tagging doesn't touch the item row; refetch the item for its tags
+        const itemId = payload.eventType === "DELETE" ? payload.old.item_id : payload.new.item_id;
+        if (!itemId) return;
+        staleItemIds.add(itemId);
+        scheduleReconcile();
+        queryClient.invalidateQueries({ queryKey: [...queryKeys.items, "search"] });
+      })
+      .subscribe((status) => {
+        if (status !== "SUBSCRIBED") return;
+        // Changes made while the connection was down were missed; catch up in full
+        if (hasSubscribed) {
+          queryClient.invalidateQueries({ queryKey: queryKeys.items });
+          queryClient.invalidateQueries({ queryKey: queryKeys.foldersWithCounts });
+        }
+        hasSubscribed = true;
+      });
+
+    return () => {
+      active = false;
+      if (reconcileTimer) clearTimeout(reconcileTimer);
+      setPendingFetches(0);
+      supabase.removeChannel(channel);
+    };
+  }, [queryClient, userId]);
+
+  return { isSyncing: pendingFetches > 0 };
+};
@@ -0,0 +1,60 @@
+import * as React from "react";
+import type { Item, ItemUpdate, ItemVersionField } from "@/hooks/use-items";
+
+// An edit that clashed with a change saved elsewhere since editing started
+export interface SyncConflict {
+  id: string;
+  update: ItemUpdate; // The edit as it was made, including its base version
+  remote: Item; // The item as it is on the server now
+  fields: ItemVersionField[];
+}
+
+export class SyncConflictError extends Error {
+  conflict: Omit<SyncConflict, "id">;
+
+  constructor(conflict: Omit<SyncConflict, "id">) {
+    super("This item was changed somewhere else while you were editing it.");
+    this.name = "SyncConflictError";
+    this.conflict = conflict;
+  }
+}
+
+// Conflicts waiting for a decision. They can come from changes replayed
+// without any component around, so they live outside React like toasts do.
+let conflicts: SyncConflict[] = [];
+const listeners: Array<(conflicts: SyncConflict[]) => void> = [];
+
+const setConflicts = (next: SyncConflict[]) => {
+  conflicts = next;
+  listeners.forEach((listener) => listener(conflicts));
+};
+
+export const reportSyncConflict = (error: unknown) => {
+  if (!(error instanceof SyncConflictError)) return;
+  // A newer clash on the same item replaces the older one
+  const { update } = error.conflict;
+  setConflicts([
+    ...conflicts.filter((conflict) => conflict.update.id !== update.id),
+    { ...error.conflict, id: crypto.randomUUID() },
+  ]);
+};
+
+export const dismissSyncConflict = (id: string) => {
+  setConflicts(conflicts.filter((conflict) => conflict.id !== id));
+};
+
+export const useSyncConflicts = () => {
+  const [state, setState] = React.useState<SyncConflict[]>(conflicts);
+
+  React.useEffect(() => {
+    listeners.push(setState);
+    return () => {
+      const index = listeners.indexOf(setState);
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+    };
+  }, []);
+
+  return state;
+};
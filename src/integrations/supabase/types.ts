@@ -14,38 +14,211 @@ export type Database = {
   }
   public: {
     Tables: {
+      folder_invitations: {
+        Row: {
+          created_at: string
+          email: string
+          folder_id: string
+          id: string
+          invited_by: string
+          role: string
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          folder_id: string
+          id?: string
+          invited_by: string
+          role: string
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          folder_id?: string
+          id?: string
+          invited_by?: string
+          role?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "folder_invitations_folder_id_fkey"
+            columns: ["folder_id"]
+            isOneToOne: false
+            referencedRelation: "folders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "folder_invitations_invited_by_fkey"
+            columns: ["invited_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      folder_members: {
+        Row: {
+          created_at: string
+          folder_id: string
+          invited_by: string | null
+          role: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          folder_id: string
+          invited_by?: string | null
+          role: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          folder_id?: string
+          invited_by?: string | null
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "folder_members_folder_id_fkey"
+            columns: ["folder_id"]
+            isOneToOne: false
+            referencedRelation: "folders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "folder_members_invited_by_fkey"
+            columns: ["invited_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "folder_members_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      folder_share_attempts: {
+        Row: {
+          failed_count: number
+          share_id: string
+          window_start: string
+        }
+        Insert: {
+          failed_count?: number
+          share_id: string
+          window_start?: string
+        }
+        Update: {
+          failed_count?: number
+          share_id?: string
+          window_start?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "folder_share_attempts_share_id_fkey"
+            columns: ["share_id"]
+            isOneToOne: true
+            referencedRelation: "folder_shares"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      folder_shares: {
+        Row: {
+          created_at: string
+          expires_at: string | null
+          folder_id: string
+          has_password: boolean
+          id: string
+          password_hash: string | null
+          slug: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          expires_at?: string | null
+          folder_id: string
+          id?: string
+          password_hash?: string | null
+          slug?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string | null
+          folder_id?: string
+          id?: string
+          password_hash?: string | null
+          slug?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "folder_shares_folder_id_fkey"
+            columns: ["folder_id"]
+            isOneToOne: false
+            referencedRelation: "folders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "folder_shares_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       folders: {
         Row: {
           color: string | null
           created_at: string
+          deleted_at: string | null
           description: string | null
           icon: string | null
           id: string
           name: string
+          parent_id: string | null
           updated_at: string
           user_id: string
         }
         Insert: {
           color?: string | null
           created_at?: string
+          deleted_at?: string | null
           description?: string | null
           icon?: string | null
           id?: string
           name: string
+          parent_id?: string | null
           updated_at?: string
           user_id: string
         }
         Update: {
           color?: string | null
           created_at?: string
+          deleted_at?: string | null
           description?: string | null
           icon?: string | null
           id?: string
           name?: string
+          parent_id?: string | null
           updated_at?: string
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "folders_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "folders"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "folders_user_id_fkey"
             columns: ["user_id"]
@@ -55,13 +228,165 @@ export type Database = {
           },
         ]
       }
+      item_articles: {
+        Row: {
+          blocks: Json
+          byline: string | null
+          excerpt: string | null
+          extracted_at: string
+          item_id: string
+          lead_image: string | null
+          published_time: string | null
+          site_name: string | null
+          source_url: string
+          title: string | null
+          user_id: string
+          word_count: number
+        }
+        Insert: {
+          blocks?: Json
+          byline?: string | null
+          excerpt?: string | null
+          extracted_at?: string
+          item_id: string
+          lead_image?: string | null
+          published_time?: string | null
+          site_name?: string | null
+          source_url: string
+          title?: string | null
+          user_id: string
+          word_count?: number
+        }
+        Update: {
+          blocks?: Json
+          byline?: string | null
+          excerpt?: string | null
+          extracted_at?: string
+          item_id?: string
+          lead_image?: string | null
+          published_time?: string | null
+          site_name?: string | null
+          source_url?: string
+          title?: string | null
+          user_id?: string
+          word_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "item_articles_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: true
+            referencedRelation: "items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "item_articles_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      item_link_checks: {
+        Row: {
+          checked_at: string
+          failures: number
+          final_url: string | null
+          http_status: number | null
+          item_id: string
+          status: string
+          user_id: string
+        }
+        Insert: {
+          checked_at?: string
+          failures?: number
+          final_url?: string | null
+          http_status?: number | null
+          item_id: string
+          status: string
+          user_id: string
+        }
+        Update: {
+          checked_at?: string
+          failures?: number
+          final_url?: string | null
+          http_status?: number | null
+          item_id?: string
+          status?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "item_link_checks_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: true
+            referencedRelation: "items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "item_link_checks_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      item_tags: {
+        Row: {
+          created_at: string
+          item_id: string
+          tag_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          item_id: string
+          tag_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          item_id?: string
+          tag_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "item_tags_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: false
+            referencedRelation: "items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "item_tags_tag_id_fkey"
+            columns: ["tag_id"]
+            isOneToOne: false
+            referencedRelation: "tags"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "item_tags_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       items: {
         Row: {
           content: string
           created_at: string
+          deleted_at: string | null
           description: string | null
+          file_path: string | null
           folder_id: string | null
           id: string
+          search_vector: unknown | null
+          structured: Json | null
           thumbnail_url: string | null
           title: string
           type: Database["public"]["Enums"]["item_type"]
@@ -71,9 +396,12 @@ export type Database = {
         Insert: {
           content: string
           created_at?: string
+          deleted_at?: string | null
           description?: string | null
+          file_path?: string | null
           folder_id?: string | null
           id?: string
+          structured?: Json | null
           thumbnail_url?: string | null
           title: string
           type: Database["public"]["Enums"]["item_type"]
@@ -83,9 +411,12 @@ export type Database = {
         Update: {
           content?: string
           created_at?: string
+          deleted_at?: string | null
           description?: string | null
+          file_path?: string | null
           folder_id?: string | null
           id?: string
+          structured?: Json | null
           thumbnail_url?: string | null
           title?: string
           type?: Database["public"]["Enums"]["item_type"]
@@ -109,6 +440,101 @@ export type Database = {
           },
         ]
       }
+      link_preview_rate_limits: {
+        Row: {
+          request_count: number
+          user_id: string
+          window_start: string
+        }
+        Insert: {
+          request_count?: number
+          user_id: string
+          window_start?: string
+        }
+        Update: {
+          request_count?: number
+          user_id?: string
+          window_start?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "link_preview_rate_limits_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      link_previews: {
+        Row: {
+          author_name: string | null
+          canonical_url: string | null
+          description: string | null
+          domain: string
+          duration: number | null
+          error_code: string | null
+          fetched_at: string
+          html: string | null
+          icon: string | null
+          image: string | null
+          og_type: string | null
+          provider_name: string | null
+          published_time: string | null
+          site_name: string | null
+          status: string
+          structured: Json | null
+          thumbnail_height: number | null
+          thumbnail_width: number | null
+          title: string | null
+          url: string
+        }
+        Insert: {
+          author_name?: string | null
+          canonical_url?: string | null
+          description?: string | null
+          domain: string
+          duration?: number | null
+          error_code?: string | null
+          fetched_at?: string
+          html?: string | null
+          icon?: string | null
+          image?: string | null
+          og_type?: string | null
+          provider_name?: string | null
+          published_time?: string | null
+          site_name?: string | null
+          status?: string
+          structured?: Json | null
+          thumbnail_height?: number | null
+          thumbnail_width?: number | null
+          title?: string | null
+          url: string
+        }
+        Update: {
+          author_name?: string | null
+          canonical_url?: string | null
+          description?: string | null
+          domain?: string
+          duration?: number | null
+          error_code?: string | null
+          fetched_at?: string
+          html?: string | null
+          icon?: string | null
+          image?: string | null
+          og_type?: string | null
+          provider_name?: string | null
+          published_time?: string | null
+          site_name?: string | null
+          status?: string
+          structured?: Json | null
+          thumbnail_height?: number | null
+          thumbnail_width?: number | null
+          title?: string | null
+          url?: string
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           avatar_url: string | null
@@ -133,12 +559,223 @@ export type Database = {
         }
         Relationships: []
       }
+      saved_searches: {
+        Row: {
+          color: string
+          created_at: string
+          icon: string
+          id: string
+          name: string
+          pinned: boolean
+          query: string
+          tag_ids: string[]
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          color?: string
+          created_at?: string
+          icon?: string
+          id?: string
+          name: string
+          pinned?: boolean
+          query?: string
+          tag_ids?: string[]
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          color?: string
+          created_at?: string
+          icon?: string
+          id?: string
+          name?: string
+          pinned?: boolean
+          query?: string
+          tag_ids?: string[]
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "saved_searches_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      share_access_rate_limits: {
+        Row: {
+          client_key: string
+          request_count: number
+          window_start: string
+        }
+        Insert: {
+          client_key: string
+          request_count?: number
+          window_start?: string
+        }
+        Update: {
+          client_key?: string
+          request_count?: number
+          window_start?: string
+        }
+        Relationships: []
+      }
+      tags: {
+        Row: {
+          color: string | null
+          created_at: string
+          id: string
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          color?: string | null
+          created_at?: string
+          id?: string
+          name: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          color?: string | null
+          created_at?: string
+          id?: string
+          name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tags_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      accept_folder_invitation: {
+        Args: { invitation_id: string }
+        Returns: string
+      }
+      consume_link_preview_quota: {
+        Args: { max_requests: number; target_user_id: string; window_seconds: number }
+        Returns: number
+      }
+      consume_share_access_quota: {
+        Args: { max_requests: number; target_client_key: string; window_seconds: number }
+        Returns: number
+      }
+      create_folder_share: {
+        Args: { share_expires_at?: string; share_password?: string; target_folder_id: string }
+        Returns: string
+      }
+      folder_role: {
+        Args: { target_folder_id: string }
+        Returns: string
+      }
+      folder_role_rank: {
+        Args: { role: string }
+        Returns: number
+      }
+      folder_root: {
+        Args: { target_folder_id: string }
+        Returns: string
+      }
+      folder_subtree: {
+        Args: { root_folder_id: string }
+        Returns: string[]
+      }
+      get_shared_folder: {
+        Args: { share_password?: string; share_slug: string }
+        Returns: Json
+      }
+      is_folder_collaborator: {
+        Args: { other_user_id: string }
+        Returns: boolean
+      }
+      links_due_for_check: {
+        Args: {
+          batch_size: number
+          recheck_after_seconds: number
+          retry_failing_after_seconds: number
+        }
+        Returns: {
+          content: string
+          failures: number
+          id: string
+          user_id: string
+        }[]
+      }
+      merge_tags: {
+        Args: { source_tag_id: string; target_tag_id: string }
+        Returns: undefined
+      }
+      pending_folder_invitations: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          created_at: string
+          folder_id: string
+          folder_name: string
+          id: string
+          invited_by_name: string
+          role: string
+        }[]
+      }
+      purge_folder: {
+        Args: { target_folder_id: string }
+        Returns: string[]
+      }
+      purge_trash: {
+        Args: { cutoff: string }
+        Returns: undefined
+      }
+      restore_folder: {
+        Args: { target_folder_id: string }
+        Returns: undefined
+      }
+      restore_item: {
+        Args: { target_item_id: string }
+        Returns: undefined
+      }
+      search_highlights: {
+        Args: { item_ids: string[]; search_query: string }
+        Returns: {
+          id: string
+          snippet: string
+          title_highlight: string
+        }[]
+      }
+      search_items: {
+        Args: { excluded_tag_ids?: string[]; search_query: string; tag_ids?: string[] }
+        Returns: {
+          content: string
+          created_at: string
+          folder_id: string | null
+          id: string
+          rank: number
+          title: string
+          type: Database["public"]["Enums"]["item_type"]
+        }[]
+      }
+      search_tsquery: {
+        Args: { search_query: string }
+        Returns: unknown
+      }
+      soft_delete_folder: {
+        Args: { target_folder_id: string }
+        Returns: undefined
+      }
     }
     Enums: {
       item_type: "link" | "image" | "video" | "note"
@@ -0,0 +1,169 @@
+import { describe, expect, it } from "vitest";
+import {
+  ARCHIVE_FORMAT,
+  ARCHIVE_VERSION,
+  AccountArchive,
+  ArchiveError,
+  ArchiveFolder,
+  ArchiveImportTarget,
+  ArchiveItem,
+  parseAccountArchive,
+  planArchiveImport,
+} from "./account-archive";
+
+const FOLDER_A = "00000000-0000-4000-8000-00000000000a";
+const FOLDER_B = "00000000-0000-4000-8000-00000000000b";
+const TAG = "00000000-0000-4000-8000-0000000000c1";
+const ITEM = "00000000-0000-4000-8000-0000000000d1";
+const SEARCH = "00000000-0000-4000-8000-0000000000e1";
+const CREATED_AT = "2026-01-02T03:04:05.000Z";
+
+const folder = (overrides: Partial<ArchiveFolder> = {}): ArchiveFolder => ({
+  id: FOLDER_A,
+  name: "Reading",
+  description: null,
+  color: null,
+  icon: null,
+  parent_id: null,
+  created_at: CREATED_AT,
+  deleted_at: null,
+  ...overrides,
+});
+
+const item = (overrides: Partial<ArchiveItem> = {}): ArchiveItem => ({
+  id: ITEM,
+  title: "Example",
+  description: null,
+  type: "link",
+  content: "https://example.com/article",
+  thumbnail_url: null,
+  folder_id: FOLDER_A,
+  structured: null,
+  tag_ids: [TAG],
+  file: null,
+  created_at: CREATED_AT,
+  deleted_at: null,
+  ...overrides,
+});
+
+const archive = (overrides: Partial<AccountArchive> = {}): AccountArchive => ({
+  format: ARCHIVE_FORMAT,
+  version: ARCHIVE_VERSION,
+  exported_at: CREATED_AT,
+  profile: { full_name: "Ada", avatar_url: null },
+  folders: [folder()],
+  tags: [{ id: TAG, name: "later", color: null }],
+  items: [item()],
+  saved_searches: [
+    { id: SEARCH, name: "Unread", icon: "inbox", color: "blue", query: "tag:later", tag_ids: [TAG], pinned: false, created_at: CREATED_AT },
+  ],
+  ...overrides,
+});
+
+const emptyTarget: ArchiveImportTarget = { profile: null, folders: [], tags: [], items: [], savedSearches: [] };
+
+const parse = (value: unknown) => parseAccountArchive(JSON.stringify(value));
+
+describe("parseAccountArchive", () => {
+  it("reads a valid archive", () => {
+    expect(parse(archive())).toEqual(archive());
+  });
+
+  it("rejects text that isn't JSON", () => {
+    expect(() => parseAccountArchive("{")).toThrow(new ArchiveError("This file isn't valid JSON."));
+  });
+
+  it("rejects other JSON files", () => {
+    expect(() => parse({ items: [] })).toThrow("This file isn't a vault export.");
+    expect(() => parse({ ...archive(), format: "something-else" })).toThrow("This file isn't a vault export.");
+  });
+
+  it("rejects archives from a newer version", () => {
+    expect(() => parse({ ...archive(), version: ARCHIVE_VERSION + 1 })).toThrow(
+      "This export was made by a newer version of the app."
+    );
+  });
+
+  it("points at the first invalid field", () => {
+    expect(() => parse(archive({ items: [item({ title: "" })] }))).toThrow(/^Invalid export at items\.0\.title:/);
+    expect(() => parse(archive({ folders: [folder({ created_at: "yesterday" })] }))).toThrow(
+      "Invalid export at folders.0.created_at: Invalid date"
+    );
+    expect(() => parse(archive({ items: [item({ id: "not-a-uuid" })] }))).toThrow(/^Invalid export at items\.0\.id:/);
+  });
+
+  it("rejects references to folders and tags outside the archive", () => {
+    expect(() => parse(archive({ folders: [folder({ parent_id: FOLDER_B })] }))).toThrow(
+      "Invalid export at folders.0.parent_id: Unknown parent folder"
+    );
+    expect(() => parse(archive({ items: [item({ folder_id: FOLDER_B })] }))).toThrow(
+      "Invalid export at items.0.folder_id: Unknown folder"
+    );
+    expect(() => parse(archive({ items: [item({ tag_ids: [ITEM] })] }))).toThrow(
+      "Invalid export at items.0.tag_ids: Unknown tag"
+    );
+  });
+
+  it("accepts items and folders at the top level", () => {
+    const topLevel = archive({ folders: [], items: [item({ folder_id: null })] });
+    expect(parse(topLevel)).toEqual(topLevel);
+  });
+});
+
+describe("planArchiveImport", () => {
+  it("gives every row a new id and rewrites references to match", () => {
+    const plan = planArchiveImport(
+      archive({ folders: [folder(), folder({ id: FOLDER_B, name: "Child", parent_id: FOLDER_A })] }),
+      emptyTarget,
+      { skipDuplicates: true }
+    );
+
+    const [tag] = plan.tags;
+    const [parent, child] = plan.folders;
+    expect(tag.id).not.toBe(TAG);
+    expect(parent.id).not.toBe(FOLDER_A);
+    expect(child.parent_id).toBe(parent.id);
+    expect(plan.items[0]).toMatchObject({ folder_id: parent.id, tag_ids: [tag.id] });
+    expect(plan.items[0].id).not.toBe(ITEM);
+    expect(plan.savedSearches[0].tag_ids).toEqual([tag.id]);
+    expect(plan.profile).toEqual({ full_name: "Ada" });
+    expect(plan.conflicts).toEqual([]);
+  });
+
+  it("merges into existing tags and folders and skips saved links", () => {
+    const target: ArchiveImportTarget = {
+      ...emptyTarget,
+      profile: { full_name: "Someone else", avatar_url: null },
+      tags: [{ id: "tag-existing", name: "Later" } as ArchiveImportTarget["tags"][number]],
+      folders: [{ id: "folder-existing", name: "reading", parent_id: null } as ArchiveImportTarget["folders"][number]],
+      items: [{ type: "link", content: "https://example.com/article#intro" } as ArchiveImportTarget["items"][number]],
+    };
+
+    const plan = planArchiveImport(archive(), target, { skipDuplicates: true });
+
+    expect(plan.tags).toEqual([]);
+    expect(plan.folders).toEqual([]);
+    expect(plan.items).toEqual([]);
+    expect(plan.profile).toBeNull();
+    expect(plan.conflicts.map((conflict) => conflict.kind)).toEqual(["profile", "tag", "folder", "item"]);
+
+    const again = planArchiveImport(archive(), target, { skipDuplicates: false });
+    expect(again.items[0]).toMatchObject({ folder_id: "folder-existing", tag_ids: ["tag-existing"] });
+  });
+
+  it("breaks folder parent cycles", () => {
+    const plan = planArchiveImport(
+      archive({
+        folders: [folder({ parent_id: FOLDER_B }), folder({ id: FOLDER_B, name: "Other", parent_id: FOLDER_A })],
+        items: [],
+      }),
+      emptyTarget,
+      { skipDuplicates: true }
+    );
+
+    const ids = new Set(plan.folders.map((planned) => planned.id));
+    expect(plan.folders).toHaveLength(2);
+    expect(plan.folders.filter((planned) => planned.parent_id === null)).toHaveLength(1);
+    expect(plan.folders.every((planned) => !planned.parent_id || ids.has(planned.parent_id))).toBe(true);
+  });
+});
@@ -0,0 +1,329 @@
+import { z } from "zod";
+import type { Folder, Item, SavedSearch, Tag } from "@/hooks/use-items";
+import { normalizePreviewUrl } from "@/lib/link-preview";
+
+// A full copy of an account's vault as one JSON file: profile, folders, tags,
+// items (including trashed ones), saved searches and, optionally, uploaded
+// files inlined as base64. Ids are the source project's; importing remaps them.
+
+export const ARCHIVE_FORMAT = "vault-archive";
+// Bump when the shape changes, and keep reading older versions
+export const ARCHIVE_VERSION = 1;
+
+const id = z.string().uuid();
+const timestamp = z.string().refine((value) => !isNaN(Date.parse(value)), "Invalid date");
+
+const folderSchema = z.object({
+  id,
+  name: z.string().min(1).max(100),
+  description: z.string().nullable(),
+  color: z.string().nullable(),
+  icon: z.string().nullable(),
+  parent_id: id.nullable(),
+  created_at: timestamp,
+  deleted_at: timestamp.nullable(),
+});
+
+const tagSchema = z.object({
+  id,
+  name: z.string().min(1).max(100),
+  color: z.string().nullable(),
+});
+
+const archiveFileSchema = z.object({
+  name: z.string().min(1),
+  content_type: z.string().nullable(),
+  data: z.string(), // Base64
+});
+
+const itemSchema = z.object({
+  id,
+  title: z.string().min(1),
+  description: z.string().nullable(),
+  type: z.enum(["link", "image", "video", "note"]),
+  content: z.string(),
+  thumbnail_url: z.string().nullable(),
+  folder_id: id.nullable(),
+  structured: z.record(z.unknown()).nullable(),
+  tag_ids: z.array(id),
+  // Only set for uploaded files, and only when the export included them
+  file: archiveFileSchema.nullable(),
+  created_at: timestamp,
+  deleted_at: timestamp.nullable(),
+});
+
+const savedSearchSchema = z.object({
+  id,
+  name: z.string().min(1).max(100),
+  icon: z.string(),
+  color: z.string(),
+  query: z.string(),
+  tag_ids: z.array(id),
+  pinned: z.boolean(),
+  created_at: timestamp,
+});
+
+export const accountArchiveSchema = z
+  .object({
+    format: z.literal(ARCHIVE_FORMAT),
+    version: z.literal(ARCHIVE_VERSION),
+    exported_at: timestamp,
+    profile: z.object({ full_name: z.string().nullable(), avatar_url: z.string().nullable() }).nullable(),
+    folders: z.array(folderSchema),
+    tags: z.array(tagSchema),
+    items: z.array(itemSchema),
+    saved_searches: z.array(savedSearchSchema),
+  })
+  .superRefine((archive, ctx) => {
+    // Every reference must point inside the archive
+    const folderIds = new Set(archive.folders.map((folder) => folder.id));
+    const tagIds = new Set(archive.tags.map((tag) => tag.id));
+    const check = (ok: boolean, path: (string | number)[], message: string) => {
+      if (!ok) ctx.addIssue({ code: z.ZodIssueCode.custom, path, message });
+    };
+
+    archive.folders.forEach((folder, index) =>
+      check(!folder.parent_id || folderIds.has(folder.parent_id), ["folders", index, "parent_id"], "Unknown parent folder")
+    );
+    archive.items.forEach((item, index) => {
+      check(!item.folder_id || folderIds.has(item.folder_id), ["items", index, "folder_id"], "Unknown folder");
+      check(item.tag_ids.every((tagId) => tagIds.has(tagId)), ["items", index, "tag_ids"], "Unknown tag");
+    });
+    archive.saved_searches.forEach((search, index) =>
+      check(search.tag_ids.every((tagId) => tagIds.has(tagId)), ["saved_searches", index, "tag_ids"], "Unknown tag")
+    );
+  });
+
+// Spelled out rather than z.infer'd: without strictNullChecks zod infers every
+// property as optional
+export type ArchiveFolder = {
+  id: string;
+  name: string;
+  description: string | null;
+  color: string | null;
+  icon: string | null;
+  parent_id: string | null;
+  created_at: string;
+  deleted_at: string | null;
+};
+
+export type ArchiveTag = {
+  id: string;
+  name: string;
+  color: string | null;
+};
+
+export type ArchiveFile = {
+  name: string;
+  content_type: string | null;
+  data: string;
+};
+
+export type ArchiveItem = {
+  id: string;
+  title: string;
+  description: string | null;
+  type: Item["type"];
+  content: string;
+  thumbnail_url: string | null;
+  folder_id: string | null;
+  structured: Record<string, unknown> | null;
+  tag_ids: string[];
+  file: ArchiveFile | null;
+  created_at: string;
+  deleted_at: string | null;
+};
+
+export type ArchiveSavedSearch = {
+  id: string;
+  name: string;
+  icon: string;
+  color: string;
+  query: string;
+  tag_ids: string[];
+  pinned: boolean;
+  created_at: string;
+};
+
+export type AccountArchive = {
+  format: typeof ARCHIVE_FORMAT;
+  version: typeof ARCHIVE_VERSION;
+  exported_at: string;
+  profile: { full_name: string | null; avatar_url: string | null } | null;
+  folders: ArchiveFolder[];
+  tags: ArchiveTag[];
+  items: ArchiveItem[];
+  saved_searches: ArchiveSavedSearch[];
+};
+
+export class ArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ArchiveError";
+  }
+}
+
+// Parse and validate an archive file's text
+export const parseAccountArchive = (text: string): AccountArchive => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new ArchiveError("This file isn't valid JSON.");
+  }
+
+  const header = z.object({ format: z.string(), version: z.number() }).safeParse(json);
+  if (!header.success || header.data.format !== ARCHIVE_FORMAT) {
+    throw new ArchiveError("This file isn't a vault export.");
+  }
+  if (header.data.version > ARCHIVE_VERSION) {
+    throw new ArchiveError("This export was made by a newer version of the app.");
+  }
+
+  const result = accountArchiveSchema.safeParse(json);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new ArchiveError(`Invalid export at ${issue.path.join(".") || "root"}: ${issue.message}`);
+  }
+  return result.data as AccountArchive;
+};
+
+export const getArchiveFileName = (date = new Date()) => `vault-export-${date.toISOString().slice(0, 10)}.json`;
+
+export interface ArchiveConflict {
+  kind: "profile" | "folder" | "tag" | "item" | "saved_search";
+  name: string;
+  resolution: string;
+}
+
+export interface ArchiveImportPlan {
+  profile: { full_name?: string; avatar_url?: string } | null; // Fields to fill in
+  tags: ArchiveTag[];
+  folders: ArchiveFolder[];
+  items: ArchiveItem[];
+  savedSearches: ArchiveSavedSearch[];
+  conflicts: ArchiveConflict[];
+}
+
+export interface ArchiveImportTarget {
+  profile: { full_name: string | null; avatar_url: string | null } | null;
+  folders: Folder[];
+  tags: Tag[];
+  items: Item[];
+  savedSearches: SavedSearch[];
+}
+
+// Give every archived row a fresh id and rewrite references to match. Tags
+// and folders that already exist by name are reused, links already in the
+// vault are skipped, and each such decision is reported as a conflict.
+export const planArchiveImport = (
+  archive: AccountArchive,
+  target: ArchiveImportTarget,
+  { skipDuplicates }: { skipDuplicates: boolean }
+): ArchiveImportPlan => {
+  const conflicts: ArchiveConflict[] = [];
+
+  // Profile: fill in what's missing, never overwrite
+  let profile: ArchiveImportPlan["profile"] = null;
+  if (archive.profile) {
+    const current = target.profile;
+    const updates: NonNullable<ArchiveImportPlan["profile"]> = {};
+    (["full_name", "avatar_url"] as const).forEach((field) => {
+      const value = archive.profile![field];
+      if (!value) return;
+      if (!current?.[field]) {
+        updates[field] = value;
+      } else if (current[field] !== value) {
+        conflicts.push({ kind: "profile", name: field === "full_name" ? "Name" : "Avatar", resolution: "Kept your current value" });
+      }
+    });
+    profile = Object.keys(updates).length > 0 ? updates : null;
+  }
+
+  // Tags are unique per user, so same-named tags are merged
+  const tagIds = new Map<string, string>();
+  const existingTags = new Map(target.tags.map((tag) => [tag.name.toLowerCase(), tag.id]));
+  const tags: ArchiveTag[] = [];
+  archive.tags.forEach((tag) => {
+    const existingId = existingTags.get(tag.name.toLowerCase());
+    if (existingId) {
+      tagIds.set(tag.id, existingId);
+      conflicts.push({ kind: "tag", name: tag.name, resolution: "Merged into your existing tag" });
+    } else {
+      const newId = crypto.randomUUID();
+      tagIds.set(tag.id, newId);
+      existingTags.set(tag.name.toLowerCase(), newId);
+      tags.push({ id: newId, name: tag.name, color: tag.color });
+    }
+  });
+
+  // Folders, parents first so a child can be matched under its merged parent
+  const folderIds = new Map<string, string>();
+  const folderKey = (parentId: string | null, name: string) => `${parentId ?? ""}/${name.trim().toLowerCase()}`;
+  const existingFolders = new Map(
+    target.folders.map((folder) => [folderKey(folder.parent_id ?? null, folder.name), folder.id])
+  );
+  const archivedById = new Map(archive.folders.map((folder) => [folder.id, folder]));
+  const folders: ArchiveFolder[] = [];
+  const visited = new Set<string>();
+  const visitFolder = (folder: ArchiveFolder) => {
+    // A parent cycle in a hand-edited archive ends up at the root
+    if (visited.has(folder.id)) return;
+    visited.add(folder.id);
+    const parent = folder.parent_id ? archivedById.get(folder.parent_id) : undefined;
+    if (parent) visitFolder(parent);
+    const parentId = folder.parent_id ? folderIds.get(folder.parent_id) ?? null : null;
+
+    const existingId = folder.deleted_at ? undefined : existingFolders.get(folderKey(parentId, folder.name));
+    if (existingId) {
+      folderIds.set(folder.id, existingId);
+      conflicts.push({ kind: "folder", name: folder.name, resolution: "Merged into your existing folder" });
+      return;
+    }
+    const newId = crypto.randomUUID();
+    folderIds.set(folder.id, newId);
+    if (!folder.deleted_at) existingFolders.set(folderKey(parentId, folder.name), newId);
+    folders.push({ ...folder, id: newId, parent_id: parentId });
+  };
+  archive.folders.forEach(visitFolder);
+
+  // Items
+  const savedUrls = new Set(
+    target.items.filter((item) => item.type === "link").map((item) => normalizePreviewUrl(item.content))
+  );
+  const items: ArchiveItem[] = [];
+  archive.items.forEach((item) => {
+    if (item.type === "link" && !item.deleted_at) {
+      const url = normalizePreviewUrl(item.content);
+      if (savedUrls.has(url)) {
+        conflicts.push({
+          kind: "item",
+          name: item.title,
+          resolution: skipDuplicates ? "Skipped: link already saved" : "Imported again: link already saved",
+        });
+        if (skipDuplicates) return;
+      }
+      savedUrls.add(url);
+    }
+    items.push({
+      ...item,
+      id: crypto.randomUUID(),
+      folder_id: item.folder_id ? folderIds.get(item.folder_id) ?? null : null,
+      tag_ids: [...new Set(item.tag_ids.map((tagId) => tagIds.get(tagId)!))],
+    });
+  });
+
+  // Smart folders have no unique name, but two with the same name are confusing
+  const searchNames = new Set(target.savedSearches.map((search) => search.name.toLowerCase()));
+  const savedSearches: ArchiveSavedSearch[] = [];
+  archive.saved_searches.forEach((search) => {
+    if (searchNames.has(search.name.toLowerCase())) {
+      conflicts.push({ kind: "saved_search", name: search.name, resolution: "Skipped: a smart folder with this name exists" });
+      return;
+    }
+    searchNames.add(search.name.toLowerCase());
+    savedSearches.push({ ...search, id: crypto.randomUUID(), tag_ids: search.tag_ids.map((tagId) => tagIds.get(tagId)!) });
+  });
+
+  return { profile, tags, folders, items, savedSearches, conflicts };
+};
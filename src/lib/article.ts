@@ -0,0 +1,30 @@
+// Reader-mode article stored per link item in item_articles.
+
+// A piece of cleaned article content. Kept as data rather than HTML so markup
+// from the source page is never rendered.
+// Keep in sync with supabase/functions/fetch-link-preview/reader.ts.
+export type ArticleBlock =
+  | { type: "heading"; level: 2 | 3 | 4; text: string }
+  | { type: "paragraph"; text: string }
+  | { type: "list"; ordered: boolean; items: string[] }
+  | { type: "quote"; text: string }
+  | { type: "code"; text: string }
+  | { type: "image"; src: string; alt: string | null };
+
+export interface ItemArticle {
+  item_id: string;
+  source_url: string;
+  title: string | null;
+  byline: string | null;
+  site_name: string | null;
+  lead_image: string | null;
+  excerpt: string | null;
+  blocks: ArticleBlock[];
+  word_count: number;
+  published_time: string | null;
+  extracted_at: string;
+}
+
+const WORDS_PER_MINUTE = 230;
+
+export const getReadingMinutes = (wordCount: number) => Math.max(1, Math.round(wordCount / WORDS_PER_MINUTE));
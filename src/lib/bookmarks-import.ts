@@ -0,0 +1,242 @@
+import type { Folder, Item, Tag } from "@/hooks/use-items";
+import { normalizePreviewUrl } from "@/lib/link-preview";
+
+// Bookmark imports. Every source is parsed into the same folder tree, which
+// is then planned against the vault; see lib/import-sources for the formats.
+
+export interface ParsedBookmark {
+  title: string;
+  url: string;
+  addedAt: string | null;
+  // Read-later services carry more than browsers do
+  description?: string;
+  tags?: string[];
+  thumbnail?: string;
+}
+
+export interface BookmarkFolderNode {
+  name: string;
+  addedAt: string | null;
+  folders: BookmarkFolderNode[];
+  bookmarks: ParsedBookmark[];
+}
+
+export interface ParsedBookmarkFile {
+  root: BookmarkFolderNode; // Unnamed; its bookmarks sit outside any folder
+  skipped: number; // javascript:, place: and other non-web links
+}
+
+// A folder to reuse or create, parents before children
+export interface BookmarkImportFolder {
+  id: string;
+  name: string;
+  parent_id: string | null;
+  created_at?: string;
+  isNew: boolean;
+  depth: number;
+}
+
+export interface BookmarkImportLink {
+  title: string;
+  url: string;
+  folder_id: string | null;
+  created_at?: string;
+  description?: string;
+  thumbnail_url?: string;
+  tag_names: string[];
+  duplicate: boolean; // Already in the vault, or earlier in the same file
+}
+
+export interface BookmarkImportPlan {
+  folders: BookmarkImportFolder[];
+  links: BookmarkImportLink[];
+  skipped: number;
+}
+
+const MAX_TITLE_LENGTH = 200;
+const MAX_DESCRIPTION_LENGTH = 500;
+const MAX_FOLDER_NAME_LENGTH = 100;
+const MAX_TAG_LENGTH = 50;
+
+const normalize = (value: string | null | undefined) => (value ?? "").replace(/\s+/g, " ").trim();
+
+// ADD_DATE is seconds, but some tools write milliseconds or microseconds
+export const parseEpochDate = (value: string | null): string | null => {
+  const raw = Number(value);
+  if (!value || !Number.isFinite(raw) || raw <= 0) return null;
+  const ms = raw > 1e14 ? raw / 1000 : raw > 1e11 ? raw : raw * 1000;
+  const date = new Date(ms);
+  return date.getFullYear() >= 1990 && date.getTime() <= Date.now() + 86_400_000 ? date.toISOString() : null;
+};
+
+const isWebUrl = (href: string) => {
+  try {
+    const { protocol } = new URL(href);
+    return protocol === "http:" || protocol === "https:";
+  } catch {
+    return false;
+  }
+};
+
+const linkTitle = (text: string, url: string) => {
+  const title = normalize(text) || new URL(url).hostname.replace(/^www\./, "");
+  return title.substring(0, MAX_TITLE_LENGTH);
+};
+
+export const newBookmarkFolder = (name: string, addedAt: string | null = null): BookmarkFolderNode => ({
+  name: normalize(name).substring(0, MAX_FOLDER_NAME_LENGTH) || "Untitled folder",
+  addedAt,
+  folders: [],
+  bookmarks: [],
+});
+
+// Clean up a bookmark from any source; null for links we can't save
+export const makeBookmark = (fields: {
+  url: string;
+  title?: string | null;
+  addedAt?: string | null;
+  description?: string | null;
+  tags?: string[];
+  thumbnail?: string | null;
+}): ParsedBookmark | null => {
+  const url = normalize(fields.url);
+  if (!isWebUrl(url)) return null;
+
+  const description = normalize(fields.description).substring(0, MAX_DESCRIPTION_LENGTH);
+  const tags = (fields.tags ?? []).map((tag) => normalize(tag).substring(0, MAX_TAG_LENGTH)).filter(Boolean);
+  const thumbnail = normalize(fields.thumbnail);
+  return {
+    title: linkTitle(fields.title ?? "", url),
+    url,
+    addedAt: fields.addedAt ?? null,
+    ...(description && { description }),
+    ...(tags.length > 0 && { tags }),
+    ...(isWebUrl(thumbnail) && { thumbnail }),
+  };
+};
+
+// The folder at `path` below `root`, created as needed
+export const getBookmarkFolder = (root: BookmarkFolderNode, path: string[]): BookmarkFolderNode =>
+  path.reduce((parent, name) => {
+    const folder = newBookmarkFolder(name);
+    const existing = parent.folders.find((child) => child.name.toLowerCase() === folder.name.toLowerCase());
+    if (existing) return existing;
+    parent.folders.push(folder);
+    return folder;
+  }, root);
+
+// Netscape bookmark files (bookmarks.html) as exported by Chrome, Firefox,
+// Safari and Edge: nested <DL> lists where <H3> starts a folder and <A> is a
+// bookmark with ADD_DATE in seconds since the epoch.
+export const parseBookmarksHtml = (html: string): ParsedBookmarkFile => {
+  const doc = new DOMParser().parseFromString(html, "text/html");
+  const root: BookmarkFolderNode = { name: "", addedAt: null, folders: [], bookmarks: [] };
+  let skipped = 0;
+
+  // Browsers disagree on where the parser puts a folder's <DL> relative to its
+  // <H3>, but it always follows it in document order. An <H3> opens a folder
+  // and the next <DL> holds its contents.
+  let pending: BookmarkFolderNode | null = null;
+
+  const walk = (element: Element, folder: BookmarkFolderNode) => {
+    for (const child of Array.from(element.children)) {
+      switch (child.tagName) {
+        case "H3": {
+          const node = newBookmarkFolder(child.textContent ?? "", parseEpochDate(child.getAttribute("add_date")));
+          folder.folders.push(node);
+          pending = node;
+          break;
+        }
+        case "DL": {
+          const target = pending ?? folder;
+          pending = null;
+          walk(child, target);
+          break;
+        }
+        case "A": {
+          // A folder heading without a list of its own is empty
+          pending = null;
+          const bookmark = makeBookmark({
+            url: child.getAttribute("href") ?? "",
+            title: child.textContent,
+            addedAt: parseEpochDate(child.getAttribute("add_date")),
+            // Firefox keeps bookmark tags
+            tags: child.getAttribute("tags")?.split(","),
+          });
+          if (bookmark) folder.bookmarks.push(bookmark);
+          else skipped++;
+          break;
+        }
+        default:
+          walk(child, folder);
+      }
+    }
+  };
+  walk(doc.body, root);
+
+  return { root, skipped };
+};
+
+export const countBookmarks = (folder: BookmarkFolderNode): number =>
+  folder.bookmarks.length + folder.folders.reduce((total, child) => total + countBookmarks(child), 0);
+
+// Lay the file's hierarchy over the vault: folders with the same name under
+// the same parent are reused, links already saved are flagged as duplicates,
+// and tags take the casing of a matching existing tag
+export const planBookmarkImport = (
+  file: ParsedBookmarkFile,
+  existingFolders: Folder[],
+  existingItems: Item[],
+  existingTags: Tag[] = []
+): BookmarkImportPlan => {
+  const folderKey = (parentId: string | null, name: string) => `${parentId ?? ""}/${name.toLowerCase()}`;
+  const existingFolderIds = new Map(
+    existingFolders.map((folder) => [folderKey(folder.parent_id ?? null, folder.name.trim()), folder.id])
+  );
+  const seenUrls = new Set(
+    existingItems.filter((item) => item.type === "link").map((item) => normalizePreviewUrl(item.content))
+  );
+
+  const tagNames = new Map(existingTags.map((tag) => [tag.name.toLowerCase(), tag.name]));
+  const tagName = (name: string) => {
+    if (!tagNames.has(name.toLowerCase())) tagNames.set(name.toLowerCase(), name);
+    return tagNames.get(name.toLowerCase())!;
+  };
+
+  const folders: BookmarkImportFolder[] = [];
+  const links: BookmarkImportLink[] = [];
+
+  const visit = (node: BookmarkFolderNode, folderId: string | null, depth: number) => {
+    node.bookmarks.forEach((bookmark) => {
+      const key = normalizePreviewUrl(bookmark.url);
+      links.push({
+        title: bookmark.title,
+        url: bookmark.url,
+        folder_id: folderId,
+        created_at: bookmark.addedAt ?? undefined,
+        description: bookmark.description,
+        thumbnail_url: bookmark.thumbnail,
+        tag_names: [...new Set((bookmark.tags ?? []).map(tagName))],
+        duplicate: seenUrls.has(key),
+      });
+      seenUrls.add(key);
+    });
+
+    node.folders.forEach((child) => {
+      const key = folderKey(folderId, child.name);
+      let id = existingFolderIds.get(key);
+      if (!id) {
+        id = crypto.randomUUID();
+        existingFolderIds.set(key, id);
+        folders.push({ id, name: child.name, parent_id: folderId, created_at: child.addedAt ?? undefined, isNew: true, depth });
+      } else if (!folders.some((folder) => folder.id === id)) {
+        folders.push({ id, name: child.name, parent_id: folderId, isNew: false, depth });
+      }
+      // Same-named folders under one parent are merged
+      visit(child, id, depth + 1);
+    });
+  };
+  visit(file.root, null, 0);
+
+  return { folders, links, skipped: file.skipped };
+};
@@ -0,0 +1,51 @@
+// Quick capture from any page: a bookmarklet opens /capture in a popup with
+// the page's address, title and selected text as query parameters.
+
+export const CAPTURE_PATH = "/capture";
+
+// Reused by every capture, so saving a second page doesn't stack popups
+const CAPTURE_WINDOW_NAME = "datavault-capture";
+const CAPTURE_WINDOW_FEATURES = "width=480,height=640,resizable=yes,scrollbars=yes";
+
+// Selected text becomes the item's description, which is capped at 500 characters
+export const SELECTION_MAX_LENGTH = 500;
+const TITLE_MAX_LENGTH = 200;
+
+export interface CaptureParams {
+  url: string;
+  title: string;
+  selection: string;
+}
+
+export const parseCaptureParams = (params: URLSearchParams): CaptureParams => ({
+  url: params.get("url")?.trim() ?? "",
+  title: (params.get("title")?.trim() ?? "").slice(0, TITLE_MAX_LENGTH),
+  selection: (params.get("selection")?.trim() ?? "").slice(0, SELECTION_MAX_LENGTH),
+});
+
+// Only web pages can be saved; the bookmarklet also runs on file:// and
+// browser pages, whose addresses mean nothing elsewhere
+export const isCapturableUrl = (url: string) => {
+  try {
+    const { protocol } = new URL(url);
+    return protocol === "http:" || protocol === "https:";
+  } catch {
+    return false;
+  }
+};
+
+// The bookmarklet's javascript: URL. When popups are blocked it opens the
+// capture page in the current tab instead.
+export const buildBookmarklet = (origin: string) => {
+  const script = `(function(){
+    var s = String(window.getSelection ? window.getSelection() : "").slice(0, ${SELECTION_MAX_LENGTH});
+    var u = ${JSON.stringify(origin + CAPTURE_PATH)}
+      + "?url=" + encodeURIComponent(location.href)
+      + "&title=" + encodeURIComponent(document.title)
+      + "&selection=" + encodeURIComponent(s);
+    var w = window.open(u, ${JSON.stringify(CAPTURE_WINDOW_NAME)}, ${JSON.stringify(CAPTURE_WINDOW_FEATURES)});
+    if (w) { w.focus(); } else { location.href = u; }
+  })();`;
+
+  return `javascript:${encodeURIComponent(script.replace(/\s*\n\s*/g, ""))}`;
+};
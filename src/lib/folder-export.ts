@@ -0,0 +1,115 @@
+import type { Folder, Item } from "@/hooks/use-items";
+import { formatLinkUrl } from "@/lib/link-preview";
+
+export type FolderExportFormat = "markdown" | "csv";
+
+const FILE_EXTENSIONS: Record<FolderExportFormat, string> = { markdown: "md", csv: "csv" };
+const MIME_TYPES: Record<FolderExportFormat, string> = {
+  markdown: "text/markdown;charset=utf-8",
+  csv: "text/csv;charset=utf-8",
+};
+
+// Uploaded files keep their metadata as JSON in `content`; export the file name
+const exportedContent = (item: Item) => {
+  if (item.file_path) {
+    try {
+      const { fileName } = JSON.parse(item.content);
+      if (fileName) return String(fileName);
+    } catch {
+      // Not file metadata
+    }
+  }
+  return item.type === "link" ? formatLinkUrl(item.content) : item.content;
+};
+
+// The folder and its subfolders, depth first, with each one's items in order
+const collectSections = (folder: Folder, items: Item[]) => {
+  const itemsByFolder = new Map<string, Item[]>();
+  items.forEach((item) => {
+    if (!item.folder_id) return;
+    if (!itemsByFolder.has(item.folder_id)) itemsByFolder.set(item.folder_id, []);
+    itemsByFolder.get(item.folder_id)!.push(item);
+  });
+
+  const sections: { folder: Folder; path: string[]; depth: number; items: Item[] }[] = [];
+  const visit = (node: Folder, nodePath: string[], depth: number) => {
+    sections.push({ folder: node, path: nodePath, depth, items: itemsByFolder.get(node.id) ?? [] });
+    node.children?.forEach((child) => visit(child, [...nodePath, child.name], depth + 1));
+  };
+  visit(folder, [folder.name], 0);
+  return sections;
+};
+
+export const countFolderExportItems = (folder: Folder, items: Item[]) =>
+  collectSections(folder, items).reduce((total, section) => total + section.items.length, 0);
+
+// Keep link text and URLs from breaking out of their Markdown syntax
+const escapeMarkdown = (text: string) => text.replace(/\s+/g, " ").replace(/([\\`*_[\]<>#|])/g, "\\$1");
+const escapeUrl = (url: string) =>
+  url.replace(/[()\s]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase().padStart(2, "0")}`);
+
+const folderToMarkdown = (folder: Folder, items: Item[]): string => {
+  const lines: string[] = [];
+
+  collectSections(folder, items).forEach(({ folder: section, depth, items: sectionItems }) => {
+    const hashes = "#".repeat(Math.min(depth + 1, 6));
+    lines.push(`${hashes} ${escapeMarkdown(section.name)}`, "");
+    if (section.description) lines.push(escapeMarkdown(section.description), "");
+
+    // Links, images and videos read best as a list; notes get their own heading
+    const listed = sectionItems.filter((item) => item.type !== "note");
+    const notes = sectionItems.filter((item) => item.type === "note");
+
+    listed.forEach((item) => {
+      const content = exportedContent(item);
+      const title = escapeMarkdown(item.title);
+      const entry = /^https?:\/\//i.test(content) ? `[${title}](${escapeUrl(content)})` : `${title} (${escapeMarkdown(content)})`;
+      lines.push(item.description ? `- ${entry} — ${escapeMarkdown(item.description)}` : `- ${entry}`);
+    });
+    if (listed.length > 0) lines.push("");
+
+    notes.forEach((item) => {
+      lines.push(`${"#".repeat(Math.min(depth + 2, 6))} ${escapeMarkdown(item.title)}`, "");
+      if (item.description) lines.push(`_${escapeMarkdown(item.description)}_`, "");
+      // Note bodies are the user's own text, so they go out as written
+      lines.push(item.content.trim(), "");
+    });
+  });
+
+  return `${lines.join("\n").trim()}\n`;
+};
+
+const CSV_COLUMNS = ["title", "type", "content", "description", "created_at", "folder"] as const;
+
+const escapeCsv = (value: string) => {
+  // Spreadsheet apps run cells starting with these as formulas
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+const folderToCsv = (folder: Folder, items: Item[]): string => {
+  const rows = collectSections(folder, items).flatMap(({ path, items: sectionItems }) =>
+    sectionItems.map((item) => [
+      item.title,
+      item.type,
+      exportedContent(item),
+      item.description ?? "",
+      item.created_at ?? "",
+      path.join(" / "),
+    ])
+  );
+
+  // The byte order mark makes Excel read the file as UTF-8
+  return `\uFEFF${[CSV_COLUMNS, ...rows].map((row) => row.map(escapeCsv).join(",")).join("\r\n")}\r\n`;
+};
+
+// A folder and everything below it as a Markdown outline or a flat CSV.
+// `items` decides what's included, so pass filtered items to export a search.
+export const buildFolderExport = (folder: Folder, items: Item[], format: FolderExportFormat) => {
+  const slug = folder.name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
+  return {
+    fileName: `${slug || "folder"}.${FILE_EXTENSIONS[format]}`,
+    content: format === "markdown" ? folderToMarkdown(folder, items) : folderToCsv(folder, items),
+    type: MIME_TYPES[format],
+  };
+};
@@ -0,0 +1,247 @@
+import {
+  BookmarkFolderNode,
+  ParsedBookmarkFile,
+  getBookmarkFolder,
+  makeBookmark,
+  newBookmarkFolder,
+  parseBookmarksHtml,
+  parseEpochDate,
+} from "@/lib/bookmarks-import";
+
+// Files we can import bookmarks from, and how each one's fields land in the vault
+
+export type ImportSource = "browser" | "pocket" | "raindrop" | "instapaper";
+
+export interface ImportSourceInfo {
+  label: string;
+  accept: string; // For the file input
+  instructions: string;
+  // Shown before importing: source field -> where it ends up
+  mapping: { from: string; to: string }[];
+  parse: (text: string) => ParsedBookmarkFile;
+}
+
+export class ImportFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImportFormatError";
+  }
+}
+
+// RFC 4180 CSV: quoted fields may hold commas, quotes ("") and line breaks
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  const input = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+};
+
+// CSV rows as objects keyed by lowercased header, after checking the headers
+// the format needs are there
+const readCsvRecords = (text: string, required: string[], formatName: string) => {
+  const [header, ...rows] = parseCsv(text);
+  const columns = (header ?? []).map((name) => name.trim().toLowerCase());
+  const missing = required.filter((name) => !columns.includes(name));
+  if (missing.length > 0) {
+    throw new ImportFormatError(`This doesn't look like a ${formatName} export (missing ${missing.join(", ")} column).`);
+  }
+  return rows.map((cells) => Object.fromEntries(columns.map((name, index) => [name, cells[index] ?? ""])));
+};
+
+const parseIsoDate = (value: string) => {
+  const date = value ? new Date(value) : null;
+  return date && !isNaN(date.getTime()) ? date.toISOString() : null;
+};
+
+const splitList = (value: string, separator: string) => value.split(separator).map((item) => item.trim()).filter(Boolean);
+
+// Pocket's archive is kept apart from the reading list, as in Pocket itself
+const ARCHIVE_FOLDER = "Archive";
+
+const collect = (records: Record<string, string>[], place: (record: Record<string, string>, root: BookmarkFolderNode) => boolean) => {
+  const root = newBookmarkFolder("");
+  let skipped = 0;
+  records.forEach((record) => {
+    if (!place(record, root)) skipped++;
+  });
+  return { root, skipped };
+};
+
+// Pocket's classic export (ril_export.html): an <h1> per list ("Unread",
+// "Read Archive") followed by a <ul> of links with time_added and tags
+const parsePocketHtml = (html: string): ParsedBookmarkFile => {
+  const doc = new DOMParser().parseFromString(html, "text/html");
+  const root = newBookmarkFolder("");
+  let skipped = 0;
+  let section = "";
+
+  doc.body.querySelectorAll("h1, a[href]").forEach((element) => {
+    if (element.tagName === "H1") {
+      section = element.textContent?.trim().toLowerCase() ?? "";
+      return;
+    }
+    const bookmark = makeBookmark({
+      url: element.getAttribute("href") ?? "",
+      title: element.textContent,
+      addedAt: parseEpochDate(element.getAttribute("time_added")),
+      tags: splitList(element.getAttribute("tags") ?? "", ","),
+    });
+    if (!bookmark) {
+      skipped++;
+      return;
+    }
+    const folder = section.includes("archive") ? getBookmarkFolder(root, [ARCHIVE_FOLDER]) : root;
+    folder.bookmarks.push(bookmark);
+  });
+
+  return { root, skipped };
+};
+
+// Pocket's newer CSV export: title, url, time_added, tags (pipe separated), status
+const parsePocketCsv = (text: string): ParsedBookmarkFile =>
+  collect(readCsvRecords(text, ["url", "time_added"], "Pocket"), (record, root) => {
+    const bookmark = makeBookmark({
+      url: record.url,
+      title: record.title,
+      addedAt: parseEpochDate(record.time_added),
+      tags: splitList(record.tags, "|"),
+    });
+    if (!bookmark) return false;
+    const folder = record.status === "archive" ? getBookmarkFolder(root, [ARCHIVE_FOLDER]) : root;
+    folder.bookmarks.push(bookmark);
+    return true;
+  });
+
+// Raindrop.io CSV: id, title, note, excerpt, url, folder, tags, created, cover, ...
+// Nested collections come through as "Parent/Child"
+const parseRaindropCsv = (text: string): ParsedBookmarkFile =>
+  collect(readCsvRecords(text, ["url", "title", "folder"], "Raindrop.io"), (record, root) => {
+    const bookmark = makeBookmark({
+      url: record.url,
+      title: record.title,
+      addedAt: parseIsoDate(record.created),
+      description: record.note || record.excerpt,
+      tags: splitList(record.tags, ","),
+      thumbnail: record.cover,
+    });
+    if (!bookmark) return false;
+    const path = record.folder === "Unsorted" ? [] : splitList(record.folder, "/");
+    getBookmarkFolder(root, path).bookmarks.push(bookmark);
+    return true;
+  });
+
+// Instapaper CSV: URL, Title, Selection, Folder, Timestamp and, in newer
+// exports, Tags as a JSON array
+const parseInstapaperTags = (value: string) => {
+  if (!value) return [];
+  try {
+    const tags = JSON.parse(value);
+    return Array.isArray(tags) ? tags.map(String) : [];
+  } catch {
+    return splitList(value, ",");
+  }
+};
+
+const parseInstapaperCsv = (text: string): ParsedBookmarkFile =>
+  collect(readCsvRecords(text, ["url", "title", "folder"], "Instapaper"), (record, root) => {
+    const bookmark = makeBookmark({
+      url: record.url,
+      title: record.title,
+      addedAt: parseEpochDate(record.timestamp),
+      description: record.selection,
+      tags: parseInstapaperTags(record.tags),
+    });
+    if (!bookmark) return false;
+    // Unread is the reading list itself; Archive, Starred and custom folders are kept
+    const path = !record.folder || record.folder === "Unread" ? [] : [record.folder];
+    getBookmarkFolder(root, path).bookmarks.push(bookmark);
+    return true;
+  });
+
+const looksLikeHtml = (text: string) => /^\s*(<!DOCTYPE|<html|<head|<body|<h1|<ul)/i.test(text);
+
+export const IMPORT_SOURCES: Record<ImportSource, ImportSourceInfo> = {
+  browser: {
+    label: "Browser bookmarks",
+    accept: ".html,.htm,text/html",
+    instructions: "Export your bookmarks from Chrome, Firefox, Safari or Edge as an HTML file.",
+    mapping: [
+      { from: "Bookmark folders", to: "Folders" },
+      { from: "Tags (Firefox)", to: "Tags" },
+      { from: "Date added", to: "Created date" },
+    ],
+    parse: parseBookmarksHtml,
+  },
+  pocket: {
+    label: "Pocket",
+    accept: ".html,.htm,.csv,text/html,text/csv",
+    instructions: "Use the HTML or CSV file from Pocket's export page.",
+    mapping: [
+      { from: "Unread list", to: "No folder" },
+      { from: "Archive", to: `"${ARCHIVE_FOLDER}" folder` },
+      { from: "Tags", to: "Tags" },
+      { from: "Time added", to: "Created date" },
+    ],
+    parse: (text) => (looksLikeHtml(text) ? parsePocketHtml(text) : parsePocketCsv(text)),
+  },
+  raindrop: {
+    label: "Raindrop.io",
+    accept: ".csv,text/csv",
+    instructions: "Export a collection or all bookmarks from Raindrop.io as CSV.",
+    mapping: [
+      { from: "Collections", to: "Folders (nested)" },
+      { from: "Unsorted", to: "No folder" },
+      { from: "Tags", to: "Tags" },
+      { from: "Note, or excerpt", to: "Description" },
+      { from: "Cover", to: "Thumbnail" },
+      { from: "Created", to: "Created date" },
+    ],
+    parse: parseRaindropCsv,
+  },
+  instapaper: {
+    label: "Instapaper",
+    accept: ".csv,text/csv",
+    instructions: "Use the CSV file from Instapaper's export settings.",
+    mapping: [
+      { from: "Unread", to: "No folder" },
+      { from: "Archive, Starred and your folders", to: "Folders" },
+      { from: "Tags", to: "Tags" },
+      { from: "Selection", to: "Description" },
+      { from: "Timestamp", to: "Created date" },
+    ],
+    parse: parseInstapaperCsv,
+  },
+};
@@ -0,0 +1,14 @@
+// Results of the scheduled dead-link checker (check-links edge function),
+// stored per item in item_link_checks.
+export type LinkStatus = "ok" | "moved" | "broken" | "unknown";
+
+export interface LinkCheck {
+  status: LinkStatus;
+  http_status: number | null;
+  final_url: string | null;
+  checked_at: string;
+}
+
+// Dead links, and moved ones that can be fixed with one click
+export const needsLinkAttention = (check?: LinkCheck | null) =>
+  check?.status === "broken" || (check?.status === "moved" && !!check.final_url);
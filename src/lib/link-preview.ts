@@ -0,0 +1,168 @@
+export type StructuredDataType = "recipe" | "product" | "event" | "article";
+
+// Typed summary of a page's schema.org data (JSON-LD or microdata).
+// Keep in sync with supabase/functions/fetch-link-preview/structured.ts.
+export type StructuredData = {
+  type: StructuredDataType;
+  author?: string;
+  published_at?: string;
+  price?: number;
+  currency?: string;
+  rating?: number;
+  rating_count?: number;
+  event_start?: string;
+  event_end?: string;
+  event_location?: string;
+  recipe_yield?: string;
+  total_time?: number; // Minutes
+};
+
+// Link preview metadata as returned by the fetch-link-preview edge function
+// and stored in the link_previews table.
+export interface LinkPreview {
+  title: string | null;
+  description: string | null;
+  image: string | null;
+  domain: string;
+  url: string;
+  icon?: string | null;
+  canonical_url?: string | null;
+  site_name?: string | null;
+  published_time?: string | null;
+  og_type?: string | null;
+  structured?: StructuredData | null;
+  // oEmbed enrichment, when the site supports it
+  html?: string | null;
+  author_name?: string | null;
+  provider_name?: string | null;
+  thumbnail_width?: number | null;
+  thumbnail_height?: number | null;
+  duration?: number | null; // Seconds
+}
+
+export type LinkPreviewStatus = "ok" | "failed" | "unsupported";
+
+// Error codes returned by fetch-link-preview as { success: false, error: { code, message } }
+export type LinkPreviewErrorCode =
+  | "INVALID_REQUEST"
+  | "INVALID_URL"
+  | "UNSUPPORTED_SCHEME"
+  | "BLOCKED_ADDRESS"
+  | "DNS_FAILURE"
+  | "CONNECTION_REFUSED"
+  | "TOO_MANY_REDIRECTS"
+  | "TIMEOUT"
+  | "FETCH_FAILED"
+  | "HTTP_ERROR"
+  | "UNSUPPORTED_CONTENT"
+  | "NO_ARTICLE"
+  | "NOT_FOUND"
+  | "UNAUTHORIZED"
+  | "FORBIDDEN"
+  | "RATE_LIMITED"
+  | "INTERNAL";
+
+export class LinkPreviewError extends Error {
+  code: LinkPreviewErrorCode;
+  retryAfter?: number; // Seconds, for RATE_LIMITED
+
+  constructor(code: LinkPreviewErrorCode, message: string, retryAfter?: number) {
+    super(message);
+    this.name = "LinkPreviewError";
+    this.code = code;
+    this.retryAfter = retryAfter;
+  }
+}
+
+// Failures that describe the link itself, so retrying soon won't help. Others,
+// such as RATE_LIMITED, only say the preview couldn't be fetched right now.
+const LINK_FAILURE_CODES: LinkPreviewErrorCode[] = [
+  "INVALID_URL",
+  "UNSUPPORTED_SCHEME",
+  "BLOCKED_ADDRESS",
+  "DNS_FAILURE",
+  "CONNECTION_REFUSED",
+  "TOO_MANY_REDIRECTS",
+  "TIMEOUT",
+  "FETCH_FAILED",
+  "HTTP_ERROR",
+  "UNSUPPORTED_CONTENT",
+];
+
+export const isLinkFailure = (error: unknown): boolean =>
+  error instanceof LinkPreviewError && LINK_FAILURE_CODES.includes(error.code);
+
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|mc_cid|mc_eid)$/i;
+
+export const formatLinkUrl = (input: string): string => {
+  const trimmed = input.trim();
+  return /^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+};
+
+export const getLinkDomain = (input: string): string => {
+  try {
+    return new URL(formatLinkUrl(input)).hostname.replace("www.", "");
+  } catch {
+    return input;
+  }
+};
+
+// Cache key for a link: no fragment, no tracking parameters, sorted query.
+// Keep in sync with supabase/functions/fetch-link-preview.
+export const normalizePreviewUrl = (input: string): string => {
+  const formatted = formatLinkUrl(input);
+  try {
+    const url = new URL(formatted);
+    url.hash = "";
+    [...url.searchParams.keys()]
+      .filter((key) => TRACKING_PARAMS.test(key))
+      .forEach((key) => url.searchParams.delete(key));
+    url.searchParams.sort();
+    return url.href;
+  } catch {
+    return formatted;
+  }
+};
+
+// Players we're willing to embed from oEmbed markup. Anything else (including
+// script-based embeds) is shown as a regular card.
+const EMBED_HOSTS = /(^|\.)(youtube\.com|youtube-nocookie\.com|player\.vimeo\.com|open\.spotify\.com|w\.soundcloud\.com|tiktok\.com|codepen\.io)$/i;
+
+// Extract a safe iframe src from oEmbed html; the markup itself is never rendered
+export const getEmbedSrc = (html?: string | null): string | null => {
+  if (!html) return null;
+  const iframe = new DOMParser().parseFromString(html, "text/html").querySelector("iframe[src]");
+  const src = iframe?.getAttribute("src");
+  if (!src) return null;
+  try {
+    const url = new URL(src, "https://example.invalid");
+    return url.protocol === "https:" && EMBED_HOSTS.test(url.hostname) ? url.href : null;
+  } catch {
+    return null;
+  }
+};
+
+// 75 -> "1:15", 3725 -> "1:02:05"
+export const formatDuration = (seconds: number): string => {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = Math.floor(seconds % 60).toString().padStart(2, "0");
+  return h > 0 ? `${h}:${m.toString().padStart(2, "0")}:${s}` : `${m}:${s}`;
+};
+
+// 90 -> "1h 30m", 45 -> "45m"
+export const formatMinutes = (minutes: number): string => {
+  const h = Math.floor(minutes / 60);
+  const m = Math.round(minutes % 60);
+  return h > 0 ? (m > 0 ? `${h}h ${m}m` : `${h}h`) : `${m}m`;
+};
+
+export const formatPrice = (price: number, currency?: string): string => {
+  if (!currency) return price.toLocaleString();
+  try {
+    return new Intl.NumberFormat(undefined, { style: "currency", currency }).format(price);
+  } catch {
+    // Not an ISO 4217 code
+    return `${price.toLocaleString()} ${currency}`;
+  }
+};
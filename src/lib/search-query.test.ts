@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import {
+  hasFieldOperators,
+  isValidSearchDate,
+  parseSearchQuery,
+  quoteSearchValue,
+  toFullTextQuery,
+} from "./search-query";
+
+describe("parseSearchQuery", () => {
+  it("reads words, phrases and negations", () => {
+    const { nodes, errors } = parseSearchQuery('react "state management" -draft');
+
+    expect(errors).toEqual([]);
+    expect(nodes).toEqual([
+      { kind: "text", value: "react", negated: false, start: 0, end: 5 },
+      { kind: "phrase", value: "state management", negated: false, start: 6, end: 24 },
+      { kind: "text", value: "draft", negated: true, start: 25, end: 31 },
+    ]);
+  });
+
+  it("reads operators with bare and quoted values", () => {
+    const { nodes, errors } = parseSearchQuery('type:LINK folder:"Reading List" -tag:old domain:GitHub.com');
+
+    expect(errors).toEqual([]);
+    expect(nodes).toMatchObject([
+      { kind: "field", field: "type", value: "link", negated: false },
+      { kind: "field", field: "folder", value: "Reading List", negated: false },
+      { kind: "field", field: "tag", value: "old", negated: true },
+      { kind: "field", field: "domain", value: "github.com", negated: false },
+    ]);
+  });
+
+  it("keeps URLs as text rather than operators", () => {
+    const { nodes, errors } = parseSearchQuery("https://example.com/page");
+
+    expect(errors).toEqual([]);
+    expect(nodes).toEqual([{ kind: "text", value: "https://example.com/page", negated: false, start: 0, end: 24 }]);
+  });
+
+  it("treats a lone dash as a word", () => {
+    expect(parseSearchQuery("a - b").nodes.map((node) => [node.value, node.negated])).toEqual([
+      ["a", false],
+      ["-", false],
+      ["b", false],
+    ]);
+  });
+
+  it("reports unusable operators and drops them", () => {
+    const { nodes, errors } = parseSearchQuery("color:red type:movie before:2026-02-30 tag: domain:a/b");
+
+    expect(nodes).toEqual([]);
+    expect(errors.map((error) => error.message)).toEqual([
+      'Unknown operator "color:"',
+      'Unknown type "movie". Use link, image, video, note',
+      'Invalid date "2026-02-30". Use YYYY-MM-DD',
+      '"tag:" needs a value',
+      'Invalid domain "a/b"',
+    ]);
+    expect(errors[0]).toMatchObject({ start: 0, end: 9 });
+  });
+
+  it("reports unterminated quotes but keeps what was typed", () => {
+    const { nodes, errors } = parseSearchQuery('"half a phrase');
+
+    expect(nodes).toEqual([{ kind: "phrase", value: "half a phrase", negated: false, start: 0, end: 14 }]);
+    expect(errors).toEqual([{ message: "Missing closing quote", start: 0, end: 14 }]);
+  });
+
+  it("ignores empty phrases", () => {
+    expect(parseSearchQuery('""  " "').nodes).toEqual([]);
+  });
+});
+
+describe("toFullTextQuery", () => {
+  it("rebuilds the free text in web search syntax without operators", () => {
+    const { nodes } = parseSearchQuery('tag:work react -"class components" -draft');
+
+    expect(toFullTextQuery(nodes)).toBe('react -"class components" -draft');
+    expect(hasFieldOperators(nodes)).toBe(true);
+  });
+
+  it("is empty for operators alone", () => {
+    const { nodes } = parseSearchQuery("type:note");
+
+    expect(toFullTextQuery(nodes)).toBe("");
+  });
+});
+
+describe("isValidSearchDate", () => {
+  it("accepts real calendar dates only", () => {
+    expect(isValidSearchDate("2024-02-29")).toBe(true);
+    expect(isValidSearchDate("2023-02-29")).toBe(false);
+    expect(isValidSearchDate("2024-2-1")).toBe(false);
+  });
+});
+
+describe("quoteSearchValue", () => {
+  it("quotes values that aren't a single word", () => {
+    expect(quoteSearchValue("work")).toBe("work");
+    expect(quoteSearchValue("Reading List")).toBe('"Reading List"');
+    expect(quoteSearchValue('say "hi"')).toBe('"say hi"');
+  });
+});
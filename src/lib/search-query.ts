@@ -0,0 +1,174 @@
+// Parser for the Dashboard search box query language, e.g.
+//   type:link tag:research folder:"Reading List" before:2026-01-01 domain:github.com "exact phrase" -draft
+
+export const SEARCH_OPERATORS = [
+  { field: "type", description: "Item type: link, image, video or note", example: "type:link" },
+  { field: "tag", description: "Items with a tag", example: "tag:research" },
+  { field: "folder", description: "Items in a folder or its subfolders", example: 'folder:"Reading List"' },
+  { field: "before", description: "Saved before a date", example: "before:2026-01-01" },
+  { field: "after", description: "Saved after a date", example: "after:2025-06-30" },
+  { field: "domain", description: "Links from a website", example: "domain:github.com" },
+] as const;
+
+export type SearchField = (typeof SEARCH_OPERATORS)[number]["field"];
+
+export const ITEM_TYPES = ["link", "image", "video", "note"] as const;
+
+interface BaseNode {
+  negated: boolean;
+  start: number;
+  end: number;
+}
+
+export type SearchNode =
+  | (BaseNode & { kind: "text"; value: string })
+  | (BaseNode & { kind: "phrase"; value: string })
+  | (BaseNode & { kind: "field"; field: SearchField; value: string });
+
+export interface SearchQueryError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+export interface ParsedSearchQuery {
+  nodes: SearchNode[];
+  errors: SearchQueryError[];
+}
+
+const FIELD_NAMES = SEARCH_OPERATORS.map((op) => op.field) as string[];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const isSearchField = (name: string): name is SearchField => FIELD_NAMES.includes(name);
+
+export const isValidSearchDate = (value: string) => {
+  if (!DATE_PATTERN.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+};
+
+// Read a double-quoted string starting at `start` (the opening quote).
+// Returns the unquoted value and the index just past the closing quote.
+const readQuoted = (input: string, start: number) => {
+  const close = input.indexOf('"', start + 1);
+  if (close === -1) {
+    return { value: input.slice(start + 1), end: input.length, terminated: false };
+  }
+  return { value: input.slice(start + 1, close), end: close + 1, terminated: true };
+};
+
+const readWord = (input: string, start: number) => {
+  let end = start;
+  while (end < input.length && !/\s/.test(input[end])) end++;
+  return { value: input.slice(start, end), end };
+};
+
+// Validate an operator value, returning an error message if it is unusable
+const validateField = (field: SearchField, value: string): string | null => {
+  if (!value) return `"${field}:" needs a value`;
+  switch (field) {
+    case "type":
+      return (ITEM_TYPES as readonly string[]).includes(value.toLowerCase())
+        ? null
+        : `Unknown type "${value}". Use ${ITEM_TYPES.join(", ")}`;
+    case "before":
+    case "after":
+      return isValidSearchDate(value) ? null : `Invalid date "${value}". Use YYYY-MM-DD`;
+    case "domain":
+      return /^[a-z0-9.-]+$/i.test(value) ? null : `Invalid domain "${value}"`;
+    default:
+      return null;
+  }
+};
+
+export const parseSearchQuery = (input: string): ParsedSearchQuery => {
+  const nodes: SearchNode[] = [];
+  const errors: SearchQueryError[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    const negated = input[i] === "-" && i + 1 < input.length && !/\s/.test(input[i + 1]);
+    if (negated) i++;
+
+    // "exact phrase"
+    if (input[i] === '"') {
+      const quoted = readQuoted(input, i);
+      i = quoted.end;
+      if (!quoted.terminated) {
+        errors.push({ message: "Missing closing quote", start, end: i });
+      }
+      const value = quoted.value.trim();
+      if (value) nodes.push({ kind: "phrase", value, negated, start, end: i });
+      continue;
+    }
+
+    // operator:value or operator:"quoted value"
+    const operator = /^([a-z]+):/i.exec(input.slice(i));
+    if (operator && !input.startsWith("//", i + operator[0].length)) {
+      const name = operator[1].toLowerCase();
+      const valueStart = i + operator[0].length;
+
+      let value: string;
+      if (input[valueStart] === '"') {
+        const quoted = readQuoted(input, valueStart);
+        i = quoted.end;
+        value = quoted.value.trim();
+        if (!quoted.terminated) {
+          errors.push({ message: "Missing closing quote", start, end: i });
+        }
+      } else {
+        const word = readWord(input, valueStart);
+        i = word.end;
+        value = word.value;
+      }
+
+      if (!isSearchField(name)) {
+        errors.push({ message: `Unknown operator "${name}:"`, start, end: i });
+        continue;
+      }
+
+      const error = validateField(name, value);
+      if (error) {
+        errors.push({ message: error, start, end: i });
+        continue;
+      }
+
+      nodes.push({
+        kind: "field",
+        field: name,
+        value: name === "type" || name === "domain" ? value.toLowerCase() : value,
+        negated,
+        start,
+        end: i,
+      });
+      continue;
+    }
+
+    const word = readWord(input, i);
+    i = word.end;
+    nodes.push({ kind: "text", value: word.value, negated, start, end: i });
+  }
+
+  return { nodes, errors };
+};
+
+// Rebuild the free-text part of a query in web search syntax for full-text search
+export const toFullTextQuery = (nodes: SearchNode[]) =>
+  nodes
+    .filter((node) => node.kind === "text" || node.kind === "phrase")
+    .map((node) => {
+      const term = node.kind === "phrase" ? `"${node.value.replace(/"/g, "")}"` : node.value;
+      return node.negated ? `-${term}` : term;
+    })
+    .join(" ");
+
+export const hasFieldOperators = (nodes: SearchNode[]) => nodes.some((node) => node.kind === "field");
+
+// Quote a value if it would not survive as a single bare word
+export const quoteSearchValue = (value: string) => (/[\s"]/.test(value) ? `"${value.replace(/"/g, "")}"` : value);
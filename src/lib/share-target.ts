@@ -0,0 +1,96 @@
+// Content shared to the installed app from another app's share sheet. The
+// service worker (public/sw.js) stores it in IndexedDB and opens
+// /dashboard?share=<id>, where it prefills a new item.
+
+// Must match public/sw.js
+const SHARE_DB_NAME = "vault-share-target";
+const SHARE_STORE_NAME = "shares";
+
+// URL parameter carrying the id of a stored share
+export const SHARE_PARAM = "share";
+
+export interface SharedContent {
+  title: string;
+  text: string;
+  url: string;
+  files: File[];
+}
+
+// How a share becomes a new item, matching the add dialog's modes
+export interface SharedItemDraft {
+  mode: "link" | "note" | "file";
+  title: string;
+  content: string;
+  file?: File;
+}
+
+const TITLE_MAX_LENGTH = 200;
+const URL_PATTERN = /https?:\/\/[^\s<>"]+/i;
+
+const openShareDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(SHARE_DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(SHARE_STORE_NAME);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Read a stored share and delete it, so reloading doesn't offer it again
+export const takeSharedContent = async (id: string): Promise<SharedContent | null> => {
+  const db = await openShareDatabase();
+  try {
+    return await new Promise<SharedContent | null>((resolve, reject) => {
+      const store = db.transaction(SHARE_STORE_NAME, "readwrite").objectStore(SHARE_STORE_NAME);
+      const request = store.get(id);
+      request.onsuccess = () => {
+        store.delete(id);
+        resolve((request.result as SharedContent | undefined) ?? null);
+      };
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+const truncate = (value: string, length: number) =>
+  value.length > length ? `${value.slice(0, length - 1).trimEnd()}…` : value;
+
+// Files win over links, and links over text. Many apps put the link in the
+// text field rather than url, often after the page title.
+export const draftFromSharedContent = ({ title, text, url, files }: SharedContent): SharedItemDraft => {
+  const sharedTitle = title.trim();
+
+  const [file] = files;
+  if (file) {
+    return {
+      mode: "file",
+      title: truncate(sharedTitle || file.name.replace(/\.[^/.]+$/, ""), TITLE_MAX_LENGTH),
+      content: "",
+      file,
+    };
+  }
+
+  const link = url.trim() || text.match(URL_PATTERN)?.[0];
+  if (link) {
+    const rest = text.replace(link, "").trim();
+    let fallbackTitle = link;
+    try {
+      fallbackTitle = new URL(link).hostname.replace(/^www\./, "");
+    } catch {
+      // Not a parseable URL; keep it as the title
+    }
+    return {
+      mode: "link",
+      title: truncate(sharedTitle || rest.split("\n")[0].trim() || fallbackTitle, TITLE_MAX_LENGTH),
+      content: link,
+    };
+  }
+
+  const note = text.trim();
+  return {
+    mode: "note",
+    title: truncate(sharedTitle || note.split("\n")[0].trim() || "Shared note", TITLE_MAX_LENGTH),
+    content: note,
+  };
+};
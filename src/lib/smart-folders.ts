@@ -0,0 +1,15 @@
+import { Bookmark, Clock, Flame, Heart, Search, Sparkles, Star, Zap, type LucideIcon } from "lucide-react";
+
+// Icons a smart folder can use, keyed by the name stored in saved_searches.icon
+export const SMART_FOLDER_ICONS: Record<string, LucideIcon> = {
+  sparkles: Sparkles,
+  star: Star,
+  bookmark: Bookmark,
+  zap: Zap,
+  search: Search,
+  heart: Heart,
+  flame: Flame,
+  clock: Clock,
+};
+
+export const getSmartFolderIcon = (name: string): LucideIcon => SMART_FOLDER_ICONS[name] ?? Sparkles;
@@ -4,3 +4,15 @@ import { twMerge } from "tailwind-merge";
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+// Save generated content through the browser's download prompt
+export function downloadFile(fileName: string, content: BlobPart, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // The browser reads the blob after click() returns, and revoking the URL
+  // before it has started cancels the download, so keep it around a while
+  setTimeout(() => URL.revokeObjectURL(url), 60_000);
+}
@@ -21,8 +21,13 @@ const authSchema = z.object({
   confirmPassword: z.string().optional(),
 });
 
+// Where to go after signing in: a path in this app, e.g. back to /capture
+const getRedirectPath = (redirect: string | null) =>
+  redirect && redirect.startsWith("/") && !redirect.startsWith("//") ? redirect : "/dashboard";
+
 const Auth = () => {
   const [searchParams] = useSearchParams();
+  const redirectPath = getRedirectPath(searchParams.get("redirect"));
   const [isLogin, setIsLogin] = useState(!searchParams.get("signup"));
   const [loading, setLoading] = useState(false);
   const [email, setEmail] = useState("");
@@ -39,18 +44,18 @@ const Auth = () => {
   useEffect(() => {
     supabase.auth.getSession().then(({ data: { session } }) => {
       if (session) {
-        navigate("/dashboard");
+        navigate(redirectPath);
       }
     });
 
     const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
       if (session) {
-        navigate("/dashboard");
+        navigate(redirectPath);
       }
     });
 
     return () => subscription.unsubscribe();
-  }, [navigate]);
+  }, [navigate, redirectPath]);
 
   const handleForgotPassword = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -0,0 +1,203 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link, useLocation, useNavigate, useSearchParams } from "react-router-dom";
+import { Check, Link2Off, Loader2, Sparkles } from "lucide-react";
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import LinkPreviewCard from "@/components/LinkPreviewCard";
+import { useToast } from "@/hooks/use-toast";
+import { useCreateItem, useFolders } from "@/hooks/use-items";
+import { getFolderRole, useFolderMembers } from "@/hooks/use-folder-members";
+import { useLinkPreview } from "@/hooks/use-link-preview";
+import { SELECTION_MAX_LENGTH, isCapturableUrl, parseCaptureParams } from "@/lib/capture";
+
+const captureSchema = z.object({
+  title: z.string().trim().min(1, "Title is required").max(200, "Title must be less than 200 characters"),
+  description: z.string().max(SELECTION_MAX_LENGTH, `Note must be less than ${SELECTION_MAX_LENGTH} characters`).optional(),
+});
+
+// How long the saved state shows before the popup closes itself
+const CLOSE_DELAY = 800;
+
+// Compact save form opened by the bookmarklet (/capture?url=&title=&selection=)
+const Capture = () => {
+  const [searchParams] = useSearchParams();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const captured = useMemo(() => parseCaptureParams(searchParams), [searchParams]);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [title, setTitle] = useState(captured.title);
+  const [description, setDescription] = useState(captured.selection);
+  const [folderId, setFolderId] = useState("none");
+  const [saved, setSaved] = useState(false);
+  const createItem = useCreateItem();
+  const { data: folders = [] } = useFolders();
+  const { data: folderMembers = [] } = useFolderMembers();
+  const { data: preview } = useLinkPreview(isCapturableUrl(captured.url) ? captured.url : null);
+
+  // Items can only go into folders the user can edit
+  const editableFolders = userId
+    ? folders.filter((folder) => getFolderRole(folder.id, folders, folderMembers, userId) !== "viewer")
+    : [];
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      if (!session) {
+        // Come back here, with the page still attached, after signing in
+        navigate(`/auth?redirect=${encodeURIComponent(location.pathname + location.search)}`, { replace: true });
+      } else {
+        setUserId(session.user.id);
+      }
+    });
+  }, [navigate, location.pathname, location.search]);
+
+  // Pages without a title (or bookmarklets on odd pages) borrow the preview's
+  useEffect(() => {
+    if (preview?.title) setTitle((current) => current || preview.title.slice(0, 200));
+  }, [preview?.title]);
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!userId) return;
+
+    const validation = captureSchema.safeParse({ title, description: description.trim() || undefined });
+    if (!validation.success) {
+      toast({
+        title: "Validation Error",
+        description: validation.error.errors[0].message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    createItem.mutate({
+      id: crypto.randomUUID(),
+      user_id: userId,
+      title: validation.data.title,
+      description: validation.data.description,
+      type: "link",
+      content: captured.url,
+      folder_id: folderId === "none" ? undefined : folderId,
+    }, {
+      onSuccess: () => {
+        setSaved(true);
+        // Browsers only let scripts close windows they opened, i.e. the popup
+        setTimeout(() => window.close(), CLOSE_DELAY);
+      },
+    });
+  };
+
+  if (!isCapturableUrl(captured.url)) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-6">
+        <div className="max-w-xs text-center space-y-3">
+          <div className="w-12 h-12 rounded-xl bg-muted flex items-center justify-center mx-auto">
+            <Link2Off className="w-6 h-6 text-muted-foreground" />
+          </div>
+          <h1 className="text-lg font-semibold">Nothing to save</h1>
+          <p className="text-sm text-muted-foreground">
+            Use the DataVault bookmarklet on a web page to save it here.
+          </p>
+          <Button variant="outline" asChild>
+            <Link to="/settings">Get the Bookmarklet</Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (saved) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-6">
+        <div className="max-w-xs text-center space-y-3">
+          <div className="w-12 h-12 rounded-xl bg-primary/10 flex items-center justify-center mx-auto">
+            <Check className="w-6 h-6 text-primary" />
+          </div>
+          <h1 className="text-lg font-semibold">Saved to your vault</h1>
+          <p className="text-sm text-muted-foreground">You can close this window.</p>
+          <Button variant="outline" asChild>
+            <Link to="/dashboard">Open Dashboard</Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="flex items-center gap-2 px-4 h-12 border-b border-border/50">
+        <div className="w-7 h-7 rounded-lg bg-gradient-to-br from-primary to-primary/80 flex items-center justify-center">
+          <Sparkles className="w-4 h-4 text-primary-foreground" />
+        </div>
+        <h1 className="text-sm font-semibold">Save to DataVault</h1>
+      </header>
+
+      <form onSubmit={handleSave} className="p-4 space-y-4">
+        <LinkPreviewCard url={captured.url} />
+
+        <div className="space-y-2">
+          <Label htmlFor="capture-title">Title</Label>
+          <Input
+            id="capture-title"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            disabled={createItem.isPending}
+            autoFocus
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="capture-description">Note</Label>
+          <Textarea
+            id="capture-description"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="Why it's worth keeping (optional)"
+            rows={3}
+            disabled={createItem.isPending}
+          />
+        </div>
+
+        {editableFolders.length > 0 && (
+          <div className="space-y-2">
+            <Label>Folder</Label>
+            <Select value={folderId} onValueChange={setFolderId} disabled={createItem.isPending}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">No Folder</SelectItem>
+                {editableFolders.map((folder) => (
+                  <SelectItem
+                    key={folder.id}
+                    value={folder.id}
+                    style={{ paddingLeft: `${2 + (folder.depth || 0) * 0.75}rem` }}
+                  >
+                    {folder.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <Button type="button" variant="outline" className="flex-1" onClick={() => window.close()}>
+            Cancel
+          </Button>
+          <Button type="submit" className="flex-1" disabled={!userId || !title.trim() || createItem.isPending}>
+            {createItem.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default Capture;
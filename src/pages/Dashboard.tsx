@@ -1,19 +1,27 @@
-import { useState, useEffect, useMemo } from "react";
-import { useNavigate } from "react-router-dom";
+import { useState, useEffect, useMemo, Fragment } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { onlineManager } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { 
   Loader2, 
   LogOut, 
+  Settings,
   Sparkles, 
   Database, 
   Search, 
-  ArrowLeft,
   FolderOpen,
   LayoutGrid,
   List,
-  Zap
+  Trash2,
+  BookmarkPlus,
+  Unlink,
+  Upload,
+  DatabaseBackup,
+  ArrowDownUp,
+  Zap,
+  CloudOff
 } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 import ItemCard from "@/components/ItemCard";
@@ -22,7 +30,27 @@ import CreateFolderDialog from "@/components/CreateFolderDialog";
 import FolderCard from "@/components/FolderCard";
 import ThemeToggle from "@/components/ThemeToggle";
 import EditItemDialog from "@/components/EditItemDialog";
+import ImportBookmarksDialog from "@/components/ImportBookmarksDialog";
+import AccountArchiveDialog from "@/components/AccountArchiveDialog";
+import ShareFolderDialog from "@/components/ShareFolderDialog";
+import FolderMembersDialog from "@/components/FolderMembersDialog";
+import SyncConflictDialog from "@/components/SyncConflictDialog";
+import FolderInvitationsBanner from "@/components/FolderInvitationsBanner";
+import TagFilter from "@/components/TagFilter";
+import TrashView from "@/components/TrashView";
+import SearchQueryInput from "@/components/SearchQueryInput";
+import SmartFolderCard from "@/components/SmartFolderCard";
+import SaveSearchDialog from "@/components/SaveSearchDialog";
 import { Label } from "@/components/ui/label";
+import {
+  Breadcrumb,
+  BreadcrumbEllipsis,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -33,6 +61,12 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import {
   Dialog,
   DialogContent,
@@ -46,51 +80,152 @@ import {
   useDeleteFolder, 
   useUpdateFolder, 
   useMoveItem,
+  useMoveFolder,
+  useTags,
+  useSearchItems,
+  useSavedSearches,
+  useUpdateSavedSearch,
+  useDeleteSavedSearch,
+  useUpdateLinkUrl,
+  buildSearchPlan,
+  getFolderPath,
+  TRASH_RETENTION_DAYS,
+  Collaborator,
   Item,
-  Folder
+  Folder,
+  SavedSearch
 } from "@/hooks/use-items";
+import { useFolderMembers } from "@/hooks/use-folder-members";
+import { useRealtimeSync } from "@/hooks/use-realtime-sync";
+import { getStoredUser, useOnlineStatus, useQueuedChanges } from "@/hooks/use-offline";
 import { Badge } from "@/components/ui/badge";
+import { useDebounce } from "@/hooks/use-debounce";
+import { parseSearchQuery, hasFieldOperators } from "@/lib/search-query";
+import { getSmartFolderIcon } from "@/lib/smart-folders";
+import { needsLinkAttention } from "@/lib/link-health";
+import { FolderExportFormat, buildFolderExport, countFolderExportItems } from "@/lib/folder-export";
+import { downloadFile } from "@/lib/utils";
+import { SHARE_PARAM, SharedItemDraft, draftFromSharedContent, takeSharedContent } from "@/lib/share-target";
+import { useToast } from "@/hooks/use-toast";
 
 const Dashboard = () => {
   const [user, setUser] = useState<any>(null);
   const [authLoading, setAuthLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState("");
-  const [selectedFolder, setSelectedFolder] = useState<Folder | null>(null);
+  const [selectedTagIds, setSelectedTagIds] = useState<string[]>([]);
+  const [selectedFolderId, setSelectedFolderId] = useState<string | null>(null);
+  const [showTrash, setShowTrash] = useState(false);
+  const [showBrokenLinks, setShowBrokenLinks] = useState(false);
+  const [importBookmarksOpen, setImportBookmarksOpen] = useState(false);
+  const [archiveOpen, setArchiveOpen] = useState(false);
+  const [shareFolder, setShareFolder] = useState<Folder | null>(null);
+  const [membersFolder, setMembersFolder] = useState<Folder | null>(null);
+  const [activeSavedSearchId, setActiveSavedSearchId] = useState<string | null>(null);
+  const [saveSearchOpen, setSaveSearchOpen] = useState(false);
+  const [editSavedSearch, setEditSavedSearch] = useState<SavedSearch | null>(null);
   const [deleteDialog, setDeleteDialog] = useState<{ type: "folder" | "item"; id: string } | null>(null);
   const [renameDialog, setRenameDialog] = useState<Folder | null>(null);
   const [renameName, setRenameName] = useState("");
   const [viewMode, setViewMode] = useState<"grid" | "list">("grid");
   const [editItem, setEditItem] = useState<Item | null>(null);
+  const [sharedDraft, setSharedDraft] = useState<SharedItemDraft | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
   const navigate = useNavigate();
+  const { toast } = useToast();
 
   // React Query hooks for cached data
   const { data: items = [], isLoading: itemsLoading, isFetching: itemsFetching } = useItems();
   const { data: folders = [], isLoading: foldersLoading } = useFolders();
+  const { data: tags = [] } = useTags();
+  const { data: savedSearches = [] } = useSavedSearches();
+  const { data: folderMembers = [] } = useFolderMembers();
+  const { isSyncing } = useRealtimeSync(user?.id);
+  const isOnline = useOnlineStatus();
+  const queuedChanges = useQueuedChanges();
+  const debouncedSearch = useDebounce(searchQuery.trim(), 300);
+  const parsedSearch = useMemo(() => parseSearchQuery(debouncedSearch), [debouncedSearch]);
+  const searchPlan = useMemo(
+    () => buildSearchPlan(parsedSearch.nodes, folders, tags),
+    [parsedSearch, folders, tags]
+  );
+  const { data: searchMatches, isFetching: searchFetching } = useSearchItems(searchPlan);
   const deleteItem = useDeleteItem();
   const deleteFolder = useDeleteFolder();
   const updateFolder = useUpdateFolder();
   const moveItem = useMoveItem();
+  const moveFolder = useMoveFolder();
+  const updateSavedSearch = useUpdateSavedSearch();
+  const deleteSavedSearch = useDeleteSavedSearch();
+  const updateLinkUrl = useUpdateLinkUrl();
 
   const loading = authLoading || itemsLoading || foldersLoading;
 
+  // Everyone with access to each shared folder, owner first
+  const membersByFolder = useMemo(() => {
+    const byFolder = new Map<string, Collaborator[]>();
+    folderMembers.forEach((member) => {
+      if (!member.profile) return;
+      if (!byFolder.has(member.folder_id)) {
+        const owner = folders.find((folder) => folder.id === member.folder_id)?.owner;
+        byFolder.set(member.folder_id, owner ? [owner] : []);
+      }
+      byFolder.get(member.folder_id)!.push(member.profile);
+    });
+    return byFolder;
+  }, [folderMembers, folders]);
+
+  const selectedFolder = useMemo(
+    () => folders.find(f => f.id === selectedFolderId) ?? null,
+    [folders, selectedFolderId]
+  );
+  // A smart folder stays open only while the search still matches its definition
+  const activeSavedSearch = useMemo(() => {
+    const saved = savedSearches.find(s => s.id === activeSavedSearchId);
+    if (!saved || saved.query !== searchQuery.trim()) return null;
+    const sameTags = saved.tag_ids.length === selectedTagIds.length &&
+      saved.tag_ids.every(id => selectedTagIds.includes(id));
+    return sameTags ? saved : null;
+  }, [savedSearches, activeSavedSearchId, searchQuery, selectedTagIds]);
+  const folderPath = useMemo(
+    () => (selectedFolderId ? getFolderPath(selectedFolderId, folders) : []),
+    [folders, selectedFolderId]
+  );
+
+  // Content shared from another app arrives as ?share=<id>, see lib/share-target
+  useEffect(() => {
+    const shareId = searchParams.get(SHARE_PARAM);
+    if (!shareId) return;
+
+    setSearchParams((params) => {
+      params.delete(SHARE_PARAM);
+      return params;
+    }, { replace: true });
+    takeSharedContent(shareId)
+      .then((shared) => shared && setSharedDraft(draftFromSharedContent(shared)))
+      .catch((error) => console.error("Error reading shared content:", error));
+  }, [searchParams, setSearchParams]);
+
   useEffect(() => {
     const checkSession = async () => {
       const { data: { session } } = await supabase.auth.getSession();
-      if (!session) {
+      // Offline, an expired session can't be refreshed; the stored user
+      // still owns the cached vault, so keep them signed in until then
+      const currentUser = session?.user ?? (onlineManager.isOnline() ? null : getStoredUser());
+      if (!currentUser) {
         navigate("/auth");
       } else {
-        setUser(session.user);
+        setUser(currentUser);
       }
       setAuthLoading(false);
     };
 
     checkSession();
 
-    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
-      if (!session) {
-        navigate("/auth");
-      } else {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+      if (session) {
         setUser(session.user);
+      } else if (event === "SIGNED_OUT" || onlineManager.isOnline()) {
+        navigate("/auth");
       }
     });
 
@@ -105,7 +240,9 @@ const Dashboard = () => {
   const handleDeleteFolder = (id: string) => {
     deleteFolder.mutate(id);
     setDeleteDialog(null);
-    setSelectedFolder(null);
+    if (folderPath.some(f => f.id === id)) {
+      setSelectedFolderId(null);
+    }
   };
 
   const handleRenameFolder = () => {
@@ -118,6 +255,39 @@ const Dashboard = () => {
     moveItem.mutate({ itemId, folderId });
   };
 
+  const handleMoveFolder = (folderId: string, parentId: string | null) => {
+    moveFolder.mutate({ folderId, parentId });
+  };
+
+  const handleOpenSavedSearch = (savedSearch: SavedSearch) => {
+    setSelectedFolderId(null);
+    setSearchQuery(savedSearch.query);
+    setSelectedTagIds(savedSearch.tag_ids);
+    setActiveSavedSearchId(savedSearch.id);
+  };
+
+  const handleClearSearch = () => {
+    setSearchQuery("");
+    setSelectedTagIds([]);
+    setShowBrokenLinks(false);
+    setActiveSavedSearchId(null);
+  };
+
+  const handleDeleteSavedSearch = (id: string) => {
+    deleteSavedSearch.mutate(id);
+    if (activeSavedSearchId === id) {
+      setActiveSavedSearchId(null);
+    }
+  };
+
+  const handleUpdateLinkUrl = (id: string, url: string) => {
+    updateLinkUrl.mutate({ id, url });
+  };
+
+  const handleTagClick = (tagId: string) => {
+    setSelectedTagIds(prev => prev.includes(tagId) ? prev : [...prev, tagId]);
+  };
+
   const handleEditItem = (id: string) => {
     const item = items.find(i => i.id === id);
     if (item) {
@@ -130,22 +300,83 @@ const Dashboard = () => {
     navigate("/");
   };
 
-  // Memoized filtered items for performance
-  const filteredItems = useMemo(() => {
-    return items.filter(item => {
-      const matchesSearch = searchQuery
-        ? item.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-          item.description?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-          item.content.toLowerCase().includes(searchQuery.toLowerCase())
-        : true;
+  const searchMatchById = useMemo(
+    () => new Map((searchMatches || []).map(match => [match.id, match])),
+    [searchMatches]
+  );
 
-      const matchesFolder = selectedFolder
-        ? item.folder_id === selectedFolder.id
-        : true;
+  // Positive free-text terms of the query, used for folder names and the local fallback
+  const searchText = useMemo(
+    () => parsedSearch.nodes
+      .filter(node => node.kind !== "field" && !node.negated)
+      .map(node => node.value.toLowerCase())
+      .join(" "),
+    [parsedSearch]
+  );
+  const hasOperators = hasFieldOperators(parsedSearch.nodes) || parsedSearch.nodes.some(node => node.negated);
 
-      return matchesSearch && matchesFolder;
+  // Items matching the search, tag and link health filters, in any folder
+  const matchingItems = useMemo(() => {
+    const filtered = items.filter(item => {
+      // Server-side matches; plain substring matching only until the first results arrive
+      const matchesSearch = !searchQuery
+        ? true
+        : searchMatches
+          ? searchMatchById.has(item.id)
+          : !hasOperators && !!searchText && (
+            item.title.toLowerCase().includes(searchText) ||
+            item.description?.toLowerCase().includes(searchText) ||
+            item.content.toLowerCase().includes(searchText)
+          );
+
+      // Items must carry every selected tag
+      const matchesTags = selectedTagIds.every(tagId =>
+        item.tags?.some(tag => tag.id === tagId)
+      );
+
+      const matchesLinkHealth = !showBrokenLinks || needsLinkAttention(item.link_check);
+
+      return matchesSearch && matchesTags && matchesLinkHealth;
     });
-  }, [items, searchQuery, selectedFolder]);
+
+    // Most relevant search results first
+    if (searchQuery && searchMatches) {
+      filtered.sort((a, b) => searchMatchById.get(b.id)!.rank - searchMatchById.get(a.id)!.rank);
+    }
+    return filtered;
+  }, [items, searchQuery, searchMatches, searchMatchById, searchText, hasOperators, selectedTagIds, showBrokenLinks]);
+
+  const filteredItems = useMemo(
+    () => selectedFolder ? matchingItems.filter(item => item.folder_id === selectedFolder.id) : matchingItems,
+    [matchingItems, selectedFolder]
+  );
+
+  const isSearching = !!searchQuery || selectedTagIds.length > 0;
+  const isFiltering = isSearching || showBrokenLinks;
+  const brokenLinkCount = useMemo(
+    () => items.filter(item => needsLinkAttention(item.link_check)).length,
+    [items]
+  );
+  const searchPending = !!searchQuery && !searchMatches && (searchFetching || searchQuery.trim() !== debouncedSearch);
+
+  // Folders only match on name, so they're hidden while filtering by tag, link health or search operators.
+  // At the root only top-level folders are listed unless searching.
+  const visibleFolders = useMemo(() => {
+    if (selectedTagIds.length > 0 || showBrokenLinks || (searchQuery && (hasOperators || !searchText))) return [];
+    return folders.filter(f => searchQuery
+      ? f.name.toLowerCase().includes(searchText)
+      : !f.parent_id
+    );
+  }, [folders, searchQuery, searchText, hasOperators, selectedTagIds, showBrokenLinks]);
+
+  // Direct subfolders of the open folder
+  const subfolders = useMemo(() => {
+    if (!selectedFolder || selectedTagIds.length > 0 || showBrokenLinks || (searchQuery && (hasOperators || !searchText))) return [];
+    return (selectedFolder.children || []).filter(f => searchQuery
+      ? f.name.toLowerCase().includes(searchText)
+      : true
+    );
+  }, [selectedFolder, searchQuery, searchText, hasOperators, selectedTagIds, showBrokenLinks]);
 
   // Items without folder for root view
   const unfolderedItems = useMemo(() => {
@@ -160,6 +391,61 @@ const Dashboard = () => {
     notes: items.filter(i => i.type === "note").length,
   }), [items, folders]);
 
+  // Long paths collapse their middle segments into an ellipsis
+  const visiblePath = folderPath.length > 3
+    ? [folderPath[0], null, ...folderPath.slice(-2)]
+    : folderPath;
+
+  // Exports follow the active search, so a filtered view can be handed on as-is
+  const handleExportFolder = (folder: Folder, format: FolderExportFormat) => {
+    const exportItems = isFiltering ? matchingItems : items;
+    if (isFiltering && countFolderExportItems(folder, exportItems) === 0) {
+      toast({
+        title: "Nothing to export",
+        description: "No items in this folder match the current search.",
+      });
+      return;
+    }
+    const { fileName, content, type } = buildFolderExport(folder, exportItems, format);
+    downloadFile(fileName, content, type);
+  };
+
+  const renderFolderCard = (folder: Folder) => (
+    <FolderCard
+      key={folder.id}
+      folder={folder}
+      folders={folders}
+      onClick={() => setSelectedFolderId(folder.id)}
+      onRename={() => {
+        setRenameName(folder.name);
+        setRenameDialog(folder);
+      }}
+      onMove={(parentId) => handleMoveFolder(folder.id, parentId)}
+      onExport={(format) => handleExportFolder(folder, format)}
+      onShare={folder.user_id === user?.id ? () => setShareFolder(folder) : undefined}
+      onManageMembers={() => setMembersFolder(folder)}
+      members={membersByFolder.get(folder.id)}
+      onDelete={() => setDeleteDialog({ type: "folder", id: folder.id })}
+    />
+  );
+
+  const renderSmartFolderCard = (savedSearch: SavedSearch) => (
+    <SmartFolderCard
+      key={savedSearch.id}
+      savedSearch={savedSearch}
+      folders={folders}
+      tags={tags}
+      onClick={() => handleOpenSavedSearch(savedSearch)}
+      onEdit={() => setEditSavedSearch(savedSearch)}
+      onTogglePin={() => updateSavedSearch.mutate({ id: savedSearch.id, pinned: !savedSearch.pinned })}
+      onDelete={() => handleDeleteSavedSearch(savedSearch.id)}
+    />
+  );
+
+  // Smart folders sit next to regular folders at the root while not searching
+  const visibleSmartFolders = isFiltering ? [] : savedSearches;
+  const ActiveSmartFolderIcon = activeSavedSearch ? getSmartFolderIcon(activeSavedSearch.icon) : null;
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-background">
@@ -178,27 +464,82 @@ const Dashboard = () => {
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
           <div className="flex items-center justify-between h-16">
             <div className="flex items-center gap-4">
-              {selectedFolder && (
-                <Button
-                  variant="ghost"
-                  size="icon"
-                  onClick={() => setSelectedFolder(null)}
-                  className="mr-2"
-                >
-                  <ArrowLeft className="w-5 h-5" />
-                </Button>
-              )}
               <div className="flex items-center gap-3">
                 <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-primary to-primary/80 flex items-center justify-center shadow-lg shadow-primary/25">
                   <Sparkles className="w-5 h-5 text-primary-foreground" />
                 </div>
                 <div>
                   <h1 className="text-lg font-bold tracking-tight">DataVault</h1>
-                  {selectedFolder ? (
-                    <p className="text-xs text-muted-foreground flex items-center gap-1">
-                      <FolderOpen className="w-3 h-3" style={{ color: selectedFolder.color }} />
-                      {selectedFolder.name}
-                    </p>
+                  {showTrash ? (
+                    <Breadcrumb>
+                      <BreadcrumbList className="text-xs gap-1 sm:gap-1">
+                        <BreadcrumbItem>
+                          <BreadcrumbLink asChild>
+                            <button onClick={() => {
+                              setShowTrash(false);
+                              setSelectedFolderId(null);
+                            }}>
+                              All items
+                            </button>
+                          </BreadcrumbLink>
+                        </BreadcrumbItem>
+                        <BreadcrumbSeparator />
+                        <BreadcrumbItem>
+                          <BreadcrumbPage className="flex items-center gap-1">
+                            <Trash2 className="w-3 h-3" />
+                            Trash
+                          </BreadcrumbPage>
+                        </BreadcrumbItem>
+                      </BreadcrumbList>
+                    </Breadcrumb>
+                  ) : selectedFolder ? (
+                    <Breadcrumb>
+                      <BreadcrumbList className="text-xs gap-1 sm:gap-1">
+                        <BreadcrumbItem>
+                          <BreadcrumbLink asChild>
+                            <button onClick={() => setSelectedFolderId(null)}>All items</button>
+                          </BreadcrumbLink>
+                        </BreadcrumbItem>
+                        {visiblePath.map((folder, index) => (
+                          <Fragment key={folder?.id ?? "ellipsis"}>
+                            <BreadcrumbSeparator />
+                            <BreadcrumbItem>
+                              {!folder ? (
+                                <BreadcrumbEllipsis className="h-4 w-4" />
+                              ) : index === visiblePath.length - 1 ? (
+                                <BreadcrumbPage className="flex items-center gap-1">
+                                  <FolderOpen className="w-3 h-3" style={{ color: folder.color }} />
+                                  {folder.name}
+                                </BreadcrumbPage>
+                              ) : (
+                                <BreadcrumbLink asChild>
+                                  <button onClick={() => setSelectedFolderId(folder.id)}>
+                                    {folder.name}
+                                  </button>
+                                </BreadcrumbLink>
+                              )}
+                            </BreadcrumbItem>
+                          </Fragment>
+                        ))}
+                      </BreadcrumbList>
+                    </Breadcrumb>
+                  ) : activeSavedSearch && ActiveSmartFolderIcon ? (
+                    <Breadcrumb>
+                      <BreadcrumbList className="text-xs gap-1 sm:gap-1">
+                        <BreadcrumbItem>
+                          <BreadcrumbLink asChild>
+                            <button onClick={handleClearSearch}>All items</button>
+                          </BreadcrumbLink>
+                        </BreadcrumbItem>
+                        <BreadcrumbSeparator />
+                        <BreadcrumbItem>
+                          <BreadcrumbPage className="flex items-center gap-1">
+                            <ActiveSmartFolderIcon className="w-3 h-3" style={{ color: activeSavedSearch.color }} />
+                            {activeSavedSearch.name}
+                          </BreadcrumbPage>
+                        </BreadcrumbItem>
+                      </BreadcrumbList>
+                    </Breadcrumb>
                   ) : (
                     <p className="text-xs text-muted-foreground flex items-center gap-2">
                       <span>{stats.totalItems} items</span>
@@ -212,242 +553,371 @@ const Dashboard = () => {
             
             <div className="flex items-center gap-2">
               {/* Cache status indicator */}
-              {itemsFetching && (
+              {!isOnline ? (
+                <Badge
+                  variant="outline"
+                  className="text-xs gap-1 hidden sm:flex"
+                  title="Showing your vault as last synced. Changes are sent once you're back online."
+                >
+                  <CloudOff className="w-3 h-3" />
+                  Offline{queuedChanges.count > 0 && ` · ${queuedChanges.count} queued`}
+                </Badge>
+              ) : (itemsFetching || isSyncing) && (
                 <Badge variant="outline" className="text-xs gap-1 hidden sm:flex">
                   <Zap className="w-3 h-3 animate-pulse" />
                   Syncing
                 </Badge>
               )}
-              <ThemeToggle />
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="text-muted-foreground hover:text-foreground"
+                    title="Import & export"
+                  >
+                    <ArrowDownUp className="w-5 h-5" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={() => setImportBookmarksOpen(true)}>
+                    <Upload className="w-4 h-4 mr-2" />
+                    Import Bookmarks
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setArchiveOpen(true)}>
+                    <DatabaseBackup className="w-4 h-4 mr-2" />
+                    Backup & Restore
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
               <Button
-                variant="ghost"
+                variant={showTrash ? "secondary" : "ghost"}
                 size="icon"
-                onClick={handleLogout}
+                onClick={() => setShowTrash(!showTrash)}
                 className="text-muted-foreground hover:text-foreground"
+                title="Trash"
               >
-                <LogOut className="w-5 h-5" />
+                <Trash2 className="w-5 h-5" />
               </Button>
-            </div>
-          </div>
-        </div>
-      </header>
-
-      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        {/* Search and Actions Bar */}
-        <div className="flex flex-col sm:flex-row items-stretch sm:items-center gap-4 mb-8">
-          <div className="relative flex-1">
-            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
-            <Input
-              placeholder="Search items..."
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-              className="pl-10 bg-card border-border/50 focus-visible:ring-primary/50"
-            />
-          </div>
-          
-          <div className="flex items-center gap-2">
-            <div className="flex items-center border border-border/50 rounded-lg p-1 bg-card">
               <Button
-                variant={viewMode === "grid" ? "secondary" : "ghost"}
+                variant="ghost"
                 size="icon"
-                onClick={() => setViewMode("grid")}
-                className="h-8 w-8"
+                onClick={() => navigate("/settings")}
+                className="text-muted-foreground hover:text-foreground"
+                title="Settings"
               >
-                <LayoutGrid className="w-4 h-4" />
+                <Settings className="w-5 h-5" />
               </Button>
+              <ThemeToggle />
               <Button
-                variant={viewMode === "list" ? "secondary" : "ghost"}
+                variant="ghost"
                 size="icon"
-                onClick={() => setViewMode("list")}
-                className="h-8 w-8"
+                onClick={handleLogout}
+                className="text-muted-foreground hover:text-foreground"
               >
-                <List className="w-4 h-4" />
+                <LogOut className="w-5 h-5" />
               </Button>
             </div>
-            
-            {!selectedFolder && <CreateFolderDialog />}
-            <AddItemDialog 
-              folders={folders}
-              defaultFolderId={selectedFolder?.id}
-            />
           </div>
         </div>
+      </header>
 
-        {/* Main Content */}
-        <AnimatePresence mode="wait">
-          {!selectedFolder ? (
-            // Root View - Show Folders and Unfoldered Items
-            <motion.div
-              key="root"
-              initial={{ opacity: 0 }}
-              animate={{ opacity: 1 }}
-              exit={{ opacity: 0 }}
-            >
-              {/* Folders Section */}
-              {folders.length > 0 && (
-                <section className="mb-10">
-                  <h2 className="text-xl font-semibold mb-4 flex items-center gap-2">
-                    <FolderOpen className="w-5 h-5 text-primary" />
-                    Folders
-                    <span className="text-sm font-normal text-muted-foreground">
-                      ({folders.length})
-                    </span>
-                  </h2>
-                  <div className={`grid gap-4 ${
-                    viewMode === "grid" 
-                      ? "grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4" 
-                      : "grid-cols-1"
-                  }`}>
-                    {folders
-                      .filter(f => searchQuery 
-                        ? f.name.toLowerCase().includes(searchQuery.toLowerCase()) 
-                        : true
-                      )
-                      .map((folder) => (
-                        <FolderCard
-                          key={folder.id}
-                          folder={folder}
-                          onClick={() => setSelectedFolder(folder)}
-                          onRename={() => {
-                            setRenameName(folder.name);
-                            setRenameDialog(folder);
-                          }}
-                          onDelete={() => setDeleteDialog({ type: "folder", id: folder.id })}
-                        />
-                      ))}
-                  </div>
-                </section>
-              )}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {showTrash ? (
+          <TrashView />
+        ) : (
+          <>
+            <FolderInvitationsBanner />
 
-              {/* Unfoldered Items Section */}
-              {(searchQuery ? filteredItems : unfolderedItems).length > 0 && (
-                <section>
-                  <h2 className="text-xl font-semibold mb-4 flex items-center gap-2">
-                    <Database className="w-5 h-5 text-primary" />
-                    {searchQuery ? "Search Results" : "Uncategorized Items"}
-                    <span className="text-sm font-normal text-muted-foreground">
-                      ({searchQuery ? filteredItems.length : unfolderedItems.length})
-                    </span>
-                  </h2>
-                  <div className={`grid gap-4 ${
-                    viewMode === "grid" 
-                      ? "grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4" 
-                      : "grid-cols-1"
-                  }`}>
-                    {(searchQuery ? filteredItems : unfolderedItems).map((item) => (
-                      <ItemCard
-                        key={item.id}
-                        id={item.id}
-                        title={item.title}
-                        description={item.description}
-                        type={item.type}
-                        content={item.content}
-                        thumbnailUrl={item.thumbnail_url}
-                        folderId={item.folder_id}
-                        createdAt={item.created_at}
-                        updatedAt={item.updated_at}
-                        onDelete={(id) => setDeleteDialog({ type: "item", id })}
-                        onMoveToFolder={handleMoveToFolder}
-                        onEdit={handleEditItem}
-                        folders={folders}
-                      />
-                    ))}
-                  </div>
-                </section>
-              )}
+            {/* Search and Actions Bar */}
+            <div className="flex flex-col sm:flex-row items-stretch sm:items-center gap-4 mb-8">
+              <SearchQueryInput
+                value={searchQuery}
+                onChange={setSearchQuery}
+                errors={parsedSearch.errors}
+                tags={tags}
+                folders={folders}
+                isSearching={searchFetching || searchQuery.trim() !== debouncedSearch}
+              />
+          
+              <TagFilter
+                tags={tags}
+                selectedTagIds={selectedTagIds}
+                onChange={setSelectedTagIds}
+              />
 
-              {/* Empty State */}
-              {folders.length === 0 && unfolderedItems.length === 0 && !searchQuery && (
-                <div className="text-center py-20">
-                  <div className="w-20 h-20 mx-auto mb-6 rounded-2xl bg-gradient-to-br from-primary/20 to-primary/5 flex items-center justify-center">
-                    <Database className="w-10 h-10 text-primary/60" />
-                  </div>
-                  <h2 className="text-2xl font-semibold mb-2">
-                    Welcome to DataVault
-                  </h2>
-                  <p className="text-muted-foreground mb-8 max-w-md mx-auto">
-                    Start by creating folders to organize your content, then add links, images, videos, or notes.
-                  </p>
-                  <div className="flex items-center justify-center gap-3">
-                    <CreateFolderDialog />
-                    <AddItemDialog folders={folders} />
-                  </div>
-                </div>
+              {(brokenLinkCount > 0 || showBrokenLinks) && (
+                <Button
+                  variant={showBrokenLinks ? "secondary" : "outline"}
+                  className="gap-2 bg-card border-border/50"
+                  onClick={() => setShowBrokenLinks(!showBrokenLinks)}
+                >
+                  <Unlink className="w-4 h-4" />
+                  Broken links
+                  <Badge variant="secondary" className="px-1.5 py-0 text-xs">
+                    {brokenLinkCount}
+                  </Badge>
+                </Button>
               )}
 
-              {/* No Results */}
-              {searchQuery && filteredItems.length === 0 && folders.filter(f => 
-                f.name.toLowerCase().includes(searchQuery.toLowerCase())
-              ).length === 0 && (
-                <div className="text-center py-20">
-                  <Search className="w-16 h-16 mx-auto mb-4 text-muted-foreground opacity-50" />
-                  <h2 className="text-2xl font-semibold mb-2 text-muted-foreground">
-                    No results found
-                  </h2>
-                  <p className="text-muted-foreground">
-                    Try a different search term
-                  </p>
-                </div>
+              {isSearching && !activeSavedSearch && parsedSearch.errors.length === 0 && (
+                <Button
+                  variant="outline"
+                  className="gap-2 bg-card border-border/50"
+                  onClick={() => setSaveSearchOpen(true)}
+                >
+                  <BookmarkPlus className="w-4 h-4" />
+                  Save Search
+                </Button>
               )}
-            </motion.div>
-          ) : (
-            // Folder View - Show Items in Selected Folder
-            <motion.div
-              key={selectedFolder.id}
-              initial={{ opacity: 0, x: 20 }}
-              animate={{ opacity: 1, x: 0 }}
-              exit={{ opacity: 0, x: -20 }}
-            >
-              {filteredItems.length > 0 ? (
-                <div className={`grid gap-4 ${
-                  viewMode === "grid" 
-                    ? "grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4" 
-                    : "grid-cols-1"
-                }`}>
-                  {filteredItems.map((item) => (
-                    <ItemCard
-                      key={item.id}
-                      id={item.id}
-                      title={item.title}
-                      description={item.description}
-                      type={item.type}
-                      content={item.content}
-                      thumbnailUrl={item.thumbnail_url}
-                      folderId={item.folder_id}
-                      createdAt={item.created_at}
-                      updatedAt={item.updated_at}
-                      onDelete={(id) => setDeleteDialog({ type: "item", id })}
-                      onMoveToFolder={handleMoveToFolder}
-                      onEdit={handleEditItem}
-                      folders={folders}
-                    />
-                  ))}
+          
+              <div className="flex items-center gap-2">
+                <div className="flex items-center border border-border/50 rounded-lg p-1 bg-card">
+                  <Button
+                    variant={viewMode === "grid" ? "secondary" : "ghost"}
+                    size="icon"
+                    onClick={() => setViewMode("grid")}
+                    className="h-8 w-8"
+                  >
+                    <LayoutGrid className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant={viewMode === "list" ? "secondary" : "ghost"}
+                    size="icon"
+                    onClick={() => setViewMode("list")}
+                    className="h-8 w-8"
+                  >
+                    <List className="w-4 h-4" />
+                  </Button>
                 </div>
+            
+                <CreateFolderDialog parentId={selectedFolder?.id} />
+                <AddItemDialog 
+                  folders={folders}
+                  defaultFolderId={selectedFolder?.id}
+                  shared={sharedDraft}
+                  onSharedClose={() => setSharedDraft(null)}
+                />
+              </div>
+            </div>
+
+            {/* Main Content */}
+            <AnimatePresence mode="wait">
+              {!selectedFolder ? (
+                // Root View - Show Folders and Unfoldered Items
+                <motion.div
+                  key="root"
+                  initial={{ opacity: 0 }}
+                  animate={{ opacity: 1 }}
+                  exit={{ opacity: 0 }}
+                >
+                  {/* Folders Section */}
+                  {(visibleFolders.length > 0 || visibleSmartFolders.length > 0) && (
+                    <section className="mb-10">
+                      <h2 className="text-xl font-semibold mb-4 flex items-center gap-2">
+                        <FolderOpen className="w-5 h-5 text-primary" />
+                        Folders
+                        <span className="text-sm font-normal text-muted-foreground">
+                          ({visibleSmartFolders.length + visibleFolders.length})
+                        </span>
+                      </h2>
+                      <div className={`grid gap-4 ${
+                        viewMode === "grid" 
+                          ? "grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4" 
+                          : "grid-cols-1"
+                      }`}>
+                        {visibleSmartFolders.map(renderSmartFolderCard)}
+                        {visibleFolders.map(renderFolderCard)}
+                      </div>
+                    </section>
+                  )}
+
+                  {/* Unfoldered Items Section */}
+                  {(isFiltering ? filteredItems : unfolderedItems).length > 0 && (
+                    <section>
+                      <h2 className="text-xl font-semibold mb-4 flex items-center gap-2">
+                        <Database className="w-5 h-5 text-primary" />
+                        {isFiltering
+                          ? activeSavedSearch?.name ?? (isSearching ? "Search Results" : "Broken Links")
+                          : "Uncategorized Items"}
+                        <span className="text-sm font-normal text-muted-foreground">
+                          ({isFiltering ? filteredItems.length : unfolderedItems.length})
+                        </span>
+                      </h2>
+                      <div className={`grid gap-4 ${
+                        viewMode === "grid" 
+                          ? "grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4" 
+                          : "grid-cols-1"
+                      }`}>
+                        {(isFiltering ? filteredItems : unfolderedItems).map((item) => (
+                          <ItemCard
+                            key={item.id}
+                            id={item.id}
+                            title={item.title}
+                            description={item.description}
+                            type={item.type}
+                            content={item.content}
+                            thumbnailUrl={item.thumbnail_url}
+                            filePath={item.file_path}
+                            folderId={item.folder_id}
+                            structured={item.structured}
+                            linkCheck={item.link_check}
+                            tags={item.tags}
+                            addedBy={item.user_id !== user?.id ? item.creator : null}
+                            queued={queuedChanges.itemIds.has(item.id)}
+                            createdAt={item.created_at}
+                            updatedAt={item.updated_at}
+                            onDelete={(id) => setDeleteDialog({ type: "item", id })}
+                            onMoveToFolder={handleMoveToFolder}
+                            onEdit={handleEditItem}
+                            onTagClick={handleTagClick}
+                            onUpdateUrl={handleUpdateLinkUrl}
+                            searchMatch={searchQuery ? searchMatchById.get(item.id) : undefined}
+                            folders={folders}
+                          />
+                        ))}
+                      </div>
+                    </section>
+                  )}
+
+                  {/* Empty State */}
+                  {folders.length === 0 && unfolderedItems.length === 0 && !isFiltering && (
+                    <div className="text-center py-20">
+                      <div className="w-20 h-20 mx-auto mb-6 rounded-2xl bg-gradient-to-br from-primary/20 to-primary/5 flex items-center justify-center">
+                        <Database className="w-10 h-10 text-primary/60" />
+                      </div>
+                      <h2 className="text-2xl font-semibold mb-2">
+                        Welcome to DataVault
+                      </h2>
+                      <p className="text-muted-foreground mb-8 max-w-md mx-auto">
+                        Start by creating folders to organize your content, then add links, images, videos, or notes.
+                      </p>
+                      <div className="flex items-center justify-center gap-3">
+                        <CreateFolderDialog />
+                        <AddItemDialog folders={folders} />
+                      </div>
+                    </div>
+                  )}
+
+                  {/* No Results */}
+                  {isFiltering && !searchPending && filteredItems.length === 0 && visibleFolders.length === 0 && (
+                    <div className="text-center py-20">
+                      <Search className="w-16 h-16 mx-auto mb-4 text-muted-foreground opacity-50" />
+                      <h2 className="text-2xl font-semibold mb-2 text-muted-foreground">
+                        No results found
+                      </h2>
+                      <p className="text-muted-foreground">
+                        Try a different search term
+                      </p>
+                    </div>
+                  )}
+                </motion.div>
               ) : (
-                <div className="text-center py-20">
-                  <FolderOpen 
-                    className="w-16 h-16 mx-auto mb-4 opacity-50"
-                    style={{ color: selectedFolder.color }}
-                  />
-                  <h2 className="text-2xl font-semibold mb-2 text-muted-foreground">
-                    {searchQuery ? "No matching items" : "This folder is empty"}
-                  </h2>
-                  <p className="text-muted-foreground mb-6">
-                    {searchQuery ? "Try a different search term" : "Add items to this folder to get started"}
-                  </p>
-                  {!searchQuery && (
-                    <AddItemDialog 
-                      folders={folders}
-                      defaultFolderId={selectedFolder.id}
-                    />
+                // Folder View - Show Items in Selected Folder
+                <motion.div
+                  key={selectedFolder.id}
+                  initial={{ opacity: 0, x: 20 }}
+                  animate={{ opacity: 1, x: 0 }}
+                  exit={{ opacity: 0, x: -20 }}
+                >
+                  {/* Subfolders Section */}
+                  {subfolders.length > 0 && (
+                    <section className="mb-10">
+                      <h2 className="text-xl font-semibold mb-4 flex items-center gap-2">
+                        <FolderOpen className="w-5 h-5" style={{ color: selectedFolder.color }} />
+                        Subfolders
+                        <span className="text-sm font-normal text-muted-foreground">
+                          ({subfolders.length})
+                        </span>
+                      </h2>
+                      <div className={`grid gap-4 ${
+                        viewMode === "grid" 
+                          ? "grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4" 
+                          : "grid-cols-1"
+                      }`}>
+                        {subfolders.map(renderFolderCard)}
+                      </div>
+                    </section>
                   )}
-                </div>
+
+                  {filteredItems.length > 0 ? (
+                    <div className={`grid gap-4 ${
+                      viewMode === "grid" 
+                        ? "grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4" 
+                        : "grid-cols-1"
+                    }`}>
+                      {filteredItems.map((item) => (
+                        <ItemCard
+                          key={item.id}
+                          id={item.id}
+                          title={item.title}
+                          description={item.description}
+                          type={item.type}
+                          content={item.content}
+                          thumbnailUrl={item.thumbnail_url}
+                          filePath={item.file_path}
+                          folderId={item.folder_id}
+                          structured={item.structured}
+                          linkCheck={item.link_check}
+                          tags={item.tags}
+                          addedBy={item.user_id !== user?.id ? item.creator : null}
+                          queued={queuedChanges.itemIds.has(item.id)}
+                          createdAt={item.created_at}
+                          updatedAt={item.updated_at}
+                          onDelete={(id) => setDeleteDialog({ type: "item", id })}
+                          onMoveToFolder={handleMoveToFolder}
+                          onEdit={handleEditItem}
+                          onTagClick={handleTagClick}
+                          onUpdateUrl={handleUpdateLinkUrl}
+                          searchMatch={searchQuery ? searchMatchById.get(item.id) : undefined}
+                          folders={folders}
+                        />
+                      ))}
+                    </div>
+                  ) : subfolders.length === 0 && (
+                    <div className="text-center py-20">
+                      <FolderOpen 
+                        className="w-16 h-16 mx-auto mb-4 opacity-50"
+                        style={{ color: selectedFolder.color }}
+                      />
+                      <h2 className="text-2xl font-semibold mb-2 text-muted-foreground">
+                        {isFiltering ? "No matching items" : "This folder is empty"}
+                      </h2>
+                      <p className="text-muted-foreground mb-6">
+                        {isFiltering ? "Try a different search term or tag" : "Add items to this folder to get started"}
+                      </p>
+                      {!isFiltering && (
+                        <AddItemDialog 
+                          folders={folders}
+                          defaultFolderId={selectedFolder.id}
+                        />
+                      )}
+                    </div>
+                  )}
+                </motion.div>
               )}
-            </motion.div>
-          )}
-        </AnimatePresence>
+            </AnimatePresence>
+          </>
+        )}
       </main>
 
+      <ImportBookmarksDialog open={importBookmarksOpen} onOpenChange={setImportBookmarksOpen} />
+      <AccountArchiveDialog open={archiveOpen} onOpenChange={setArchiveOpen} />
+      <ShareFolderDialog
+        open={!!shareFolder}
+        onOpenChange={(open) => !open && setShareFolder(null)}
+        folder={shareFolder}
+      />
+      {user && (
+        <FolderMembersDialog
+          open={!!membersFolder}
+          onOpenChange={(open) => !open && setMembersFolder(null)}
+          folder={membersFolder}
+          userId={user.id}
+        />
+      )}
+      <SyncConflictDialog />
+
       {/* Edit Item Dialog */}
       <EditItemDialog
         item={editItem}
@@ -461,12 +931,12 @@ const Dashboard = () => {
         <AlertDialogContent>
           <AlertDialogHeader>
             <AlertDialogTitle>
-              Delete {deleteDialog?.type === "folder" ? "Folder" : "Item"}?
+              Move {deleteDialog?.type === "folder" ? "Folder" : "Item"} to Trash?
             </AlertDialogTitle>
             <AlertDialogDescription>
               {deleteDialog?.type === "folder" 
-                ? "This will delete the folder. Items inside will be moved to the root level."
-                : "This action cannot be undone. This item will be permanently deleted."
+                ? `This will move the folder, its subfolders and their items to the trash. You can restore them within ${TRASH_RETENTION_DAYS} days.`
+                : `This item will be moved to the trash. You can restore it within ${TRASH_RETENTION_DAYS} days.`
               }
             </AlertDialogDescription>
           </AlertDialogHeader>
@@ -482,12 +952,27 @@ const Dashboard = () => {
                 }
               }}
             >
-              Delete
+              Move to Trash
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
 
+      {/* Save Search / Edit Smart Folder Dialog */}
+      <SaveSearchDialog
+        open={saveSearchOpen || !!editSavedSearch}
+        onOpenChange={(open) => {
+          if (!open) {
+            setSaveSearchOpen(false);
+            setEditSavedSearch(null);
+          }
+        }}
+        savedSearch={editSavedSearch}
+        query={searchQuery}
+        tagIds={selectedTagIds}
+        onSaved={(savedSearch) => setActiveSavedSearchId(savedSearch.id)}
+      />
+
       {/* Rename Folder Dialog */}
       <Dialog open={!!renameDialog} onOpenChange={() => setRenameDialog(null)}>
         <DialogContent>
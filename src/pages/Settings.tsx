@@ -0,0 +1,117 @@
+import { useEffect, useRef, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { ArrowLeft, Bookmark, Copy, Sparkles } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import ThemeToggle from "@/components/ThemeToggle";
+import { useToast } from "@/hooks/use-toast";
+import { buildBookmarklet } from "@/lib/capture";
+
+const Settings = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [authChecked, setAuthChecked] = useState(false);
+  const bookmarkletRef = useRef<HTMLAnchorElement>(null);
+  const bookmarklet = buildBookmarklet(window.location.origin);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      if (!session) {
+        navigate("/auth?redirect=%2Fsettings");
+      } else {
+        setAuthChecked(true);
+      }
+    });
+  }, [navigate]);
+
+  // React refuses javascript: URLs in href, so the link gets it directly
+  useEffect(() => {
+    bookmarkletRef.current?.setAttribute("href", bookmarklet);
+  }, [bookmarklet, authChecked]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(bookmarklet);
+      toast({
+        title: "Copied",
+        description: "Paste it as the address of a new bookmark.",
+      });
+    } catch (error) {
+      console.error("Error copying bookmarklet:", error);
+      toast({
+        title: "Error",
+        description: "Failed to copy the bookmarklet",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-50 backdrop-blur-xl bg-background/80 border-b border-border/50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <Link to="/dashboard" className="flex items-center gap-3">
+              <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-primary to-primary/80 flex items-center justify-center shadow-lg shadow-primary/25">
+                <Sparkles className="w-5 h-5 text-primary-foreground" />
+              </div>
+              <h1 className="text-lg font-bold tracking-tight">DataVault</h1>
+            </Link>
+            <ThemeToggle />
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        <div className="flex items-center gap-3">
+          <Button variant="ghost" size="icon" asChild title="Back to dashboard">
+            <Link to="/dashboard">
+              <ArrowLeft className="w-5 h-5" />
+            </Link>
+          </Button>
+          <h2 className="text-2xl font-bold tracking-tight">Settings</h2>
+        </div>
+
+        {authChecked && (
+          <section className="rounded-xl border p-6 space-y-4">
+            <div>
+              <h3 className="font-semibold">Quick capture</h3>
+              <p className="text-sm text-muted-foreground mt-1">
+                Drag the button below to your bookmarks bar. Clicking it on any page opens a small window to save
+                that page, along with any text you've selected, to your vault.
+              </p>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+              <a
+                ref={bookmarkletRef}
+                draggable
+                onClick={(e) => {
+                  e.preventDefault();
+                  toast({
+                    title: "Drag it instead",
+                    description: "Drop the button on your bookmarks bar, then click it on any page.",
+                  });
+                }}
+                className="inline-flex items-center gap-2 rounded-md bg-primary px-4 py-2 text-sm font-medium text-primary-foreground shadow-lg shadow-primary/25 cursor-grab active:cursor-grabbing"
+              >
+                <Bookmark className="w-4 h-4" />
+                Save to DataVault
+              </a>
+              <Button variant="outline" onClick={handleCopy}>
+                <Copy className="w-4 h-4 mr-2" />
+                Copy Code
+              </Button>
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              No bookmarks bar? Copy the code and paste it as the address of a new bookmark.
+            </p>
+          </section>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Settings;
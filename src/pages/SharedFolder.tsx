@@ -0,0 +1,156 @@
+import { useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { Clock, FolderOpen, Loader2, Lock, SearchX, Sparkles } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import ThemeToggle from "@/components/ThemeToggle";
+import ItemCard from "@/components/ItemCard";
+import { useSharedFolder } from "@/hooks/use-folder-shares";
+
+const Message = ({ icon: Icon, title, children }: { icon: typeof Lock; title: string; children?: React.ReactNode }) => (
+  <div className="max-w-sm mx-auto text-center py-24 space-y-3">
+    <div className="w-12 h-12 rounded-xl bg-muted flex items-center justify-center mx-auto">
+      <Icon className="w-6 h-6 text-muted-foreground" />
+    </div>
+    <h2 className="text-lg font-semibold">{title}</h2>
+    {children}
+  </div>
+);
+
+// Public, read-only view of a folder shared with a link (/s/:slug)
+const SharedFolder = () => {
+  const { slug } = useParams<{ slug: string }>();
+  const [passwordInput, setPasswordInput] = useState("");
+  const [password, setPassword] = useState("");
+  const { data, isLoading, isFetching, isError } = useSharedFolder(slug, password);
+
+  const handleUnlock = (e: React.FormEvent) => {
+    e.preventDefault();
+    setPassword(passwordInput);
+  };
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <div className="flex justify-center py-24">
+          <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+        </div>
+      );
+    }
+
+    if (isError || !data || data.status === "not_found") {
+      return (
+        <Message icon={SearchX} title="Link not found">
+          <p className="text-sm text-muted-foreground">This link doesn't exist or has been revoked.</p>
+        </Message>
+      );
+    }
+
+    if (data.status === "expired") {
+      return (
+        <Message icon={Clock} title="Link expired">
+          <p className="text-sm text-muted-foreground">Ask the owner for a new link.</p>
+        </Message>
+      );
+    }
+
+    if (data.status === "rate_limited") {
+      const minutes = Math.max(1, Math.ceil((data.retry_after ?? 60) / 60));
+      return (
+        <Message icon={Lock} title="Too many attempts">
+          <p className="text-sm text-muted-foreground">
+            Try the password again in {minutes} {minutes === 1 ? "minute" : "minutes"}.
+          </p>
+        </Message>
+      );
+    }
+
+    if (data.status === "password_required") {
+      return (
+        <Message icon={Lock} title="This folder is password protected">
+          <form onSubmit={handleUnlock} className="space-y-2 text-left">
+            <Input
+              type="password"
+              value={passwordInput}
+              onChange={(e) => setPasswordInput(e.target.value)}
+              placeholder="Password"
+              autoFocus
+              disabled={isFetching}
+            />
+            {password && !isFetching && <p className="text-sm text-destructive">Incorrect password.</p>}
+            <Button type="submit" className="w-full" disabled={!passwordInput || isFetching}>
+              {isFetching && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              View Folder
+            </Button>
+          </form>
+        </Message>
+      );
+    }
+
+    const { folder, items } = data;
+    return (
+      <>
+        <div className="flex items-start gap-4 mb-8">
+          <div
+            className="w-12 h-12 rounded-xl flex items-center justify-center shrink-0"
+            style={{ backgroundColor: `${folder.color}20` }}
+          >
+            <FolderOpen className="w-6 h-6" style={{ color: folder.color }} />
+          </div>
+          <div className="min-w-0">
+            <h2 className="text-2xl font-bold tracking-tight">{folder.name}</h2>
+            {folder.description && <p className="text-muted-foreground mt-1">{folder.description}</p>}
+            <p className="text-xs text-muted-foreground mt-1">
+              {items.length} {items.length === 1 ? "item" : "items"}
+            </p>
+          </div>
+        </div>
+
+        {items.length === 0 ? (
+          <p className="text-center text-muted-foreground py-16">This folder is empty.</p>
+        ) : (
+          <div className="grid gap-4 grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
+            {items.map((item) => (
+              <ItemCard
+                key={item.id}
+                id={item.id}
+                title={item.title}
+                description={item.description}
+                type={item.type}
+                content={item.content}
+                thumbnailUrl={item.thumbnail_url}
+                structured={item.structured}
+                tags={item.tags}
+                createdAt={item.created_at}
+                updatedAt={item.updated_at}
+                readOnly
+              />
+            ))}
+          </div>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-50 backdrop-blur-xl bg-background/80 border-b border-border/50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <Link to="/" className="flex items-center gap-3">
+              <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-primary to-primary/80 flex items-center justify-center shadow-lg shadow-primary/25">
+                <Sparkles className="w-5 h-5 text-primary-foreground" />
+              </div>
+              <h1 className="text-lg font-bold tracking-tight">DataVault</h1>
+            </Link>
+            <ThemeToggle />
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">{renderContent()}</main>
+    </div>
+  );
+};
+
+export default SharedFolder;
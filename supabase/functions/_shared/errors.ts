@@ -0,0 +1,76 @@
+// Machine-readable failure reasons returned as { success: false, error: { code, message } }
+export type PreviewErrorCode =
+  | 'INVALID_REQUEST'
+  | 'INVALID_URL'
+  | 'UNSUPPORTED_SCHEME'
+  | 'BLOCKED_ADDRESS'
+  | 'DNS_FAILURE'
+  | 'CONNECTION_REFUSED'
+  | 'TOO_MANY_REDIRECTS'
+  | 'TIMEOUT'
+  | 'FETCH_FAILED'
+  | 'HTTP_ERROR'
+  | 'UNSUPPORTED_CONTENT'
+  | 'NO_ARTICLE'
+  | 'NOT_FOUND'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'RATE_LIMITED'
+  | 'INTERNAL';
+
+const HTTP_STATUS: Record<PreviewErrorCode, number> = {
+  INVALID_REQUEST: 400,
+  INVALID_URL: 400,
+  UNSUPPORTED_SCHEME: 400,
+  BLOCKED_ADDRESS: 403,
+  DNS_FAILURE: 502,
+  CONNECTION_REFUSED: 502,
+  TOO_MANY_REDIRECTS: 502,
+  TIMEOUT: 504,
+  FETCH_FAILED: 502,
+  HTTP_ERROR: 502,
+  UNSUPPORTED_CONTENT: 415,
+  NO_ARTICLE: 422,
+  NOT_FOUND: 404,
+  UNAUTHORIZED: 401,
+  FORBIDDEN: 403,
+  RATE_LIMITED: 429,
+  INTERNAL: 500,
+};
+
+// Failures that describe the target page rather than the request, and so are
+// worth remembering in link_previews until the failure TTL runs out
+const CACHEABLE_CODES: PreviewErrorCode[] = [
+  'BLOCKED_ADDRESS',
+  'DNS_FAILURE',
+  'CONNECTION_REFUSED',
+  'TOO_MANY_REDIRECTS',
+  'TIMEOUT',
+  'FETCH_FAILED',
+  'HTTP_ERROR',
+  'UNSUPPORTED_CONTENT',
+];
+
+export class PreviewError extends Error {
+  code: PreviewErrorCode;
+  retryAfter?: number; // Seconds, for RATE_LIMITED
+
+  constructor(code: PreviewErrorCode, message: string, retryAfter?: number) {
+    super(message);
+    this.name = 'PreviewError';
+    this.code = code;
+    this.retryAfter = retryAfter;
+  }
+
+  get status(): number {
+    return HTTP_STATUS[this.code];
+  }
+
+  get cacheable(): boolean {
+    return CACHEABLE_CODES.includes(this.code);
+  }
+}
+
+export function isPreviewErrorCode(value: unknown): value is PreviewErrorCode {
+  return typeof value === 'string' && value in HTTP_STATUS;
+}
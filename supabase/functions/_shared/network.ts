@@ -0,0 +1,232 @@
+import { PreviewError } from './errors.ts';
+
+const ALLOWED_PROTOCOLS = ['http:', 'https:'];
+const MAX_REDIRECTS = 5;
+const REQUEST_TIMEOUT_MS = 10000;
+
+// Names that never resolve to a public host
+const BLOCKED_HOSTNAMES = /(^|\.)(localhost|local|internal|localdomain|home\.arpa)$/i;
+
+const parseIPv4 = (address: string): number[] | null => {
+  const parts = address.split('.');
+  if (parts.length !== 4) return null;
+  const octets = parts.map((part) => (/^\d{1,3}$/.test(part) ? Number(part) : NaN));
+  return octets.every((octet) => octet >= 0 && octet <= 255) ? octets : null;
+};
+
+function isPrivateIPv4([a, b, c]: number[]): boolean {
+  return (
+    a === 0 || // "this" network
+    a === 10 || // private
+    a === 127 || // loopback
+    (a === 100 && b >= 64 && b <= 127) || // carrier-grade NAT
+    (a === 169 && b === 254) || // link-local, including cloud metadata endpoints
+    (a === 172 && b >= 16 && b <= 31) || // private
+    (a === 192 && b === 0 && c === 0) || // IETF protocol assignments
+    (a === 192 && b === 0 && c === 2) || // documentation
+    (a === 192 && b === 168) || // private
+    (a === 198 && (b === 18 || b === 19)) || // benchmarking
+    (a === 198 && b === 51 && c === 100) || // documentation
+    (a === 203 && b === 0 && c === 113) || // documentation
+    a >= 224 // multicast, reserved and broadcast
+  );
+}
+
+// Expand an IPv6 address into its eight 16-bit groups
+function parseIPv6(address: string): number[] | null {
+  let input = address.replace(/^\[|\]$/g, '').split('%')[0].toLowerCase();
+
+  // Embedded IPv4 tail, e.g. ::ffff:127.0.0.1
+  const v4Tail = /(\d+\.\d+\.\d+\.\d+)$/.exec(input);
+  if (v4Tail) {
+    const octets = parseIPv4(v4Tail[1]);
+    if (!octets) return null;
+    const high = ((octets[0] << 8) | octets[1]).toString(16);
+    const low = ((octets[2] << 8) | octets[3]).toString(16);
+    input = input.slice(0, -v4Tail[1].length) + `${high}:${low}`;
+  }
+
+  const halves = input.split('::');
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...tail];
+  const values = groups.map((group) => (/^[0-9a-f]{1,4}$/.test(group) ? parseInt(group, 16) : NaN));
+  return values.every((value) => !isNaN(value)) ? values : null;
+}
+
+function isPrivateIPv6(groups: number[]): boolean {
+  const [first] = groups;
+  const allZeroBefore = (index: number) => groups.slice(0, index).every((group) => group === 0);
+
+  // IPv4-mapped (::ffff:a.b.c.d), IPv4-compatible (::a.b.c.d) and NAT64 (64:ff9b::a.b.c.d)
+  if ((allZeroBefore(5) && (groups[5] === 0xffff || groups[5] === 0)) ||
+      (first === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every((group) => group === 0))) {
+    const embedded = [groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff];
+    if (allZeroBefore(6) && groups[6] === 0 && groups[7] <= 1) return true; // :: and ::1
+    return isPrivateIPv4(embedded);
+  }
+
+  return (
+    (first & 0xfe00) === 0xfc00 || // unique local
+    (first & 0xffc0) === 0xfe80 || // link-local
+    (first & 0xffc0) === 0xfec0 || // site-local (deprecated)
+    (first & 0xff00) === 0xff00 || // multicast
+    (first === 0x2001 && groups[1] === 0x0db8) // documentation
+  );
+}
+
+// True when an IP address is not publicly routable
+export function isPrivateAddress(address: string): boolean {
+  const v4 = parseIPv4(address);
+  if (v4) return isPrivateIPv4(v4);
+  const v6 = parseIPv6(address);
+  // Anything we can't parse is treated as unsafe
+  return v6 ? isPrivateIPv6(v6) : true;
+}
+
+async function resolveHost(hostname: string): Promise<string[]> {
+  const lookups = await Promise.allSettled([
+    Deno.resolveDns(hostname, 'A'),
+    Deno.resolveDns(hostname, 'AAAA'),
+  ]);
+  return lookups.flatMap((lookup) => (lookup.status === 'fulfilled' ? lookup.value : []));
+}
+
+// Reject URLs that could reach the function's own network: non-HTTP schemes,
+// embedded credentials, internal hostnames and any name resolving to a private address
+export async function assertPublicUrl(url: URL): Promise<void> {
+  if (!ALLOWED_PROTOCOLS.includes(url.protocol)) {
+    throw new PreviewError('UNSUPPORTED_SCHEME', `Only http and https links can be previewed`);
+  }
+  if (url.username || url.password) {
+    throw new PreviewError('INVALID_URL', 'Links with embedded credentials are not allowed');
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  if (BLOCKED_HOSTNAMES.test(hostname) || (!hostname.includes('.') && !hostname.includes(':'))) {
+    throw new PreviewError('BLOCKED_ADDRESS', `Host ${hostname} is not publicly reachable`);
+  }
+
+  // IP literals are checked directly, names by every address they resolve to
+  if (parseIPv4(hostname) || hostname.includes(':')) {
+    if (isPrivateAddress(hostname)) {
+      throw new PreviewError('BLOCKED_ADDRESS', `Address ${hostname} is not publicly reachable`);
+    }
+    return;
+  }
+
+  const addresses = await resolveHost(hostname);
+  if (addresses.length === 0) {
+    throw new PreviewError('DNS_FAILURE', `Could not resolve ${hostname}`);
+  }
+  if (addresses.some(isPrivateAddress)) {
+    throw new PreviewError('BLOCKED_ADDRESS', `Host ${hostname} resolves to a private address`);
+  }
+}
+
+// fetch() that validates the target before every hop and follows at most
+// MAX_REDIRECTS redirects itself. fetch resolves the name again after our
+// check, so this narrows but cannot fully close a DNS rebinding window.
+// redirectStatuses lists the status of each redirect that was followed.
+// The timeout covers reading the body too: callers call release() once
+// they're done with the response, and until then a slow body is aborted.
+export async function safeFetch(
+  input: string,
+  init: RequestInit = {}
+): Promise<{ response: Response; finalUrl: string; redirectStatuses: number[]; release: () => void }> {
+  let url: URL;
+  try {
+    url = new URL(input);
+  } catch {
+    throw new PreviewError('INVALID_URL', 'URL is not valid');
+  }
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  const release = () => clearTimeout(timeoutId);
+  const redirectStatuses: number[] = [];
+
+  try {
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+      await assertPublicUrl(url);
+
+      let response: Response;
+      try {
+        response = await fetch(url.href, { ...init, redirect: 'manual', signal: controller.signal });
+      } catch (error) {
+        if (controller.signal.aborted) {
+          throw new PreviewError('TIMEOUT', `Timed out after ${REQUEST_TIMEOUT_MS / 1000}s`);
+        }
+        // Nothing listening: the site is down or gone, not just slow
+        if (error instanceof Error && error.cause instanceof Deno.errors.ConnectionRefused) {
+          throw new PreviewError('CONNECTION_REFUSED', `Connection to ${url.host} was refused`);
+        }
+        throw new PreviewError('FETCH_FAILED', error instanceof Error ? error.message : 'Request failed');
+      }
+
+      const location = response.headers.get('location');
+      if (response.status < 300 || response.status >= 400 || !location) {
+        return { response, finalUrl: url.href, redirectStatuses, release };
+      }
+
+      redirectStatuses.push(response.status);
+      await response.body?.cancel();
+      try {
+        url = new URL(location, url);
+      } catch {
+        throw new PreviewError('FETCH_FAILED', 'Redirected to an invalid URL');
+      }
+    }
+
+    throw new PreviewError('TOO_MANY_REDIRECTS', `Stopped after ${MAX_REDIRECTS} redirects`);
+  } catch (error) {
+    release();
+    throw error;
+  }
+}
+
+// Read at most maxBytes of a response body, cancelling the rest. truncated
+// says whether there was more. Reading stops with a TIMEOUT error when the
+// safeFetch() deadline passes first.
+export async function readBody(response: Response, maxBytes: number): Promise<{ bytes: Uint8Array; truncated: boolean }> {
+  const reader = response.body?.getReader();
+  const chunks: Uint8Array[] = [];
+  let bytesRead = 0;
+  let truncated = false;
+
+  if (reader) {
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        if (bytesRead + value.length > maxBytes) {
+          chunks.push(value.subarray(0, maxBytes - bytesRead));
+          bytesRead = maxBytes;
+          truncated = true;
+          break;
+        }
+        chunks.push(value);
+        bytesRead += value.length;
+      }
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        throw new PreviewError('TIMEOUT', `Timed out after ${REQUEST_TIMEOUT_MS / 1000}s`);
+      }
+      throw new PreviewError('FETCH_FAILED', error instanceof Error ? error.message : 'Reading the response failed');
+    } finally {
+      reader.cancel().catch(() => {});
+    }
+  }
+
+  const bytes = new Uint8Array(bytesRead);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return { bytes, truncated };
+}
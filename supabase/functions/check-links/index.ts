@@ -0,0 +1,189 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { PreviewError } from '../_shared/errors.ts';
+import { safeFetch } from '../_shared/network.ts';
+
+// Scheduled dead-link checker. pg_cron calls it every 30 minutes; each run
+// re-fetches a batch of stored links and records the result in item_link_checks.
+
+type LinkStatus = 'ok' | 'moved' | 'broken' | 'unknown';
+
+interface DueLink {
+  id: string;
+  user_id: string;
+  content: string;
+  failures: number;
+}
+
+interface CheckResult {
+  status: LinkStatus;
+  httpStatus: number | null;
+  finalUrl: string | null;
+  // Timeouts, 5xx and bot walls say nothing definite about the link
+  inconclusive: boolean;
+  // The host didn't resolve or refused the connection. That may be a passing
+  // DNS or network hiccup, so it only counts as broken once it persists.
+  unreachable: boolean;
+}
+
+const BATCH_SIZE = 100;
+const CONCURRENCY = 6;
+const RECHECK_AFTER_SECONDS = 7 * 24 * 60 * 60;
+// Links without a definite answer are tried again sooner, and an unreachable
+// host is marked broken after this many such runs in a row
+const RETRY_FAILING_AFTER_SECONDS = 24 * 60 * 60;
+const UNREACHABLE_RUNS_BEFORE_BROKEN = 3;
+
+const PERMANENT_REDIRECTS = [301, 308];
+
+const supabaseAdmin = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+);
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+function formatUrl(url: string): string {
+  const trimmed = url.trim();
+  return /^[a-z][a-z0-9+.-]*:(\/\/|(?!\d))/i.test(trimmed) ? trimmed : `https://${trimmed}`;
+}
+
+// Where a URL points, ignoring an http -> https upgrade, "www." and a trailing slash
+function locationKey(url: string): string {
+  try {
+    const parsed = new URL(url);
+    const path = parsed.pathname.replace(/\/+$/, '');
+    return `${parsed.hostname.replace(/^www\./, '')}${path}${parsed.search}`;
+  } catch {
+    return url;
+  }
+}
+
+async function checkUrl(url: string): Promise<CheckResult> {
+  try {
+    const { response, finalUrl, redirectStatuses, release } = await safeFetch(url, {
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (compatible; LinkPreviewBot/1.0)',
+        'Accept': 'text/html,application/xhtml+xml,*/*;q=0.8',
+      },
+    });
+    await response.body?.cancel();
+    release();
+
+    const httpStatus = response.status;
+    if (httpStatus === 404 || httpStatus === 410) {
+      return { status: 'broken', httpStatus, finalUrl, inconclusive: false, unreachable: false };
+    }
+    if (httpStatus >= 400) {
+      return { status: 'unknown', httpStatus, finalUrl, inconclusive: true, unreachable: false };
+    }
+
+    // Only permanent redirects count as a move; temporary ones are often login walls
+    const moved = PERMANENT_REDIRECTS.includes(redirectStatuses[0]) && locationKey(url) !== locationKey(finalUrl);
+    return {
+      status: moved ? 'moved' : 'ok',
+      httpStatus,
+      finalUrl: moved ? finalUrl : null,
+      inconclusive: false,
+      unreachable: false,
+    };
+  } catch (error) {
+    // An unexpected error says nothing about the link, and mustn't stop the
+    // rest of the batch from being recorded
+    if (!(error instanceof PreviewError)) {
+      console.error('Error checking link:', url, error);
+      return { status: 'unknown', httpStatus: null, finalUrl: null, inconclusive: true, unreachable: false };
+    }
+
+    switch (error.code) {
+      case 'DNS_FAILURE':
+      case 'CONNECTION_REFUSED':
+        return { status: 'unknown', httpStatus: null, finalUrl: null, inconclusive: true, unreachable: true };
+      case 'BLOCKED_ADDRESS':
+      case 'UNSUPPORTED_SCHEME':
+      case 'INVALID_URL':
+        // Not something we can (or may) check
+        return { status: 'unknown', httpStatus: null, finalUrl: null, inconclusive: false, unreachable: false };
+      default:
+        return { status: 'unknown', httpStatus: null, finalUrl: null, inconclusive: true, unreachable: false };
+    }
+  }
+}
+
+// Run tasks with at most `limit` in flight
+async function mapWithConcurrency<T, R>(values: T[], limit: number, task: (value: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(values.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < values.length) {
+      const index = next++;
+      results[index] = await task(values[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, values.length) }, worker));
+  return results;
+}
+
+// Only the scheduler, calling with the service role key, may trigger a run
+function isServiceRequest(req: Request): boolean {
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  return !!token && token === Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+}
+
+Deno.serve(async (req) => {
+  if (!isServiceRequest(req)) {
+    return jsonResponse({ success: false, error: { code: 'UNAUTHORIZED', message: 'Service role required' } }, 401);
+  }
+
+  try {
+    const { data, error } = await supabaseAdmin.rpc('links_due_for_check', {
+      batch_size: BATCH_SIZE,
+      recheck_after_seconds: RECHECK_AFTER_SECONDS,
+      retry_failing_after_seconds: RETRY_FAILING_AFTER_SECONDS,
+    });
+    if (error) throw error;
+
+    const links = (data ?? []) as DueLink[];
+
+    // Users often save the same page; fetch each URL once per run
+    const urls = [...new Set(links.map((link) => formatUrl(link.content)))];
+    const checks = await mapWithConcurrency(urls, CONCURRENCY, checkUrl);
+    const resultByUrl = new Map(urls.map((url, index) => [url, checks[index]]));
+
+    const checkedAt = new Date().toISOString();
+    const rows = links.map((link) => {
+      const result = resultByUrl.get(formatUrl(link.content))!;
+      // Only definite answers mark a link broken right away; bot walls and
+      // outages can last for weeks on live sites, so inconclusive runs are just
+      // counted, and a host that can't be reached is broken once it stays so
+      const failures = result.inconclusive ? link.failures + 1 : 0;
+      const status = result.unreachable && failures >= UNREACHABLE_RUNS_BEFORE_BROKEN ? 'broken' : result.status;
+      return {
+        item_id: link.id,
+        user_id: link.user_id,
+        status,
+        http_status: result.httpStatus,
+        final_url: result.finalUrl,
+        failures,
+        checked_at: checkedAt,
+      };
+    });
+
+    if (rows.length > 0) {
+      const { error: writeError } = await supabaseAdmin.from('item_link_checks').upsert(rows);
+      if (writeError) throw writeError;
+    }
+
+    const summary = rows.reduce<Record<string, number>>((counts, row) => {
+      counts[row.status] = (counts[row.status] ?? 0) + 1;
+      return counts;
+    }, {});
+    console.log('Checked links:', { items: rows.length, urls: urls.length, ...summary });
+
+    return jsonResponse({ success: true, data: { checked: rows.length, ...summary } });
+  } catch (error) {
+    console.error('Error checking links:', error);
+    return jsonResponse({ success: false, error: { code: 'INTERNAL', message: 'Failed to check links' } }, 500);
+  }
+});
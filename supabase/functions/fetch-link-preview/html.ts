@@ -0,0 +1,137 @@
+import { DOMParser, type Element } from 'https://deno.land/x/deno_dom@v0.1.45/deno-dom-wasm.ts';
+import { StructuredData, extractStructuredData } from './structured.ts';
+
+export interface PageMetadata {
+  title: string | null;
+  description: string | null;
+  image: string | null;
+  icon: string | null;
+  canonical_url: string | null;
+  site_name: string | null;
+  published_time: string | null;
+  og_type: string | null;
+  oembed_url: string | null;
+  structured: StructuredData | null;
+}
+
+// How far into the document to look for <meta charset>
+const CHARSET_SNIFF_BYTES = 4096;
+
+function charsetFromContentType(value: string | null): string | null {
+  const match = value?.match(/charset=["']?([\w.:-]+)/i);
+  return match ? match[1] : null;
+}
+
+function isSupportedCharset(label: string): boolean {
+  try {
+    new TextDecoder(label);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Pick the document encoding: byte order mark, then the Content-Type header,
+// then <meta charset> / <meta http-equiv="Content-Type">, then UTF-8
+export function detectCharset(bytes: Uint8Array, contentType: string | null): string {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+
+  const fromHeader = charsetFromContentType(contentType);
+  if (fromHeader && isSupportedCharset(fromHeader)) return fromHeader;
+
+  // ASCII-compatible peek is enough to read the meta tags
+  const head = new TextDecoder('latin1').decode(bytes.subarray(0, CHARSET_SNIFF_BYTES));
+  const metaCharset = head.match(/<meta[^>]+charset\s*=\s*["']?\s*([\w.:-]+)/i);
+  if (metaCharset && isSupportedCharset(metaCharset[1])) return metaCharset[1];
+
+  return 'utf-8';
+}
+
+export function decodeHtml(bytes: Uint8Array, contentType: string | null): string {
+  return new TextDecoder(detectCharset(bytes, contentType)).decode(bytes);
+}
+
+function resolveUrl(base: string, value: string | null | undefined): string | null {
+  if (!value) return null;
+  try {
+    const url = new URL(value.trim(), base);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : null;
+  } catch {
+    return null;
+  }
+}
+
+const clean = (value: string | null | undefined, maxLength: number): string | null => {
+  const text = value?.replace(/\s+/g, ' ').trim();
+  return text ? text.substring(0, maxLength) : null;
+};
+
+const toIsoDate = (value: string | null): string | null => {
+  const date = value ? new Date(value.trim()) : null;
+  return date && !isNaN(date.getTime()) ? date.toISOString() : null;
+};
+
+// Extract preview metadata from an HTML document. Attribute values and text
+// come back entity-decoded from the parser.
+export function extractMetadata(html: string, pageUrl: string): PageMetadata {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  if (!doc) {
+    return {
+      title: null,
+      description: null,
+      image: null,
+      icon: null,
+      canonical_url: null,
+      site_name: null,
+      published_time: null,
+      og_type: null,
+      oembed_url: null,
+      structured: null,
+    };
+  }
+
+  // <meta property|name="..." content="...">, first occurrence wins
+  const meta = new Map<string, string>();
+  for (const node of doc.querySelectorAll('meta')) {
+    const el = node as Element;
+    const key = (el.getAttribute('property') || el.getAttribute('name') || el.getAttribute('itemprop'))?.trim().toLowerCase();
+    const content = el.getAttribute('content');
+    if (key && content && !meta.has(key)) meta.set(key, content);
+  }
+  const first = (...keys: string[]) => keys.map((key) => meta.get(key)).find(Boolean) ?? null;
+
+  const links = [...doc.querySelectorAll('link[href]')] as Element[];
+  const findLink = (predicate: (rel: string[], el: Element) => boolean) => {
+    const link = links.find((el) => predicate((el.getAttribute('rel') || '').toLowerCase().split(/\s+/), el));
+    return link?.getAttribute('href') ?? null;
+  };
+
+  // The document's <base href> applies to relative URLs
+  const base = resolveUrl(pageUrl, doc.querySelector('base[href]')?.getAttribute('href')) ?? pageUrl;
+
+  const icon =
+    findLink((rel) => rel.includes('icon') && !rel.includes('mask-icon')) ??
+    findLink((rel) => rel.includes('apple-touch-icon')) ??
+    '/favicon.ico';
+
+  const oembedLink = findLink((rel, el) =>
+    rel.includes('alternate') && (el.getAttribute('type') || '').toLowerCase() === 'application/json+oembed'
+  );
+
+  const structured = extractStructuredData(doc);
+
+  return {
+    title: clean(first('og:title', 'twitter:title') ?? doc.querySelector('title')?.textContent, 200),
+    description: clean(first('og:description', 'twitter:description', 'description'), 300),
+    image: resolveUrl(base, first('og:image', 'og:image:url', 'og:image:secure_url', 'twitter:image', 'twitter:image:src')),
+    icon: resolveUrl(base, icon),
+    canonical_url: resolveUrl(base, findLink((rel) => rel.includes('canonical'))),
+    site_name: clean(first('og:site_name', 'application-name'), 100),
+    published_time: toIsoDate(first('article:published_time', 'datepublished', 'date')) ?? structured?.published_at ?? null,
+    og_type: clean(first('og:type'), 50),
+    oembed_url: resolveUrl(base, oembedLink),
+    structured,
+  };
+}
@@ -1,6 +1,16 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { PreviewError, isPreviewErrorCode } from '../_shared/errors.ts';
+import { readBody, safeFetch } from '../_shared/network.ts';
+import { OEmbedData, fetchOEmbed, findProviderEndpoint } from './oembed.ts';
+import { decodeHtml, extractMetadata } from './html.ts';
+import type { StructuredData } from './structured.ts';
+import { extractArticle } from './reader.ts';
+
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version',
+  // Lets the app wait as long as a rate limit asks before retrying
+  'Access-Control-Expose-Headers': 'retry-after',
 };
 
 interface LinkPreview {
@@ -9,43 +19,70 @@ interface LinkPreview {
   image: string | null;
   domain: string;
   url: string;
+  icon: string | null;
+  canonical_url: string | null;
+  site_name: string | null;
+  published_time: string | null;
+  og_type: string | null;
+  structured: StructuredData | null;
+  // oEmbed enrichment
+  html: string | null;
+  author_name: string | null;
+  provider_name: string | null;
+  thumbnail_width: number | null;
+  thumbnail_height: number | null;
+  duration: number | null;
 }
 
-function extractMetaContent(html: string, property: string): string | null {
-  // Try og: properties first
-  const ogMatch = html.match(new RegExp(`<meta[^>]*property=["']og:${property}["'][^>]*content=["']([^"']*)["']`, 'i'));
-  if (ogMatch) return ogMatch[1];
+// Columns of link_previews that mirror LinkPreview
+const PREVIEW_COLUMNS = 'title, description, image, domain, icon, canonical_url, site_name, published_time, og_type, structured, html, author_name, provider_name, thumbnail_width, thumbnail_height, duration';
 
-  // Try content before property
-  const ogMatchReverse = html.match(new RegExp(`<meta[^>]*content=["']([^"']*)["'][^>]*property=["']og:${property}["']`, 'i'));
-  if (ogMatchReverse) return ogMatchReverse[1];
+// Scrapes allowed per user per window; cache hits don't count
+const RATE_LIMIT_MAX_REQUESTS = 30;
+const RATE_LIMIT_WINDOW_SECONDS = 60;
 
-  // Try twitter: properties
-  const twitterMatch = html.match(new RegExp(`<meta[^>]*name=["']twitter:${property}["'][^>]*content=["']([^"']*)["']`, 'i'));
-  if (twitterMatch) return twitterMatch[1];
+// Stored previews are reused until they expire; failures are retried sooner
+const PREVIEW_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const FAILED_PREVIEW_TTL_MS = 24 * 60 * 60 * 1000;
 
-  // Try standard meta tags for description
-  if (property === 'description') {
-    const descMatch = html.match(/<meta[^>]*name=["']description["'][^>]*content=["']([^"']*)["']/i);
-    if (descMatch) return descMatch[1];
-    
-    const descMatchReverse = html.match(/<meta[^>]*content=["']([^"']*)["'][^>]*name=["']description["']/i);
-    if (descMatchReverse) return descMatchReverse[1];
-  }
+// How much of a page is read for a preview, and for a reader-mode article
+const PREVIEW_MAX_BYTES = 100 * 1024;
+const ARTICLE_MAX_BYTES = 1024 * 1024;
 
-  return null;
-}
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|mc_cid|mc_eid)$/i;
 
-function extractTitle(html: string): string | null {
-  // Try og:title first
-  const ogTitle = extractMetaContent(html, 'title');
-  if (ogTitle) return ogTitle;
+const supabaseAdmin = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+);
 
-  // Fall back to <title> tag
-  const titleMatch = html.match(/<title[^>]*>([^<]*)<\/title>/i);
-  if (titleMatch) return titleMatch[1].trim();
+// Cache key for a link: no fragment, no tracking parameters, sorted query
+function normalizeUrl(url: string): string {
+  try {
+    const urlObj = new URL(url);
+    urlObj.hash = '';
+    [...urlObj.searchParams.keys()]
+      .filter((key) => TRACKING_PARAMS.test(key))
+      .forEach((key) => urlObj.searchParams.delete(key));
+    urlObj.searchParams.sort();
+    return urlObj.href;
+  } catch {
+    return url;
+  }
+}
+
+// Default to https unless a scheme is given ("host:port" is not a scheme)
+function formatUrl(url: string): string {
+  const trimmed = url.trim();
+  if (trimmed.length > 2048) {
+    throw new PreviewError('INVALID_URL', 'URL is too long');
+  }
+  return /^[a-z][a-z0-9+.-]*:(\/\/|(?!\d))/i.test(trimmed) ? trimmed : `https://${trimmed}`;
+}
 
-  return null;
+function isFresh(status: string, fetchedAt: string): boolean {
+  const ttl = status === 'ok' ? PREVIEW_TTL_MS : FAILED_PREVIEW_TTL_MS;
+  return Date.now() - new Date(fetchedAt).getTime() < ttl;
 }
 
 function getDomain(url: string): string {
@@ -57,153 +94,320 @@ function getDomain(url: string): string {
   }
 }
 
-function resolveUrl(base: string, relative: string): string {
-  if (!relative) return '';
-  if (relative.startsWith('http://') || relative.startsWith('https://')) {
-    return relative;
+function jsonResponse(body: unknown, status = 200, extraHeaders: Record<string, string> = {}): Response {
+  return new Response(
+    JSON.stringify(body),
+    { status, headers: { ...corsHeaders, 'Content-Type': 'application/json', ...extraHeaders } }
+  );
+}
+
+function errorResponse(error: PreviewError): Response {
+  return jsonResponse(
+    { success: false, error: { code: error.code, message: error.message } },
+    error.status,
+    error.retryAfter ? { 'Retry-After': String(error.retryAfter) } : {}
+  );
+}
+
+// The database as the calling user sees it, so row level security and
+// folder_role() apply to what they ask for
+function userClient(req: Request) {
+  return createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: req.headers.get('Authorization')! } },
+  });
+}
+
+// Resolve the calling user from the request's JWT
+async function authenticate(req: Request): Promise<string> {
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  if (!token) {
+    throw new PreviewError('UNAUTHORIZED', 'Missing authorization header');
+  }
+
+  const { data, error } = await supabaseAdmin.auth.getUser(token);
+  if (error || !data.user) {
+    throw new PreviewError('UNAUTHORIZED', 'You must be signed in to fetch previews');
+  }
+  return data.user.id;
+}
+
+async function consumeQuota(userId: string): Promise<void> {
+  const { data: retryAfter, error } = await supabaseAdmin.rpc('consume_link_preview_quota', {
+    target_user_id: userId,
+    max_requests: RATE_LIMIT_MAX_REQUESTS,
+    window_seconds: RATE_LIMIT_WINDOW_SECONDS,
+  });
+
+  if (error) {
+    // Fail open: a broken counter shouldn't take previews down
+    console.error('Rate limit check failed:', error);
+    return;
   }
-  if (relative.startsWith('//')) {
-    return 'https:' + relative;
+  if (retryAfter > 0) {
+    throw new PreviewError('RATE_LIMITED', 'Too many preview requests, try again shortly', retryAfter);
   }
+}
+
+// Fetch an HTML page, reading at most maxBytes of it
+async function fetchHtml(formattedUrl: string, maxBytes: number): Promise<{ html: string; finalUrl: string }> {
+  const { response, finalUrl, release } = await safeFetch(formattedUrl, {
+    headers: {
+      'User-Agent': 'Mozilla/5.0 (compatible; LinkPreviewBot/1.0)',
+      'Accept': 'text/html,application/xhtml+xml',
+    },
+  });
+
   try {
-    return new URL(relative, base).href;
-  } catch {
-    return relative;
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw new PreviewError('HTTP_ERROR', `Page responded with HTTP ${response.status}`);
+    }
+
+    // Only process HTML content
+    const contentType = response.headers.get('content-type') || '';
+    if (!contentType.includes('text/html')) {
+      await response.body?.cancel();
+      throw new PreviewError('UNSUPPORTED_CONTENT', `Cannot preview ${contentType.split(';')[0] || 'unknown content'}`);
+    }
+
+    // Bytes are decoded once the charset is known, so multi-byte characters
+    // can't be split across chunks
+    const { bytes } = await readBody(response, maxBytes);
+    return { html: decodeHtml(bytes, contentType), finalUrl };
+  } finally {
+    release();
   }
 }
 
+// Fetch a page and extract its preview metadata and oEmbed discovery link
+async function scrapePage(formattedUrl: string): Promise<{ preview: LinkPreview; oembedUrl: string | null }> {
+  console.log('Fetching preview for:', formattedUrl);
+
+  // Metadata sits near the top of the page
+  const { html, finalUrl } = await fetchHtml(formattedUrl, PREVIEW_MAX_BYTES);
+
+  // Relative URLs resolve against the page we ended up on after redirects
+  const { oembed_url: oembedUrl, ...metadata } = extractMetadata(html, finalUrl);
+
+  const preview: LinkPreview = {
+    ...emptyPreview(formattedUrl),
+    ...metadata,
+  };
+
+  console.log('Preview extracted:', { title: preview.title, domain: preview.domain, hasImage: !!preview.image });
+
+  return { preview, oembedUrl };
+}
+
+function emptyPreview(formattedUrl: string): LinkPreview {
+  return {
+    title: null,
+    description: null,
+    image: null,
+    domain: getDomain(formattedUrl),
+    url: formattedUrl,
+    icon: null,
+    canonical_url: null,
+    site_name: null,
+    published_time: null,
+    og_type: null,
+    structured: null,
+    html: null,
+    author_name: null,
+    provider_name: null,
+    thumbnail_width: null,
+    thumbnail_height: null,
+    duration: null,
+  };
+}
+
+// Page metadata wins; oEmbed fills the gaps and adds embed details
+function mergeOEmbed(preview: LinkPreview, oembed: OEmbedData): LinkPreview {
+  const image = preview.image || oembed.thumbnail_url;
+  return {
+    ...preview,
+    title: preview.title || oembed.title?.substring(0, 200) || null,
+    image,
+    html: oembed.html,
+    author_name: oembed.author_name,
+    provider_name: oembed.provider_name,
+    // Dimensions only describe the oEmbed thumbnail
+    thumbnail_width: image === oembed.thumbnail_url ? oembed.thumbnail_width : null,
+    thumbnail_height: image === oembed.thumbnail_url ? oembed.thumbnail_height : null,
+    duration: oembed.duration,
+  };
+}
+
+// Scrape the page and enrich it with oEmbed data, from the built-in registry or
+// the page's discovery link. Known providers still get a preview if the page fails.
+async function buildPreview(formattedUrl: string): Promise<LinkPreview> {
+  const registryEndpoint = findProviderEndpoint(formattedUrl);
+
+  let page: { preview: LinkPreview; oembedUrl: string | null } | null = null;
+  let pageError: unknown = null;
+  try {
+    page = await scrapePage(formattedUrl);
+  } catch (error) {
+    if (!registryEndpoint || !(error instanceof PreviewError) || error.code === 'BLOCKED_ADDRESS') throw error;
+    console.log('Page scrape failed, falling back to oEmbed:', error.code);
+    pageError = error;
+  }
+
+  const endpoint = registryEndpoint ?? page?.oembedUrl;
+  const oembed = endpoint ? await fetchOEmbed(endpoint) : null;
+
+  if (!page && !oembed) throw pageError;
+  const preview = page?.preview ?? emptyPreview(formattedUrl);
+  return oembed ? mergeOEmbed(preview, oembed) : preview;
+}
+
+// Reader mode: extract the main article of a saved link and store it in
+// item_articles, so the text outlives the source page. Anyone who can edit
+// the item may save it: its creator, and editors and owners of its folder.
+async function saveArticle(req: Request, userId: string, itemId: unknown): Promise<Response> {
+  if (typeof itemId !== 'string' || !itemId) {
+    throw new PreviewError('INVALID_REQUEST', 'item_id is required');
+  }
+
+  const db = userClient(req);
+  const { data: item, error: itemError } = await db
+    .from('items')
+    .select('id, user_id, folder_id, type, content')
+    .eq('id', itemId)
+    .maybeSingle();
+
+  if (itemError) throw itemError;
+  if (!item || item.type !== 'link') {
+    throw new PreviewError('NOT_FOUND', 'Link not found');
+  }
+
+  if (item.user_id !== userId) {
+    const { data: role, error: roleError } = await db.rpc('folder_role', { target_folder_id: item.folder_id });
+    if (roleError) throw roleError;
+    if (role !== 'owner' && role !== 'editor') {
+      throw new PreviewError('FORBIDDEN', 'Only editors of this folder can save the reader view');
+    }
+  }
+
+  await consumeQuota(userId);
+
+  const formattedUrl = formatUrl(item.content);
+  console.log('Extracting article for:', formattedUrl);
+
+  const { html, finalUrl } = await fetchHtml(formattedUrl, ARTICLE_MAX_BYTES);
+  const metadata = extractMetadata(html, finalUrl);
+  const article = extractArticle(html, finalUrl);
+
+  const { data: stored, error: writeError } = await supabaseAdmin
+    .from('item_articles')
+    .upsert({
+      item_id: item.id,
+      // The article belongs with the item, whoever extracted it
+      user_id: item.user_id,
+      source_url: finalUrl,
+      title: metadata.title,
+      byline: metadata.structured?.author ?? article.byline,
+      site_name: metadata.site_name ?? getDomain(finalUrl),
+      lead_image: metadata.image ?? article.lead_image,
+      excerpt: metadata.description ?? article.excerpt,
+      blocks: article.blocks,
+      word_count: article.word_count,
+      published_time: metadata.published_time,
+      extracted_at: new Date().toISOString(),
+    })
+    .select()
+    .single();
+
+  if (writeError) throw writeError;
+
+  console.log('Article extracted:', { blocks: article.blocks.length, words: article.word_count });
+  return jsonResponse({ success: true, data: stored });
+}
+
 Deno.serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response('ok', { headers: corsHeaders });
   }
 
   try {
-    const { url } = await req.json();
+    const userId = await authenticate(req);
 
-    if (!url) {
-      return new Response(
-        JSON.stringify({ success: false, error: 'URL is required' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
+    const body = await req.json().catch(() => null);
+    const url = body?.url;
+    const refresh = body?.refresh === true;
 
-    // Format URL
-    let formattedUrl = url.trim();
-    if (!formattedUrl.startsWith('http://') && !formattedUrl.startsWith('https://')) {
-      formattedUrl = `https://${formattedUrl}`;
+    if (body?.mode === 'reader') {
+      return await saveArticle(req, userId, body?.item_id);
     }
 
-    console.log('Fetching preview for:', formattedUrl);
-
-    // Fetch the page with timeout
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 10000);
-
-    let response;
-    try {
-      response = await fetch(formattedUrl, {
-        signal: controller.signal,
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (compatible; LinkPreviewBot/1.0)',
-          'Accept': 'text/html,application/xhtml+xml',
-        },
-      });
-    } catch (fetchError) {
-      console.error('Fetch error:', fetchError);
-      // Return partial data with domain only
-      const preview: LinkPreview = {
-        title: null,
-        description: null,
-        image: null,
-        domain: getDomain(formattedUrl),
-        url: formattedUrl,
-      };
-      return new Response(
-        JSON.stringify({ success: true, data: preview }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    } finally {
-      clearTimeout(timeoutId);
+    if (typeof url !== 'string' || !url.trim()) {
+      throw new PreviewError('INVALID_REQUEST', 'URL is required');
     }
 
-    if (!response.ok) {
-      console.log('Response not OK:', response.status);
-      const preview: LinkPreview = {
-        title: null,
-        description: null,
-        image: null,
-        domain: getDomain(formattedUrl),
-        url: formattedUrl,
-      };
-      return new Response(
-        JSON.stringify({ success: true, data: preview }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
+    const formattedUrl = formatUrl(url);
+    const cacheKey = normalizeUrl(formattedUrl);
 
-    // Only process HTML content
-    const contentType = response.headers.get('content-type') || '';
-    if (!contentType.includes('text/html')) {
-      console.log('Not HTML content:', contentType);
-      const preview: LinkPreview = {
-        title: null,
-        description: null,
-        image: null,
-        domain: getDomain(formattedUrl),
-        url: formattedUrl,
-      };
-      return new Response(
-        JSON.stringify({ success: true, data: preview }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
+    // Read-through: serve the stored preview (or stored failure) while it is fresh
+    if (!refresh) {
+      const { data: stored, error: readError } = await supabaseAdmin
+        .from('link_previews')
+        .select(`${PREVIEW_COLUMNS}, status, error_code, fetched_at`)
+        .eq('url', cacheKey)
+        .maybeSingle();
+
+      if (readError) console.error('Error reading stored preview:', readError);
+      if (stored && isFresh(stored.status, stored.fetched_at)) {
+        if (stored.status !== 'ok') {
+          const code = isPreviewErrorCode(stored.error_code) ? stored.error_code : 'FETCH_FAILED';
+          return errorResponse(new PreviewError(code, 'Preview unavailable (cached failure)'));
+        }
 
-    // Read only first 100KB to avoid memory issues
-    const reader = response.body?.getReader();
-    let html = '';
-    let bytesRead = 0;
-    const maxBytes = 100 * 1024;
-
-    if (reader) {
-      const decoder = new TextDecoder();
-      while (bytesRead < maxBytes) {
-        const { done, value } = await reader.read();
-        if (done) break;
-        html += decoder.decode(value, { stream: true });
-        bytesRead += value.length;
+        const { status: _status, error_code: _errorCode, fetched_at: _fetchedAt, ...fields } = stored;
+        const preview: LinkPreview = { ...fields, url: formattedUrl };
+        return jsonResponse({ success: true, data: preview, cached: true });
       }
-      reader.cancel();
     }
 
-    // Extract metadata
-    const title = extractTitle(html);
-    const description = extractMetaContent(html, 'description');
-    let image = extractMetaContent(html, 'image');
+    await consumeQuota(userId);
 
-    // Resolve relative image URLs
-    if (image) {
-      image = resolveUrl(formattedUrl, image);
+    let preview: LinkPreview;
+    try {
+      preview = await buildPreview(formattedUrl);
+    } catch (error) {
+      // Write-through failures too, so dead or blocked links aren't re-scraped on every view
+      if (error instanceof PreviewError && error.cacheable) {
+        const { error: writeError } = await supabaseAdmin
+          .from('link_previews')
+          .upsert({
+            ...emptyPreview(formattedUrl),
+            url: cacheKey,
+            status: error.code === 'UNSUPPORTED_CONTENT' ? 'unsupported' : 'failed',
+            error_code: error.code,
+            fetched_at: new Date().toISOString(),
+          });
+        if (writeError) console.error('Error storing preview:', writeError);
+      }
+      throw error;
     }
 
-    const preview: LinkPreview = {
-      title: title ? title.substring(0, 200) : null,
-      description: description ? description.substring(0, 300) : null,
-      image,
-      domain: getDomain(formattedUrl),
-      url: formattedUrl,
-    };
-
-    console.log('Preview extracted:', { title: preview.title, domain: preview.domain, hasImage: !!preview.image });
+    const { error: writeError } = await supabaseAdmin
+      .from('link_previews')
+      .upsert({
+        ...preview,
+        url: cacheKey,
+        status: 'ok',
+        error_code: null,
+        fetched_at: new Date().toISOString(),
+      });
+    if (writeError) console.error('Error storing preview:', writeError);
 
-    return new Response(
-      JSON.stringify({ success: true, data: preview }),
-      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
+    return jsonResponse({ success: true, data: preview, cached: false });
   } catch (error) {
+    if (error instanceof PreviewError) {
+      console.log('Preview failed:', error.code, error.message);
+      return errorResponse(error);
+    }
     console.error('Error fetching preview:', error);
-    return new Response(
-      JSON.stringify({ success: false, error: error instanceof Error ? error.message : 'Failed to fetch preview' }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
+    return errorResponse(new PreviewError('INTERNAL', 'Failed to fetch preview'));
   }
 });
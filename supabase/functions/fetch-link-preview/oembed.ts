@@ -0,0 +1,106 @@
+import { readBody, safeFetch } from '../_shared/network.ts';
+
+export interface OEmbedData {
+  type: string | null;
+  title: string | null;
+  html: string | null;
+  author_name: string | null;
+  provider_name: string | null;
+  thumbnail_url: string | null;
+  thumbnail_width: number | null;
+  thumbnail_height: number | null;
+  duration: number | null; // Seconds, when the provider reports it
+}
+
+interface OEmbedProvider {
+  name: string;
+  hosts: RegExp;
+  paths?: RegExp;
+  endpoint: string;
+}
+
+// Providers queried directly, without needing discovery tags in the page
+const PROVIDERS: OEmbedProvider[] = [
+  { name: 'YouTube', hosts: /(^|\.)(youtube\.com|youtu\.be)$/, paths: /^\/(watch|shorts\/|live\/|embed\/|[\w-]{11}$)/, endpoint: 'https://www.youtube.com/oembed' },
+  { name: 'Vimeo', hosts: /(^|\.)vimeo\.com$/, paths: /^\/(\d+|channels\/|groups\/|album\/|video\/)/, endpoint: 'https://vimeo.com/api/oembed.json' },
+  { name: 'X', hosts: /(^|\.)(twitter\.com|x\.com)$/, paths: /^\/\w+\/status\/\d+/, endpoint: 'https://publish.twitter.com/oembed' },
+  { name: 'Spotify', hosts: /^open\.spotify\.com$/, endpoint: 'https://open.spotify.com/oembed' },
+  { name: 'SoundCloud', hosts: /(^|\.)soundcloud\.com$/, endpoint: 'https://soundcloud.com/oembed' },
+  { name: 'TikTok', hosts: /(^|\.)tiktok\.com$/, paths: /\/video\/\d+/, endpoint: 'https://www.tiktok.com/oembed' },
+  { name: 'Reddit', hosts: /(^|\.)reddit\.com$/, paths: /\/comments\//, endpoint: 'https://www.reddit.com/oembed' },
+  { name: 'Flickr', hosts: /(^|\.)(flickr\.com|flic\.kr)$/, endpoint: 'https://www.flickr.com/services/oembed/' },
+  { name: 'CodePen', hosts: /^codepen\.io$/, paths: /\/pen\//, endpoint: 'https://codepen.io/api/oembed' },
+];
+
+const MAX_OEMBED_BYTES = 64 * 1024;
+
+// oEmbed endpoint for a URL from the built-in registry, if its host is known
+export function findProviderEndpoint(url: string): string | null {
+  try {
+    const { hostname, pathname } = new URL(url);
+    const host = hostname.toLowerCase();
+    const provider = PROVIDERS.find((p) => p.hosts.test(host) && (!p.paths || p.paths.test(pathname)));
+    if (!provider) return null;
+    const endpoint = new URL(provider.endpoint);
+    endpoint.searchParams.set('url', url);
+    endpoint.searchParams.set('format', 'json');
+    return endpoint.href;
+  } catch {
+    return null;
+  }
+}
+
+const asString = (value: unknown): string | null =>
+  typeof value === 'string' && value.trim() ? value.trim() : null;
+
+const asNumber = (value: unknown): number | null => {
+  const number = typeof value === 'string' ? Number(value) : value;
+  return typeof number === 'number' && isFinite(number) && number > 0 ? Math.round(number) : null;
+};
+
+// Fetch and normalize an oEmbed JSON response. Returns null on any failure,
+// since oEmbed only enriches a preview.
+export async function fetchOEmbed(endpoint: string): Promise<OEmbedData | null> {
+  try {
+    const { response, release } = await safeFetch(endpoint, {
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (compatible; LinkPreviewBot/1.0)',
+        'Accept': 'application/json',
+      },
+    });
+
+    let body: { bytes: Uint8Array; truncated: boolean };
+    try {
+      if (!response.ok) {
+        await response.body?.cancel();
+        console.log('oEmbed response not OK:', response.status);
+        return null;
+      }
+
+      // Read no further than the cap, however much the endpoint sends
+      body = await readBody(response, MAX_OEMBED_BYTES);
+    } finally {
+      release();
+    }
+    if (body.truncated) {
+      console.log('oEmbed response too large');
+      return null;
+    }
+    const data = JSON.parse(new TextDecoder().decode(body.bytes));
+
+    return {
+      type: asString(data.type),
+      title: asString(data.title),
+      html: asString(data.html),
+      author_name: asString(data.author_name),
+      provider_name: asString(data.provider_name),
+      thumbnail_url: asString(data.thumbnail_url),
+      thumbnail_width: asNumber(data.thumbnail_width),
+      thumbnail_height: asNumber(data.thumbnail_height),
+      duration: asNumber(data.duration),
+    };
+  } catch (error) {
+    console.log('oEmbed fetch failed:', error instanceof Error ? error.message : error);
+    return null;
+  }
+}
@@ -0,0 +1,239 @@
+import { DOMParser, type Element } from 'https://deno.land/x/deno_dom@v0.1.45/deno-dom-wasm.ts';
+import { PreviewError } from '../_shared/errors.ts';
+
+// A piece of cleaned article content. Stored as data rather than HTML so the
+// client never renders markup from the source page.
+// Keep in sync with src/lib/article.ts.
+export type ArticleBlock =
+  | { type: 'heading'; level: 2 | 3 | 4; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'list'; ordered: boolean; items: string[] }
+  | { type: 'quote'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'image'; src: string; alt: string | null };
+
+export interface ExtractedArticle {
+  blocks: ArticleBlock[];
+  byline: string | null;
+  excerpt: string | null;
+  lead_image: string | null;
+  word_count: number;
+}
+
+// Never part of the article body
+const REMOVE_SELECTOR = [
+  'script', 'style', 'noscript', 'template', 'iframe', 'object', 'embed', 'svg', 'canvas',
+  'form', 'button', 'input', 'select', 'textarea', 'nav', 'aside', 'footer', 'header',
+  '[role="navigation"]', '[role="banner"]', '[role="complementary"]', '[role="dialog"]',
+  '[aria-hidden="true"]', '[hidden]',
+].join(', ');
+
+const UNLIKELY = /comment|sidebar|footer|masthead|menu|promo|related|share|social|sponsor|advert|\bads?\b|cookie|consent|newsletter|subscribe|popup|modal|breadcrumb|pagination|disqus|outbrain|taboola/i;
+const LIKELY = /article|content|main|post|body|entry|story|text|prose/i;
+
+const MIN_PARAGRAPH_LENGTH = 25;
+const MIN_ARTICLE_LENGTH = 250;
+const MAX_BLOCKS = 1500;
+const MAX_TEXT_LENGTH = 200_000;
+
+const normalize = (value: string) => value.replace(/\s+/g, ' ').trim();
+
+const classAndId = (el: Element) => `${el.getAttribute('class') ?? ''} ${el.getAttribute('id') ?? ''}`;
+
+function classWeight(el: Element): number {
+  const names = classAndId(el);
+  return (LIKELY.test(names) ? 25 : 0) - (UNLIKELY.test(names) ? 25 : 0);
+}
+
+function tagWeight(el: Element): number {
+  switch (el.tagName.toLowerCase()) {
+    case 'article':
+      return 10;
+    case 'div':
+    case 'main':
+    case 'section':
+      return 5;
+    case 'pre':
+    case 'td':
+    case 'blockquote':
+      return 3;
+    case 'ol':
+    case 'ul':
+    case 'dl':
+    case 'li':
+      return -3;
+    default:
+      return /^h[1-6]$|^th$/i.test(el.tagName) ? -5 : 0;
+  }
+}
+
+// Share of an element's text that sits inside links; navigation is mostly links
+function linkDensity(el: Element): number {
+  const length = normalize(el.textContent).length;
+  if (!length) return 1;
+  const linkLength = ([...el.querySelectorAll('a')] as Element[])
+    .reduce((total, link) => total + normalize(link.textContent).length, 0);
+  return Math.min(linkLength / length, 1);
+}
+
+function resolveSrc(base: string, el: Element): string | null {
+  // Lazy-loaded images keep the real source in a data attribute
+  const value = el.getAttribute('data-src') || el.getAttribute('src');
+  if (!value || value.startsWith('data:')) return null;
+  try {
+    const url = new URL(value.trim(), base);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : null;
+  } catch {
+    return null;
+  }
+}
+
+// Drop boilerplate before scoring so it can't win
+function stripBoilerplate(root: Element): void {
+  for (const el of [...root.querySelectorAll(REMOVE_SELECTOR)] as Element[]) el.remove();
+  for (const el of [...root.querySelectorAll('div, section, span, ul, table')] as Element[]) {
+    const names = classAndId(el);
+    if (UNLIKELY.test(names) && !LIKELY.test(names)) el.remove();
+  }
+}
+
+// Score paragraph containers by the amount of prose in them and pick the best
+function findContentRoot(body: Element): Element {
+  const scores = new Map<Element, number>();
+  const addScore = (el: Element | null, score: number) => {
+    if (!el) return;
+    if (!scores.has(el)) scores.set(el, tagWeight(el) + classWeight(el));
+    scores.set(el, scores.get(el)! + score);
+  };
+
+  for (const node of body.querySelectorAll('p, pre, td, blockquote')) {
+    const text = normalize((node as Element).textContent);
+    if (text.length < MIN_PARAGRAPH_LENGTH) continue;
+
+    const score = 1 + text.split(',').length + Math.min(Math.floor(text.length / 100), 3);
+    const parent = (node as Element).parentElement;
+    addScore(parent, score);
+    addScore(parent?.parentElement ?? null, score / 2);
+  }
+
+  let best: Element = body;
+  let bestScore = 0;
+  for (const [el, score] of scores) {
+    const adjusted = score * (1 - linkDensity(el));
+    if (adjusted > bestScore) {
+      best = el;
+      bestScore = adjusted;
+    }
+  }
+  return best;
+}
+
+const BLOCK_SELECTOR = 'p, h1, h2, h3, h4, h5, h6, ul, ol, pre, blockquote, img, figure, table, div, section, article';
+
+function collectBlocks(el: Element, base: string, blocks: ArticleBlock[]): void {
+  for (const child of Array.from(el.children) as Element[]) {
+    if (blocks.length >= MAX_BLOCKS) return;
+    const tag = child.tagName.toLowerCase();
+
+    if (/^h[1-6]$/.test(tag)) {
+      const text = normalize(child.textContent);
+      const level = Math.min(Math.max(Number(tag[1]), 2), 4) as 2 | 3 | 4;
+      if (text) blocks.push({ type: 'heading', level, text });
+    } else if (tag === 'p') {
+      const text = normalize(child.textContent);
+      // Short link-heavy paragraphs are usually "Read more" style chrome
+      if (text && !(text.length < 200 && linkDensity(child) > 0.5)) blocks.push({ type: 'paragraph', text });
+      for (const img of child.querySelectorAll('img')) {
+        const src = resolveSrc(base, img as Element);
+        if (src) blocks.push({ type: 'image', src, alt: (img as Element).getAttribute('alt') || null });
+      }
+    } else if (tag === 'ul' || tag === 'ol') {
+      const items = ([...child.children] as Element[])
+        .filter((item) => item.tagName.toLowerCase() === 'li')
+        .map((item) => normalize(item.textContent))
+        .filter(Boolean);
+      if (items.length && linkDensity(child) < 0.5) blocks.push({ type: 'list', ordered: tag === 'ol', items });
+    } else if (tag === 'pre') {
+      const text = child.textContent.replace(/^\n+|\s+$/g, '');
+      if (text) blocks.push({ type: 'code', text });
+    } else if (tag === 'blockquote') {
+      const text = normalize(child.textContent);
+      if (text) blocks.push({ type: 'quote', text });
+    } else if (tag === 'img' || tag === 'picture') {
+      const img = tag === 'img' ? child : child.querySelector('img') as Element | null;
+      const src = img ? resolveSrc(base, img) : null;
+      if (src) blocks.push({ type: 'image', src, alt: img!.getAttribute('alt') || null });
+    } else if (tag === 'figure') {
+      const img = child.querySelector('img') as Element | null;
+      const src = img ? resolveSrc(base, img) : null;
+      const caption = normalize(child.querySelector('figcaption')?.textContent ?? '');
+      if (src) blocks.push({ type: 'image', src, alt: caption || img!.getAttribute('alt') || null });
+    } else if (tag === 'table') {
+      // Layout tables hold prose; data tables don't read well as text
+      if (child.querySelector('p')) collectBlocks(child, base, blocks);
+    } else if (child.querySelector(BLOCK_SELECTOR)) {
+      collectBlocks(child, base, blocks);
+    } else {
+      // Bare text in a div is a paragraph too
+      const text = normalize(child.textContent);
+      if (text.length >= MIN_PARAGRAPH_LENGTH && linkDensity(child) < 0.5) blocks.push({ type: 'paragraph', text });
+    }
+  }
+}
+
+const blockText = (block: ArticleBlock) =>
+  block.type === 'image' ? '' : block.type === 'list' ? block.items.join(' ') : block.text;
+
+// Readability-style extraction of the main article text and lead image
+export function extractArticle(html: string, pageUrl: string): ExtractedArticle {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const body = doc?.body as Element | null;
+  if (!doc || !body) throw new PreviewError('NO_ARTICLE', 'No readable article found on this page');
+
+  const baseHref = doc.querySelector('base[href]')?.getAttribute('href');
+  let base = pageUrl;
+  try {
+    if (baseHref) base = new URL(baseHref, pageUrl).href;
+  } catch {
+    // Keep the page URL
+  }
+
+  const byline = normalize(
+    doc.querySelector('meta[name="author"]')?.getAttribute('content') ??
+    doc.querySelector('[rel="author"], [itemprop="author"]')?.textContent ??
+    ''
+  ).substring(0, 100) || null;
+
+  stripBoilerplate(body);
+  const root = findContentRoot(body);
+
+  const collected: ArticleBlock[] = [];
+  collectBlocks(root, base, collected);
+
+  // Drop repeats (e.g. a caption echoed as alt text) and cap the stored size
+  const blocks: ArticleBlock[] = [];
+  let textLength = 0;
+  for (const block of collected) {
+    const previous = blocks[blocks.length - 1];
+    if (previous && JSON.stringify(previous) === JSON.stringify(block)) continue;
+    textLength += blockText(block).length;
+    if (textLength > MAX_TEXT_LENGTH) break;
+    blocks.push(block);
+  }
+
+  if (textLength < MIN_ARTICLE_LENGTH) {
+    throw new PreviewError('NO_ARTICLE', 'No readable article found on this page');
+  }
+
+  const firstImage = blocks.find((block) => block.type === 'image');
+  const firstParagraph = blocks.find((block) => block.type === 'paragraph');
+  const wordCount = blocks.reduce((total, block) => total + (blockText(block).match(/\S+/g)?.length ?? 0), 0);
+
+  return {
+    blocks,
+    byline,
+    excerpt: firstParagraph ? blockText(firstParagraph).substring(0, 300) : null,
+    lead_image: firstImage?.type === 'image' ? firstImage.src : null,
+    word_count: wordCount,
+  };
+}
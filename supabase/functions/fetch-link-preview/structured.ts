@@ -0,0 +1,224 @@
+import type { Document, Element } from 'https://deno.land/x/deno_dom@v0.1.45/deno-dom-wasm.ts';
+
+export type StructuredDataType = 'recipe' | 'product' | 'event' | 'article';
+
+// Typed summary of a page's schema.org data. Keep in sync with src/lib/link-preview.ts.
+export type StructuredData = {
+  type: StructuredDataType;
+  author?: string;
+  published_at?: string;
+  price?: number;
+  currency?: string;
+  rating?: number;
+  rating_count?: number;
+  event_start?: string;
+  event_end?: string;
+  event_location?: string;
+  recipe_yield?: string;
+  total_time?: number; // Minutes
+};
+
+// A JSON-LD node, or a microdata item converted to the same shape
+type SchemaNode = Record<string, unknown>;
+
+// More specific types win when a page describes several things
+const TYPE_PRIORITY: StructuredDataType[] = ['recipe', 'product', 'event', 'article'];
+
+function classifyType(name: string): StructuredDataType | null {
+  if (name === 'Recipe') return 'recipe';
+  if (name === 'Product' || name === 'ProductGroup' || name === 'IndividualProduct') return 'product';
+  if (name === 'Event' || name === 'Festival' || /Event$/.test(name)) return 'event';
+  if (/Article$/.test(name) || name === 'BlogPosting' || name === 'Report') return 'article';
+  return null;
+}
+
+function classifyNode(node: SchemaNode): StructuredDataType | null {
+  const types = ([] as unknown[]).concat(node['@type'] ?? []).filter((t): t is string => typeof t === 'string');
+  const matches = types.map((t) => classifyType(t.replace(/^.*[/#:]/, ''))).filter(Boolean) as StructuredDataType[];
+  return TYPE_PRIORITY.find((type) => matches.includes(type)) ?? null;
+}
+
+const isNode = (value: unknown): value is SchemaNode =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const firstOf = (value: unknown): unknown => (Array.isArray(value) ? value[0] : value);
+
+// Plain text from a string, number, or named node
+function text(value: unknown, maxLength = 100): string | undefined {
+  const item = firstOf(value);
+  const raw = typeof item === 'string' || typeof item === 'number' ? String(item) : isNode(item) ? text(item.name, maxLength) : undefined;
+  const cleaned = raw?.replace(/\s+/g, ' ').trim();
+  return cleaned ? cleaned.substring(0, maxLength) : undefined;
+}
+
+function number(value: unknown): number | undefined {
+  const item = firstOf(value);
+  const parsed = typeof item === 'number' ? item : typeof item === 'string' ? parseFloat(item.replace(/,/g, '')) : NaN;
+  return isFinite(parsed) ? parsed : undefined;
+}
+
+function isoDate(value: unknown): string | undefined {
+  const raw = text(value);
+  const date = raw ? new Date(raw) : null;
+  return date && !isNaN(date.getTime()) ? date.toISOString() : undefined;
+}
+
+// ISO 8601 duration ("PT1H30M") to minutes
+function minutes(value: unknown): number | undefined {
+  const match = text(value)?.match(/^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:[\d.]+S)?)?$/i);
+  if (!match) return undefined;
+  const total = Number(match[1] ?? 0) * 1440 + Number(match[2] ?? 0) * 60 + Number(match[3] ?? 0);
+  return total > 0 ? total : undefined;
+}
+
+function authors(value: unknown): string | undefined {
+  const names = ([] as unknown[]).concat(value ?? []).map((author) => text(author)).filter(Boolean);
+  return names.length ? names.slice(0, 3).join(', ') : undefined;
+}
+
+// Sites often give both "4" and "4 servings"; prefer the descriptive one
+function recipeYield(value: unknown): string | undefined {
+  const yields = ([] as unknown[]).concat(value ?? []).map((item) => text(item, 50)).filter(Boolean) as string[];
+  return yields.find((item) => /\D/.test(item)) ?? yields[0];
+}
+
+function location(value: unknown): string | undefined {
+  const place = firstOf(value);
+  if (!isNode(place)) return text(place);
+  if (String(place['@type'] ?? '').includes('VirtualLocation')) return 'Online';
+
+  const address = place.address;
+  const locality = isNode(address) ? text(address.addressLocality) : text(address);
+  return [text(place.name), locality].filter(Boolean).join(', ') || undefined;
+}
+
+function describe(node: SchemaNode, type: StructuredDataType): StructuredData {
+  const data: StructuredData = { type };
+
+  const rating = isNode(node.aggregateRating) ? node.aggregateRating : null;
+  if (rating) {
+    data.rating = number(rating.ratingValue);
+    data.rating_count = number(rating.ratingCount) ?? number(rating.reviewCount);
+  }
+
+  switch (type) {
+    case 'article':
+      data.author = authors(node.author);
+      data.published_at = isoDate(node.datePublished ?? node.dateCreated);
+      break;
+    case 'recipe':
+      data.author = authors(node.author);
+      data.recipe_yield = recipeYield(node.recipeYield);
+      data.total_time = minutes(node.totalTime) ?? minutes(node.cookTime);
+      break;
+    case 'product': {
+      const offer = firstOf(node.offers);
+      if (isNode(offer)) {
+        data.price = number(offer.price) ?? number(offer.lowPrice);
+        data.currency = text(offer.priceCurrency, 3)?.toUpperCase();
+      }
+      break;
+    }
+    case 'event':
+      data.event_start = isoDate(node.startDate);
+      data.event_end = isoDate(node.endDate);
+      data.event_location = location(node.location);
+      break;
+  }
+
+  // Drop empty fields so the stored JSON stays small
+  return Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined)) as StructuredData;
+}
+
+// Top-level nodes of a JSON-LD block: arrays, @graph and mainEntity are flattened
+function collectNodes(value: unknown, out: SchemaNode[], depth = 0): void {
+  if (depth > 3) return;
+  if (Array.isArray(value)) {
+    value.forEach((item) => collectNodes(item, out, depth + 1));
+  } else if (isNode(value)) {
+    out.push(value);
+    if (value['@graph']) collectNodes(value['@graph'], out, depth + 1);
+    if (value.mainEntity) collectNodes(value.mainEntity, out, depth + 1);
+  }
+}
+
+function readJsonLd(doc: Document): SchemaNode[] {
+  const nodes: SchemaNode[] = [];
+  for (const script of doc.querySelectorAll('script[type="application/ld+json"]')) {
+    const source = (script as Element).textContent.trim().replace(/^<!--|-->$/g, '');
+    try {
+      collectNodes(JSON.parse(source), nodes);
+    } catch {
+      // Invalid JSON-LD is common; skip the block
+    }
+  }
+  return nodes;
+}
+
+function readMicrodataValue(el: Element): unknown {
+  if (el.hasAttribute('itemscope')) return readMicrodataItem(el);
+  switch (el.tagName.toLowerCase()) {
+    case 'meta':
+      return el.getAttribute('content');
+    case 'a':
+    case 'link':
+    case 'area':
+      return el.getAttribute('href');
+    case 'img':
+    case 'source':
+    case 'video':
+    case 'audio':
+      return el.getAttribute('src');
+    case 'time':
+      return el.getAttribute('datetime') ?? el.textContent;
+    case 'data':
+    case 'meter':
+      return el.getAttribute('value');
+    default:
+      return el.getAttribute('content') ?? el.textContent;
+  }
+}
+
+// Convert an itemscope element into a JSON-LD style node. Properties belong to
+// the nearest enclosing itemscope, so nested items are not descended into.
+function readMicrodataItem(scope: Element): SchemaNode {
+  const node: SchemaNode = { '@type': scope.getAttribute('itemtype')?.trim().split(/\s+/) ?? [] };
+
+  const visit = (parent: Element) => {
+    for (const el of Array.from(parent.children) as Element[]) {
+      const props = el.getAttribute('itemprop')?.trim().split(/\s+/) ?? [];
+      if (props.length) {
+        const value = readMicrodataValue(el);
+        for (const prop of props) {
+          if (!(prop in node)) node[prop] = value;
+        }
+      }
+      if (!el.hasAttribute('itemscope')) visit(el);
+    }
+  };
+  visit(scope);
+
+  return node;
+}
+
+function readMicrodata(doc: Document): SchemaNode[] {
+  return ([...doc.querySelectorAll('[itemscope][itemtype]')] as Element[])
+    .filter((el) => !el.hasAttribute('itemprop'))
+    .map(readMicrodataItem);
+}
+
+// Summarise the most specific recipe, product, event or article described by
+// the page's JSON-LD, falling back to microdata
+export function extractStructuredData(doc: Document): StructuredData | null {
+  for (const nodes of [readJsonLd(doc), readMicrodata(doc)]) {
+    const typed = nodes
+      .map((node) => ({ node, type: classifyNode(node) }))
+      .filter((entry): entry is { node: SchemaNode; type: StructuredDataType } => entry.type !== null);
+
+    for (const type of TYPE_PRIORITY) {
+      const match = typed.find((entry) => entry.type === type);
+      if (match) return describe(match.node, type);
+    }
+  }
+  return null;
+}
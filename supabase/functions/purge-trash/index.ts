@@ -0,0 +1,70 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+// Nightly trash purge. pg_cron calls it once a day; it permanently deletes
+// everything that has been in the trash for over 30 days. Uploaded files go
+// through the Storage API first, since deleting storage.objects rows from SQL
+// is blocked and would leave the blobs behind anyway.
+
+const TRASH_RETENTION_DAYS = 30;
+const ITEM_FILES_BUCKET = 'item-files';
+// Rows read per query, and paths per Storage remove() call
+const PAGE_SIZE = 1000;
+
+const supabaseAdmin = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+);
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+// Only the scheduler, calling with the service role key, may trigger a run
+function isServiceRequest(req: Request): boolean {
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  return !!token && token === Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+}
+
+async function expiredFilePaths(cutoff: string): Promise<string[]> {
+  const paths: string[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabaseAdmin
+      .from('items')
+      .select('file_path')
+      .lt('deleted_at', cutoff)
+      .not('file_path', 'is', null)
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+
+    paths.push(...(data ?? []).map((row: { file_path: string }) => row.file_path));
+    if (!data || data.length < PAGE_SIZE) return paths;
+  }
+}
+
+Deno.serve(async (req) => {
+  if (!isServiceRequest(req)) {
+    return jsonResponse({ success: false, error: { code: 'UNAUTHORIZED', message: 'Service role required' } }, 401);
+  }
+
+  try {
+    // One cutoff for both steps, so no row is deleted whose file was kept
+    const cutoff = new Date(Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+    const paths = await expiredFilePaths(cutoff);
+    for (let start = 0; start < paths.length; start += PAGE_SIZE) {
+      const { error } = await supabaseAdmin.storage.from(ITEM_FILES_BUCKET).remove(paths.slice(start, start + PAGE_SIZE));
+      // Keep the rows so the next run tries these files again
+      if (error) throw error;
+    }
+
+    const { error } = await supabaseAdmin.rpc('purge_trash', { cutoff });
+    if (error) throw error;
+
+    console.log('Purged trash:', { cutoff, files: paths.length });
+    return jsonResponse({ success: true, data: { files: paths.length } });
+  } catch (error) {
+    console.error('Error purging trash:', error);
+    return jsonResponse({ success: false, error: { code: 'INTERNAL', message: 'Failed to purge trash' } }, 500);
+  }
+});
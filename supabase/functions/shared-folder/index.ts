@@ -0,0 +1,81 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+// Public view of a folder shared with a link (/s/:slug). Anyone may call it;
+// get_shared_folder() locks a share after too many wrong passwords, and this
+// function also limits password attempts per IP address, so guessing across
+// many shares is slowed down too.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version',
+};
+
+// Password attempts allowed per IP address per window
+const RATE_LIMIT_MAX_ATTEMPTS = 20;
+const RATE_LIMIT_WINDOW_SECONDS = 15 * 60;
+
+const supabaseAdmin = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+);
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+}
+
+// The caller's address as seen by the edge runtime's proxy
+function getClientIp(req: Request): string | null {
+  return req.headers.get('x-forwarded-for')?.split(',')[0].trim() || null;
+}
+
+// Seconds until the client may try another password, or 0
+async function consumeAttempt(clientIp: string): Promise<number> {
+  const { data: retryAfter, error } = await supabaseAdmin.rpc('consume_share_access_quota', {
+    target_client_key: `ip:${clientIp}`,
+    max_requests: RATE_LIMIT_MAX_ATTEMPTS,
+    window_seconds: RATE_LIMIT_WINDOW_SECONDS,
+  });
+
+  if (error) {
+    // Fail open: get_shared_folder() still limits each share
+    console.error('Rate limit check failed:', error);
+    return 0;
+  }
+  return retryAfter;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const body = await req.json().catch(() => null);
+    const slug = body?.slug;
+    const password = typeof body?.password === 'string' && body.password ? body.password : null;
+
+    if (typeof slug !== 'string' || !slug.trim()) {
+      return jsonResponse({ success: false, error: { code: 'INVALID_REQUEST', message: 'Slug is required' } }, 400);
+    }
+
+    // Only password checks count; opening unprotected links is never limited
+    const clientIp = getClientIp(req);
+    if (password && clientIp) {
+      const retryAfter = await consumeAttempt(clientIp);
+      if (retryAfter > 0) {
+        return jsonResponse({ success: true, data: { status: 'rate_limited', retry_after: retryAfter } });
+      }
+    }
+
+    const { data, error } = await supabaseAdmin.rpc('get_shared_folder', {
+      share_slug: slug,
+      share_password: password,
+    });
+    if (error) throw error;
+
+    return jsonResponse({ success: true, data });
+  } catch (error) {
+    console.error('Error opening shared folder:', error);
+    return jsonResponse({ success: false, error: { code: 'INTERNAL', message: 'Failed to open shared folder' } }, 500);
+  }
+});
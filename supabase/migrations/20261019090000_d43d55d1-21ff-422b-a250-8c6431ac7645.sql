@@ -0,0 +1,27 @@
+-- Private bucket for files uploaded through the "Upload File" tab.
+-- Objects are stored under "<user_id>/<uuid>-<file name>" so the first path
+-- segment identifies the owner.
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('item-files', 'item-files', false, 20971520)
+ON CONFLICT (id) DO NOTHING;
+
+-- RLS policies for item files (mirror the items policies)
+CREATE POLICY "Users can view their own item files"
+  ON storage.objects FOR SELECT
+  USING (bucket_id = 'item-files' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can upload their own item files"
+  ON storage.objects FOR INSERT
+  WITH CHECK (bucket_id = 'item-files' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can update their own item files"
+  ON storage.objects FOR UPDATE
+  USING (bucket_id = 'item-files' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can delete their own item files"
+  ON storage.objects FOR DELETE
+  USING (bucket_id = 'item-files' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+-- Path of the uploaded object in the item-files bucket (null for URL/text items)
+ALTER TABLE public.items
+  ADD COLUMN file_path TEXT;
@@ -0,0 +1,99 @@
+-- Create tags table (many-to-many with items via item_tags)
+CREATE TABLE public.tags (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  name TEXT NOT NULL,
+  color TEXT DEFAULT '#6366f1',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT tags_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.profiles(id) ON DELETE CASCADE,
+  CONSTRAINT tags_user_id_name_key UNIQUE (user_id, name)
+);
+
+-- Join table between items and tags
+CREATE TABLE public.item_tags (
+  item_id UUID NOT NULL,
+  tag_id UUID NOT NULL,
+  user_id UUID NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (item_id, tag_id),
+  CONSTRAINT item_tags_item_id_fkey FOREIGN KEY (item_id) REFERENCES public.items(id) ON DELETE CASCADE,
+  CONSTRAINT item_tags_tag_id_fkey FOREIGN KEY (tag_id) REFERENCES public.tags(id) ON DELETE CASCADE,
+  CONSTRAINT item_tags_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.profiles(id) ON DELETE CASCADE
+);
+
+-- Enable RLS
+ALTER TABLE public.tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.item_tags ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for tags
+CREATE POLICY "Users can view their own tags"
+  ON public.tags FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own tags"
+  ON public.tags FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own tags"
+  ON public.tags FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own tags"
+  ON public.tags FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- RLS policies for item_tags
+CREATE POLICY "Users can view their own item tags"
+  ON public.item_tags FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own item tags"
+  ON public.item_tags FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own item tags"
+  ON public.item_tags FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own item tags"
+  ON public.item_tags FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Add trigger for tags updated_at
+CREATE TRIGGER update_tags_updated_at
+  BEFORE UPDATE ON public.tags
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create indexes for faster queries
+CREATE INDEX idx_tags_user_id ON public.tags(user_id);
+CREATE INDEX idx_item_tags_tag_id ON public.item_tags(tag_id);
+
+-- Merge one tag into another: re-point its items, then drop the source tag.
+-- Runs with the caller's privileges so RLS still applies.
+CREATE OR REPLACE FUNCTION public.merge_tags(source_tag_id UUID, target_tag_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+begin
+  if source_tag_id = target_tag_id then
+    return;
+  end if;
+
+  -- RLS hides other users' tags, so this also rejects foreign targets
+  if not exists (select 1 from public.tags where id = target_tag_id) then
+    raise exception 'Tag not found';
+  end if;
+
+  insert into public.item_tags (item_id, tag_id, user_id)
+  select item_id, target_tag_id, user_id
+  from public.item_tags
+  where tag_id = source_tag_id
+  on conflict (item_id, tag_id) do nothing;
+
+  delete from public.tags where id = source_tag_id;
+end;
+$$;
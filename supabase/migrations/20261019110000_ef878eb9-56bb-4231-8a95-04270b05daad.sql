@@ -0,0 +1,50 @@
+-- Allow folders to be nested inside other folders
+ALTER TABLE public.folders
+  ADD COLUMN parent_id UUID REFERENCES public.folders(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_folders_parent_id ON public.folders(parent_id);
+
+-- Reject parents owned by someone else and moves that would create a cycle
+-- (a folder becoming its own ancestor).
+CREATE OR REPLACE FUNCTION public.check_folder_parent()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+begin
+  if new.parent_id is null then
+    return new;
+  end if;
+
+  if new.parent_id = new.id then
+    raise exception 'A folder cannot be moved into itself';
+  end if;
+
+  if not exists (
+    select 1 from public.folders
+    where id = new.parent_id and user_id = new.user_id
+  ) then
+    raise exception 'Parent folder not found';
+  end if;
+
+  if exists (
+    with recursive ancestors as (
+      select id, parent_id from public.folders where id = new.parent_id
+      union
+      select f.id, f.parent_id
+      from public.folders f
+      join ancestors a on f.id = a.parent_id
+    )
+    select 1 from ancestors where id = new.id
+  ) then
+    raise exception 'A folder cannot be moved into one of its own subfolders';
+  end if;
+
+  return new;
+end;
+$$;
+
+CREATE TRIGGER check_folders_parent
+  BEFORE INSERT OR UPDATE OF parent_id ON public.folders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_folder_parent();
@@ -0,0 +1,151 @@
+-- Soft delete: trashed rows keep a deleted_at timestamp until restored or purged
+ALTER TABLE public.items
+  ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.folders
+  ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_items_deleted_at ON public.items(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX idx_folders_deleted_at ON public.folders(deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- Ids of a folder and every folder nested below it
+CREATE OR REPLACE FUNCTION public.folder_subtree(root_folder_id UUID)
+RETURNS SETOF UUID
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  with recursive subtree as (
+    select id from public.folders where id = root_folder_id
+    union
+    select f.id from public.folders f join subtree s on f.parent_id = s.id
+  )
+  select id from subtree;
+$$;
+
+-- Move a folder, its subfolders and their items to the trash.
+-- Everything shares one deleted_at so it can be restored together.
+CREATE OR REPLACE FUNCTION public.soft_delete_folder(target_folder_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+declare
+  deleted_time timestamptz := now();
+  folder_ids uuid[];
+begin
+  select array_agg(id) into folder_ids from public.folder_subtree(target_folder_id) as id;
+
+  update public.folders set deleted_at = deleted_time
+  where id = any(folder_ids) and deleted_at is null;
+
+  update public.items set deleted_at = deleted_time
+  where folder_id = any(folder_ids) and deleted_at is null;
+end;
+$$;
+
+-- Restore a trashed folder along with everything trashed with it.
+-- If its parent is still in the trash the folder comes back at the root.
+CREATE OR REPLACE FUNCTION public.restore_folder(target_folder_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+declare
+  deleted_time timestamptz;
+  folder_ids uuid[];
+begin
+  select deleted_at into deleted_time from public.folders where id = target_folder_id;
+  if deleted_time is null then
+    return;
+  end if;
+
+  select array_agg(id) into folder_ids from public.folder_subtree(target_folder_id) as id;
+
+  update public.folders set deleted_at = null
+  where id = any(folder_ids) and deleted_at = deleted_time;
+
+  update public.items set deleted_at = null
+  where folder_id = any(folder_ids) and deleted_at = deleted_time;
+
+  update public.folders set parent_id = null
+  where id = target_folder_id
+    and parent_id in (select id from public.folders where deleted_at is not null);
+end;
+$$;
+
+-- Restore a trashed item, moving it to the root if its folder is still trashed
+CREATE OR REPLACE FUNCTION public.restore_item(target_item_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+begin
+  update public.items
+  set deleted_at = null,
+      folder_id = case
+        when folder_id in (select id from public.folders where deleted_at is not null) then null
+        else folder_id
+      end
+  where id = target_item_id;
+end;
+$$;
+
+-- Permanently delete a trashed folder and its trashed contents.
+-- Returns the storage paths of deleted item files so the caller can remove them.
+CREATE OR REPLACE FUNCTION public.purge_folder(target_folder_id UUID)
+RETURNS SETOF TEXT
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+declare
+  folder_ids uuid[];
+begin
+  select array_agg(id) into folder_ids from public.folder_subtree(target_folder_id) as id;
+
+  return query
+  with removed as (
+    delete from public.items
+    where folder_id = any(folder_ids) and deleted_at is not null
+    returning file_path
+  )
+  select file_path from removed where file_path is not null;
+
+  delete from public.folders
+  where id = any(folder_ids) and deleted_at is not null;
+end;
+$$;
+
+-- Permanently delete everything that has been in the trash for over 30 days
+CREATE OR REPLACE FUNCTION public.purge_trash()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+declare
+  cutoff timestamptz := now() - interval '30 days';
+begin
+  delete from storage.objects
+  where bucket_id = 'item-files'
+    and name in (
+      select file_path from public.items
+      where deleted_at < cutoff and file_path is not null
+    );
+
+  delete from public.items where deleted_at < cutoff;
+  delete from public.folders where deleted_at < cutoff;
+end;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.purge_trash() FROM PUBLIC, anon, authenticated;
+
+-- Run the purge every night
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule('purge-trash', '0 3 * * *', $$SELECT public.purge_trash()$$);
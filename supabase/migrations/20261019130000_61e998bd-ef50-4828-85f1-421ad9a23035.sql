@@ -0,0 +1,65 @@
+-- Full-text search over items: title ranks above description, description above content
+ALTER TABLE public.items
+  ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(description, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(content, '')), 'C')
+  ) STORED;
+
+CREATE INDEX idx_items_search_vector ON public.items USING GIN (search_vector);
+
+-- Ranked search with highlighted title and snippet.
+-- Accepts web search syntax ("quoted phrase", -exclude, or) and treats a
+-- trailing bare word as a prefix so results show up while typing.
+CREATE OR REPLACE FUNCTION public.search_items(search_query TEXT, result_limit INTEGER DEFAULT 100)
+RETURNS TABLE (
+  id UUID,
+  rank REAL,
+  title_highlight TEXT,
+  snippet TEXT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+declare
+  trimmed text := trim(coalesce(search_query, ''));
+  prefix_term text;
+  ts_query tsquery;
+  prefix_query tsquery;
+begin
+  if trimmed = '' then
+    return;
+  end if;
+
+  prefix_term := substring(trimmed from '(?:^|\s)([[:alnum:]]+)$');
+  ts_query := websearch_to_tsquery('english', trimmed);
+
+  if prefix_term is not null then
+    prefix_query := to_tsquery('english', prefix_term || ':*');
+    if numnode(prefix_query) > 0 then
+      ts_query := websearch_to_tsquery('english', left(trimmed, length(trimmed) - length(prefix_term)));
+      ts_query := case when numnode(ts_query) = 0 then prefix_query else ts_query && prefix_query end;
+    end if;
+  end if;
+
+  if numnode(ts_query) = 0 then
+    return;
+  end if;
+
+  return query
+  select
+    i.id,
+    ts_rank_cd(i.search_vector, ts_query) as rank,
+    ts_headline('english', i.title, ts_query,
+      'StartSel=<mark>, StopSel=</mark>, HighlightAll=true') as title_highlight,
+    ts_headline('english', concat_ws(' ', i.description, i.content), ts_query,
+      'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "') as snippet
+  from public.items i
+  where i.deleted_at is null
+    and i.search_vector @@ ts_query
+  order by 2 desc, i.created_at desc
+  limit greatest(1, least(result_limit, 500));
+end;
+$$;
@@ -0,0 +1,66 @@
+-- Return the filterable item columns from search_items so field operators
+-- (type:, folder:, before:, domain:, ...) can be applied as PostgREST filters
+-- on top of the ranked results. Limiting now happens after those filters.
+DROP FUNCTION IF EXISTS public.search_items(TEXT, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.search_items(search_query TEXT)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  type item_type,
+  content TEXT,
+  folder_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE,
+  rank REAL,
+  title_highlight TEXT,
+  snippet TEXT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+declare
+  trimmed text := trim(coalesce(search_query, ''));
+  prefix_term text;
+  ts_query tsquery;
+  prefix_query tsquery;
+begin
+  if trimmed = '' then
+    return;
+  end if;
+
+  prefix_term := substring(trimmed from '(?:^|\s)([[:alnum:]]+)$');
+  ts_query := websearch_to_tsquery('english', trimmed);
+
+  if prefix_term is not null then
+    prefix_query := to_tsquery('english', prefix_term || ':*');
+    if numnode(prefix_query) > 0 then
+      ts_query := websearch_to_tsquery('english', left(trimmed, length(trimmed) - length(prefix_term)));
+      ts_query := case when numnode(ts_query) = 0 then prefix_query else ts_query && prefix_query end;
+    end if;
+  end if;
+
+  if numnode(ts_query) = 0 then
+    return;
+  end if;
+
+  return query
+  select
+    i.id,
+    i.title,
+    i.type,
+    i.content,
+    i.folder_id,
+    i.created_at,
+    ts_rank_cd(i.search_vector, ts_query) as rank,
+    ts_headline('english', i.title, ts_query,
+      'StartSel=<mark>, StopSel=</mark>, HighlightAll=true') as title_highlight,
+    ts_headline('english', concat_ws(' ', i.description, i.content), ts_query,
+      'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "') as snippet
+  from public.items i
+  where i.deleted_at is null
+    and i.search_vector @@ ts_query
+  order by 7 desc, i.created_at desc;
+end;
+$$;
@@ -0,0 +1,44 @@
+-- Saved searches, shown on the dashboard as smart folders.
+-- The query uses the search box syntax; tag_ids mirrors the tag filter.
+CREATE TABLE public.saved_searches (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  name TEXT NOT NULL,
+  icon TEXT NOT NULL DEFAULT 'sparkles',
+  color TEXT NOT NULL DEFAULT '#8b5cf6',
+  query TEXT NOT NULL DEFAULT '',
+  tag_ids UUID[] NOT NULL DEFAULT '{}',
+  pinned BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT saved_searches_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.profiles(id) ON DELETE CASCADE,
+  CONSTRAINT saved_searches_not_empty CHECK (query <> '' OR cardinality(tag_ids) > 0)
+);
+
+-- Enable RLS
+ALTER TABLE public.saved_searches ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for saved searches
+CREATE POLICY "Users can view their own saved searches"
+  ON public.saved_searches FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own saved searches"
+  ON public.saved_searches FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own saved searches"
+  ON public.saved_searches FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own saved searches"
+  ON public.saved_searches FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Add trigger for saved_searches updated_at
+CREATE TRIGGER update_saved_searches_updated_at
+  BEFORE UPDATE ON public.saved_searches
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_saved_searches_user_id ON public.saved_searches(user_id);
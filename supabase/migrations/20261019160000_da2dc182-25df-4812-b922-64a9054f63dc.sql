@@ -0,0 +1,23 @@
+-- Cache of scraped link previews, shared by all users and keyed by normalized URL.
+-- Written only by the fetch-link-preview edge function (service role).
+CREATE TABLE public.link_previews (
+  url TEXT NOT NULL PRIMARY KEY,
+  title TEXT,
+  description TEXT,
+  image TEXT,
+  domain TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'ok',
+  fetched_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT link_previews_status_check CHECK (status IN ('ok', 'failed', 'unsupported'))
+);
+
+-- Enable RLS
+ALTER TABLE public.link_previews ENABLE ROW LEVEL SECURITY;
+
+-- Previews only hold public page metadata, so any signed-in user may read them
+CREATE POLICY "Authenticated users can view link previews"
+  ON public.link_previews FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE INDEX idx_link_previews_fetched_at ON public.link_previews(fetched_at);
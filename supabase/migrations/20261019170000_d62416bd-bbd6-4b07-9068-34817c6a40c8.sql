@@ -0,0 +1,47 @@
+-- Remember why a stored preview failed so cached failures return the same error code
+ALTER TABLE public.link_previews ADD COLUMN error_code TEXT;
+
+-- Fixed-window request counters for fetch-link-preview, one row per user.
+-- No RLS policies: only the edge function (service role) touches this table.
+CREATE TABLE public.link_preview_rate_limits (
+  user_id UUID NOT NULL PRIMARY KEY,
+  window_start TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  request_count INTEGER NOT NULL DEFAULT 0,
+  CONSTRAINT link_preview_rate_limits_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.profiles(id) ON DELETE CASCADE
+);
+
+ALTER TABLE public.link_preview_rate_limits ENABLE ROW LEVEL SECURITY;
+
+-- Count one request against the user's quota.
+-- Returns 0 when allowed, otherwise the seconds until the window resets.
+CREATE OR REPLACE FUNCTION public.consume_link_preview_quota(
+  target_user_id UUID,
+  max_requests INTEGER,
+  window_seconds INTEGER
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+declare
+  window_length interval := make_interval(secs => window_seconds);
+  current_start timestamptz;
+  current_count integer;
+begin
+  insert into public.link_preview_rate_limits as l (user_id, window_start, request_count)
+  values (target_user_id, now(), 1)
+  on conflict (user_id) do update set
+    window_start = case when l.window_start <= now() - window_length then now() else l.window_start end,
+    request_count = case when l.window_start <= now() - window_length then 1 else l.request_count + 1 end
+  returning window_start, request_count into current_start, current_count;
+
+  if current_count > max_requests then
+    return greatest(1, ceil(extract(epoch from (current_start + window_length - now())))::integer);
+  end if;
+
+  return 0;
+end;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.consume_link_preview_quota(UUID, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
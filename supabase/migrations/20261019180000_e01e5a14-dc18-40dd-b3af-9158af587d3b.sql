@@ -0,0 +1,8 @@
+-- oEmbed details for link previews (embed markup, attribution, thumbnail size, media length)
+ALTER TABLE public.link_previews
+  ADD COLUMN html TEXT,
+  ADD COLUMN author_name TEXT,
+  ADD COLUMN provider_name TEXT,
+  ADD COLUMN thumbnail_width INTEGER,
+  ADD COLUMN thumbnail_height INTEGER,
+  ADD COLUMN duration INTEGER;
@@ -0,0 +1,7 @@
+-- Additional page metadata extracted by the HTML parser in fetch-link-preview
+ALTER TABLE public.link_previews
+  ADD COLUMN icon TEXT,
+  ADD COLUMN canonical_url TEXT,
+  ADD COLUMN site_name TEXT,
+  ADD COLUMN published_time TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN og_type TEXT;
@@ -0,0 +1,7 @@
+-- Typed schema.org summary (JSON-LD / microdata) extracted by fetch-link-preview.
+-- Items keep their own copy so it outlives the shared preview cache.
+ALTER TABLE public.link_previews
+  ADD COLUMN structured JSONB;
+
+ALTER TABLE public.items
+  ADD COLUMN structured JSONB;
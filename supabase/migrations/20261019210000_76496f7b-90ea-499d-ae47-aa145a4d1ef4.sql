@@ -0,0 +1,33 @@
+-- Reader-mode copy of a saved link's article, extracted by fetch-link-preview.
+-- Kept per item so the text survives the source page changing or going away.
+CREATE TABLE public.item_articles (
+  item_id UUID NOT NULL PRIMARY KEY,
+  user_id UUID NOT NULL,
+  source_url TEXT NOT NULL,
+  title TEXT,
+  byline TEXT,
+  site_name TEXT,
+  lead_image TEXT,
+  excerpt TEXT,
+  blocks JSONB NOT NULL DEFAULT '[]',
+  word_count INTEGER NOT NULL DEFAULT 0,
+  published_time TIMESTAMP WITH TIME ZONE,
+  extracted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT item_articles_item_id_fkey FOREIGN KEY (item_id) REFERENCES public.items(id) ON DELETE CASCADE,
+  CONSTRAINT item_articles_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.profiles(id) ON DELETE CASCADE
+);
+
+-- Enable RLS
+ALTER TABLE public.item_articles ENABLE ROW LEVEL SECURITY;
+
+-- Articles are written by the edge function with the service role; users can
+-- read and discard their own
+CREATE POLICY "Users can view their own item articles"
+  ON public.item_articles FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own item articles"
+  ON public.item_articles FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE INDEX idx_item_articles_user_id ON public.item_articles(user_id);
@@ -0,0 +1,70 @@
+-- Results of the scheduled dead-link checker (check-links edge function), one
+-- row per link item. Kept out of items so checks don't bump updated_at.
+-- status: 'ok', 'moved' (permanent redirect to final_url), 'broken' (404/410,
+-- or a host that stayed unreachable over several runs in a row) or 'unknown'
+-- (inconclusive so far). failures counts the runs in a row without a definite
+-- answer.
+CREATE TABLE public.item_link_checks (
+  item_id UUID NOT NULL PRIMARY KEY,
+  user_id UUID NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('ok', 'moved', 'broken', 'unknown')),
+  http_status INTEGER,
+  final_url TEXT,
+  failures INTEGER NOT NULL DEFAULT 0,
+  checked_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT item_link_checks_item_id_fkey FOREIGN KEY (item_id) REFERENCES public.items(id) ON DELETE CASCADE,
+  CONSTRAINT item_link_checks_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.profiles(id) ON DELETE CASCADE
+);
+
+-- Enable RLS
+ALTER TABLE public.item_link_checks ENABLE ROW LEVEL SECURITY;
+
+-- Written by the checker with the service role. Users can read their results
+-- and clear one after fixing the link, which queues it for the next run.
+CREATE POLICY "Users can view their own link checks"
+  ON public.item_link_checks FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own link checks"
+  ON public.item_link_checks FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE INDEX idx_item_link_checks_checked_at ON public.item_link_checks(checked_at);
+
+-- Next batch of live link items to check: never checked first, then the stalest
+CREATE OR REPLACE FUNCTION public.links_due_for_check(batch_size INTEGER, recheck_after_seconds INTEGER)
+RETURNS TABLE (id UUID, user_id UUID, content TEXT, failures INTEGER)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  select i.id, i.user_id, i.content, coalesce(c.failures, 0)
+  from public.items i
+  left join public.item_link_checks c on c.item_id = i.id
+  where i.type = 'link'
+    and i.deleted_at is null
+    and (c.checked_at is null or c.checked_at < now() - make_interval(secs => recheck_after_seconds))
+  order by c.checked_at asc nulls first
+  limit batch_size;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.links_due_for_check(INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Call the checker every 30 minutes. Needs the project URL and service role key
+-- stored in Vault as 'project_url' and 'service_role_key'.
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'check-links',
+  '*/30 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/check-links',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
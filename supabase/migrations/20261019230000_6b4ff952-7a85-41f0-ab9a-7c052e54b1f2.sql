@@ -0,0 +1,128 @@
+-- Public, read-only links to a single folder. Anyone with the slug can view
+-- the folder's live items through get_shared_folder(); nothing else of the
+-- owner's vault is exposed, and uploaded files stay private.
+CREATE TABLE public.folder_shares (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  folder_id UUID NOT NULL,
+  user_id UUID NOT NULL,
+  -- 16 URL-safe characters (96 random bits)
+  slug TEXT NOT NULL UNIQUE DEFAULT translate(encode(extensions.gen_random_bytes(12), 'base64'), '+/', '-_'),
+  expires_at TIMESTAMP WITH TIME ZONE,
+  password_hash TEXT, -- bcrypt, set through create_folder_share()
+  has_password BOOLEAN GENERATED ALWAYS AS (password_hash IS NOT NULL) STORED,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT folder_shares_folder_id_fkey FOREIGN KEY (folder_id) REFERENCES public.folders(id) ON DELETE CASCADE,
+  CONSTRAINT folder_shares_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.profiles(id) ON DELETE CASCADE
+);
+
+-- Enable RLS
+ALTER TABLE public.folder_shares ENABLE ROW LEVEL SECURITY;
+
+-- Owners manage their shares; viewers never read this table directly
+CREATE POLICY "Users can view their own folder shares"
+  ON public.folder_shares FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can share their own folders"
+  ON public.folder_shares FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM public.folders f WHERE f.id = folder_id AND f.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can delete their own folder shares"
+  ON public.folder_shares FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE INDEX idx_folder_shares_folder_id ON public.folder_shares(folder_id);
+
+-- Share a folder, hashing the optional password. Runs as the caller, so the
+-- insert policy above still applies.
+CREATE OR REPLACE FUNCTION public.create_folder_share(
+  target_folder_id UUID,
+  share_expires_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  share_password TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE sql
+SECURITY INVOKER
+SET search_path = public, extensions
+AS $$
+  insert into public.folder_shares (folder_id, user_id, expires_at, password_hash)
+  values (
+    target_folder_id,
+    auth.uid(),
+    share_expires_at,
+    case when coalesce(share_password, '') = '' then null else crypt(share_password, gen_salt('bf')) end
+  )
+  returning id;
+$$;
+
+-- The folder behind a share slug and its live items, for the public page.
+-- Returns { status } where status is 'ok', 'not_found', 'expired' or
+-- 'password_required' (no password given, or the wrong one); only 'ok'
+-- carries the folder and items.
+CREATE OR REPLACE FUNCTION public.get_shared_folder(share_slug TEXT, share_password TEXT DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+declare
+  share public.folder_shares;
+  shared_folder public.folders;
+begin
+  select * into share from public.folder_shares where slug = share_slug;
+  if not found then
+    return jsonb_build_object('status', 'not_found');
+  end if;
+
+  select * into shared_folder from public.folders where id = share.folder_id and deleted_at is null;
+  if not found then
+    return jsonb_build_object('status', 'not_found');
+  end if;
+
+  if share.expires_at is not null and share.expires_at <= now() then
+    return jsonb_build_object('status', 'expired');
+  end if;
+
+  if share.password_hash is not null
+    and (share_password is null or crypt(share_password, share.password_hash) <> share.password_hash) then
+    return jsonb_build_object('status', 'password_required');
+  end if;
+
+  return jsonb_build_object(
+    'status', 'ok',
+    'folder', jsonb_build_object(
+      'name', shared_folder.name,
+      'description', shared_folder.description,
+      'color', shared_folder.color
+    ),
+    'items', coalesce((
+      select jsonb_agg(jsonb_build_object(
+        'id', i.id,
+        'title', i.title,
+        'description', i.description,
+        'type', i.type,
+        'content', i.content,
+        'thumbnail_url', i.thumbnail_url,
+        'structured', i.structured,
+        'created_at', i.created_at,
+        'updated_at', i.updated_at,
+        'tags', coalesce((
+          select jsonb_agg(jsonb_build_object('id', t.id, 'name', t.name, 'color', t.color) order by t.name)
+          from public.item_tags it
+          join public.tags t on t.id = it.tag_id
+          where it.item_id = i.id
+        ), '[]'::jsonb)
+      ) order by i.created_at desc)
+      from public.items i
+      where i.folder_id = shared_folder.id and i.deleted_at is null and i.file_path is null
+    ), '[]'::jsonb)
+  );
+end;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_shared_folder(TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_shared_folder(TEXT, TEXT) TO anon, authenticated;
@@ -0,0 +1,272 @@
+-- Collaborative folders. A folder's members get a role on it and on
+-- everything nested inside it:
+--   viewer  - sees the folders and items
+--   editor  - also adds, edits, moves and trashes them
+--   owner   - also manages members and deletes for good
+-- Whoever created a folder (folders.user_id) is its owner, and so is the
+-- owner of any folder above it. People are invited by email; the invitation
+-- waits until someone signs in with that address and accepts it.
+CREATE TABLE public.folder_members (
+  folder_id UUID NOT NULL,
+  user_id UUID NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('viewer', 'editor', 'owner')),
+  invited_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (folder_id, user_id),
+  CONSTRAINT folder_members_folder_id_fkey FOREIGN KEY (folder_id) REFERENCES public.folders(id) ON DELETE CASCADE,
+  CONSTRAINT folder_members_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.profiles(id) ON DELETE CASCADE,
+  CONSTRAINT folder_members_invited_by_fkey FOREIGN KEY (invited_by) REFERENCES public.profiles(id) ON DELETE SET NULL
+);
+
+CREATE INDEX idx_folder_members_user_id ON public.folder_members(user_id);
+
+CREATE TABLE public.folder_invitations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  folder_id UUID NOT NULL,
+  email TEXT NOT NULL CHECK (email = lower(email)),
+  role TEXT NOT NULL CHECK (role IN ('viewer', 'editor', 'owner')),
+  invited_by UUID NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (folder_id, email),
+  CONSTRAINT folder_invitations_folder_id_fkey FOREIGN KEY (folder_id) REFERENCES public.folders(id) ON DELETE CASCADE,
+  CONSTRAINT folder_invitations_invited_by_fkey FOREIGN KEY (invited_by) REFERENCES public.profiles(id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_folder_invitations_email ON public.folder_invitations(email);
+
+-- The signed-in user's role on a folder: the strongest of ownership and
+-- membership on the folder or any folder above it, or null for no access.
+-- Security definer so policies can call it without recursing into RLS.
+CREATE OR REPLACE FUNCTION public.folder_role(target_folder_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  with recursive ancestors as (
+    select id, parent_id, user_id from public.folders where id = target_folder_id
+    union
+    select f.id, f.parent_id, f.user_id
+    from public.folders f
+    join ancestors a on f.id = a.parent_id
+  ),
+  ranks as (
+    select 3 as rank from ancestors where user_id = auth.uid()
+    union all
+    select case m.role when 'owner' then 3 when 'editor' then 2 else 1 end
+    from public.folder_members m
+    join ancestors a on a.id = m.folder_id
+    where m.user_id = auth.uid()
+  )
+  select case max(rank) when 3 then 'owner' when 2 then 'editor' when 1 then 'viewer' end
+  from ranks;
+$$;
+
+-- Whether the signed-in user shares a folder with another user, so they can
+-- see each other's name and avatar
+CREATE OR REPLACE FUNCTION public.is_folder_collaborator(other_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  select exists (
+    select 1
+    from public.folder_members m
+    join public.folders f on f.id = m.folder_id
+    where (m.user_id = auth.uid() and (f.user_id = other_user_id or exists (
+        select 1 from public.folder_members other
+        where other.folder_id = m.folder_id and other.user_id = other_user_id
+      )))
+      or (m.user_id = other_user_id and f.user_id = auth.uid())
+  );
+$$;
+
+-- Enable RLS
+ALTER TABLE public.folder_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.folder_invitations ENABLE ROW LEVEL SECURITY;
+
+-- Members are added by accept_folder_invitation(); anyone with access to the
+-- folder sees who else has it, and members can leave on their own
+CREATE POLICY "Users can view members of folders they can access"
+  ON public.folder_members FOR SELECT
+  USING (public.folder_role(folder_id) IS NOT NULL);
+
+CREATE POLICY "Owners can change member roles"
+  ON public.folder_members FOR UPDATE
+  USING (public.folder_role(folder_id) = 'owner');
+
+CREATE POLICY "Owners can remove members and members can leave"
+  ON public.folder_members FOR DELETE
+  USING (public.folder_role(folder_id) = 'owner' OR auth.uid() = user_id);
+
+CREATE POLICY "Owners and invitees can view invitations"
+  ON public.folder_invitations FOR SELECT
+  USING (public.folder_role(folder_id) = 'owner' OR email = lower(auth.jwt() ->> 'email'));
+
+CREATE POLICY "Owners can invite people"
+  ON public.folder_invitations FOR INSERT
+  WITH CHECK (public.folder_role(folder_id) = 'owner' AND auth.uid() = invited_by);
+
+-- Inviting the same address again changes the role
+CREATE POLICY "Owners can update invitations"
+  ON public.folder_invitations FOR UPDATE
+  USING (public.folder_role(folder_id) = 'owner')
+  WITH CHECK (auth.uid() = invited_by);
+
+CREATE POLICY "Owners can revoke and invitees can decline invitations"
+  ON public.folder_invitations FOR DELETE
+  USING (public.folder_role(folder_id) = 'owner' OR email = lower(auth.jwt() ->> 'email'));
+
+-- Folders: visible with any role, changed by editors, deleted by owners.
+-- New folders still belong to their creator.
+DROP POLICY "Users can view their own folders" ON public.folders;
+DROP POLICY "Users can create their own folders" ON public.folders;
+DROP POLICY "Users can update their own folders" ON public.folders;
+DROP POLICY "Users can delete their own folders" ON public.folders;
+
+CREATE POLICY "Users can view folders they own or are members of"
+  ON public.folders FOR SELECT
+  USING (auth.uid() = user_id OR public.folder_role(id) IS NOT NULL);
+
+CREATE POLICY "Users can create folders"
+  ON public.folders FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Editors can update folders"
+  ON public.folders FOR UPDATE
+  USING (auth.uid() = user_id OR public.folder_role(id) IN ('owner', 'editor'));
+
+CREATE POLICY "Owners can delete folders"
+  ON public.folders FOR DELETE
+  USING (auth.uid() = user_id OR public.folder_role(id) = 'owner');
+
+-- Items: the same, through the folder they're in. Items outside any folder
+-- stay private to their creator.
+DROP POLICY "Users can view their own items" ON public.items;
+DROP POLICY "Users can create their own items" ON public.items;
+DROP POLICY "Users can update their own items" ON public.items;
+DROP POLICY "Users can delete their own items" ON public.items;
+
+CREATE POLICY "Users can view their own items and items in shared folders"
+  ON public.items FOR SELECT
+  USING (auth.uid() = user_id OR (folder_id IS NOT NULL AND public.folder_role(folder_id) IS NOT NULL));
+
+CREATE POLICY "Users can create items in folders they can edit"
+  ON public.items FOR INSERT
+  WITH CHECK (auth.uid() = user_id AND (folder_id IS NULL OR public.folder_role(folder_id) IN ('owner', 'editor')));
+
+CREATE POLICY "Editors can update items"
+  ON public.items FOR UPDATE
+  USING (auth.uid() = user_id OR (folder_id IS NOT NULL AND public.folder_role(folder_id) IN ('owner', 'editor')))
+  WITH CHECK (
+    (folder_id IS NULL AND auth.uid() = user_id)
+    OR (folder_id IS NOT NULL AND public.folder_role(folder_id) IN ('owner', 'editor'))
+  );
+
+CREATE POLICY "Owners can delete items"
+  ON public.items FOR DELETE
+  USING (auth.uid() = user_id OR (folder_id IS NOT NULL AND public.folder_role(folder_id) = 'owner'));
+
+-- Collaborators see each other's names and avatars
+CREATE POLICY "Users can view profiles of folder collaborators"
+  ON public.profiles FOR SELECT
+  USING (public.is_folder_collaborator(id));
+
+-- Uploaded files of items in shared folders can be opened by members
+CREATE POLICY "Users can view files of items in shared folders"
+  ON storage.objects FOR SELECT
+  USING (
+    bucket_id = 'item-files'
+    AND EXISTS (
+      SELECT 1 FROM public.items i
+      WHERE i.file_path = name AND i.folder_id IS NOT NULL AND public.folder_role(i.folder_id) IS NOT NULL
+    )
+  );
+
+-- Parents must be folders the user can edit, rather than ones they created
+CREATE OR REPLACE FUNCTION public.check_folder_parent()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+begin
+  if new.parent_id is null then
+    return new;
+  end if;
+
+  if new.parent_id = new.id then
+    raise exception 'A folder cannot be moved into itself';
+  end if;
+
+  if coalesce(public.folder_role(new.parent_id), '') not in ('owner', 'editor') then
+    raise exception 'Parent folder not found';
+  end if;
+
+  if exists (
+    with recursive ancestors as (
+      select id, parent_id from public.folders where id = new.parent_id
+      union
+      select f.id, f.parent_id
+      from public.folders f
+      join ancestors a on f.id = a.parent_id
+    )
+    select 1 from ancestors where id = new.id
+  ) then
+    raise exception 'A folder cannot be moved into one of its own subfolders';
+  end if;
+
+  return new;
+end;
+$$;
+
+-- Invitations waiting for the signed-in user, with what they need to decide
+CREATE OR REPLACE FUNCTION public.pending_folder_invitations()
+RETURNS TABLE (id UUID, folder_id UUID, folder_name TEXT, role TEXT, invited_by_name TEXT, created_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  select i.id, i.folder_id, f.name, i.role, p.full_name, i.created_at
+  from public.folder_invitations i
+  join public.folders f on f.id = i.folder_id and f.deleted_at is null
+  left join public.profiles p on p.id = i.invited_by
+  where i.email = lower(auth.jwt() ->> 'email')
+  order by i.created_at desc;
+$$;
+
+-- Join a folder from an invitation sent to the signed-in user's email.
+-- Accepting again with a new invitation updates the role.
+CREATE OR REPLACE FUNCTION public.accept_folder_invitation(invitation_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+declare
+  invitation public.folder_invitations;
+begin
+  select * into invitation
+  from public.folder_invitations
+  where id = invitation_id and email = lower(auth.jwt() ->> 'email');
+
+  if not found then
+    raise exception 'Invitation not found';
+  end if;
+
+  insert into public.folder_members (folder_id, user_id, role, invited_by)
+  values (invitation.folder_id, auth.uid(), invitation.role, invitation.invited_by)
+  on conflict (folder_id, user_id) do update set role = excluded.role;
+
+  delete from public.folder_invitations where id = invitation.id;
+  return invitation.folder_id;
+end;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.accept_folder_invitation(UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.pending_folder_invitations() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.accept_folder_invitation(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.pending_folder_invitations() TO authenticated;
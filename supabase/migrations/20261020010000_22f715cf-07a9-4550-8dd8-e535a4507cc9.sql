@@ -0,0 +1,4 @@
+-- Stream changes to items, folders and item tags to signed-in clients so
+-- other tabs and devices update without a reload. Realtime applies each
+-- table's select policies, so collaborators only hear about rows they can see.
+ALTER PUBLICATION supabase_realtime ADD TABLE public.items, public.folders, public.item_tags;
@@ -0,0 +1,30 @@
+-- Tags can only be put on items the user can edit, and only their own tags.
+-- Otherwise anyone could attach tags to someone else's item id, and since
+-- collaborative folders those rows are shown to everyone in the folder.
+DROP POLICY "Users can create their own item tags" ON public.item_tags;
+DROP POLICY "Users can update their own item tags" ON public.item_tags;
+
+CREATE POLICY "Users can tag items they can edit with their own tags"
+  ON public.item_tags FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM public.tags t WHERE t.id = tag_id AND t.user_id = auth.uid())
+    AND EXISTS (
+      SELECT 1 FROM public.items i
+      WHERE i.id = item_id
+        AND (i.user_id = auth.uid() OR (i.folder_id IS NOT NULL AND public.folder_role(i.folder_id) IN ('owner', 'editor')))
+    )
+  );
+
+CREATE POLICY "Users can update their own item tags"
+  ON public.item_tags FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM public.tags t WHERE t.id = tag_id AND t.user_id = auth.uid())
+    AND EXISTS (
+      SELECT 1 FROM public.items i
+      WHERE i.id = item_id
+        AND (i.user_id = auth.uid() OR (i.folder_id IS NOT NULL AND public.folder_role(i.folder_id) IN ('owner', 'editor')))
+    )
+  );
@@ -0,0 +1,37 @@
+-- The nightly purge moves to the purge-trash edge function. Storage blocks
+-- deleting storage.objects rows from SQL (and doing so would only drop the
+-- metadata), so the function removes files through the Storage API and then
+-- calls purge_trash() for the rows, with the same cutoff.
+SELECT cron.unschedule('purge-trash');
+
+DROP FUNCTION public.purge_trash();
+
+CREATE OR REPLACE FUNCTION public.purge_trash(cutoff TIMESTAMP WITH TIME ZONE)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+begin
+  delete from public.items where deleted_at < cutoff;
+  delete from public.folders where deleted_at < cutoff;
+end;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.purge_trash(TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+
+-- Call the purge every night. Uses the same Vault secrets as check-links.
+SELECT cron.schedule(
+  'purge-trash',
+  '0 3 * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/purge-trash',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,104 @@
+-- Highlighting is the expensive part of search, and search_items computed it
+-- for every match before the client's filters and limit trimmed the result.
+-- search_items now only ranks; search_highlights marks up the returned page.
+DROP FUNCTION IF EXISTS public.search_items(TEXT);
+
+-- Parse a search box query: web search syntax ("quoted phrase", -exclude, or)
+-- with a trailing bare word treated as a prefix. Null when nothing is searchable.
+CREATE OR REPLACE FUNCTION public.search_tsquery(search_query TEXT)
+RETURNS tsquery
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+declare
+  trimmed text := trim(coalesce(search_query, ''));
+  prefix_term text;
+  ts_query tsquery;
+  prefix_query tsquery;
+begin
+  if trimmed = '' then
+    return null;
+  end if;
+
+  prefix_term := substring(trimmed from '(?:^|\s)([[:alnum:]]+)$');
+  ts_query := websearch_to_tsquery('english', trimmed);
+
+  if prefix_term is not null then
+    prefix_query := to_tsquery('english', prefix_term || ':*');
+    if numnode(prefix_query) > 0 then
+      ts_query := websearch_to_tsquery('english', left(trimmed, length(trimmed) - length(prefix_term)));
+      ts_query := case when numnode(ts_query) = 0 then prefix_query else ts_query && prefix_query end;
+    end if;
+  end if;
+
+  if numnode(ts_query) = 0 then
+    return null;
+  end if;
+
+  return ts_query;
+end;
+$$;
+
+-- Ranked matches with the filterable item columns, so field operators
+-- (type:, folder:, before:, domain:, ...) apply as PostgREST filters
+CREATE OR REPLACE FUNCTION public.search_items(search_query TEXT)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  type item_type,
+  content TEXT,
+  folder_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE,
+  rank REAL
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+declare
+  ts_query tsquery := public.search_tsquery(search_query);
+begin
+  if ts_query is null then
+    return;
+  end if;
+
+  return query
+  select i.id, i.title, i.type, i.content, i.folder_id, i.created_at, ts_rank_cd(i.search_vector, ts_query)
+  from public.items i
+  where i.deleted_at is null
+    and i.search_vector @@ ts_query;
+end;
+$$;
+
+-- Highlighted title and snippet for the given matches of a query
+CREATE OR REPLACE FUNCTION public.search_highlights(search_query TEXT, item_ids UUID[])
+RETURNS TABLE (
+  id UUID,
+  title_highlight TEXT,
+  snippet TEXT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+declare
+  ts_query tsquery := public.search_tsquery(search_query);
+begin
+  if ts_query is null then
+    return;
+  end if;
+
+  return query
+  select
+    i.id,
+    ts_headline('english', i.title, ts_query,
+      'StartSel=<mark>, StopSel=</mark>, HighlightAll=true'),
+    ts_headline('english', concat_ws(' ', i.description, i.content), ts_query,
+      'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "')
+  from public.items i
+  where i.id = any(item_ids[1:500]);
+end;
+$$;
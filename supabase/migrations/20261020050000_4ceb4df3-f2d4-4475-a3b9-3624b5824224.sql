@@ -0,0 +1,5 @@
+-- link_previews is keyed by the full URL, so reading it would list every link
+-- anyone has saved, private and tokenized ones included. Clients get previews
+-- from the fetch-link-preview edge function, which reads the cache with the
+-- service role and serves fresh entries without a scrape.
+DROP POLICY "Authenticated users can view link previews" ON public.link_previews;
@@ -0,0 +1,150 @@
+-- Share passwords could be guessed without limit through get_shared_folder().
+-- Wrong passwords are now counted per share, locking the share's password
+-- check for a while after too many, and the public page goes through the
+-- shared-folder edge function, which also limits password attempts per IP.
+
+-- Failed password attempts per share, in fixed windows. No RLS policies:
+-- only get_shared_folder() touches this table.
+CREATE TABLE public.folder_share_attempts (
+  share_id UUID NOT NULL PRIMARY KEY,
+  window_start TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  failed_count INTEGER NOT NULL DEFAULT 0,
+  CONSTRAINT folder_share_attempts_share_id_fkey FOREIGN KEY (share_id) REFERENCES public.folder_shares(id) ON DELETE CASCADE
+);
+
+ALTER TABLE public.folder_share_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Fixed-window request counters for the shared-folder edge function, keyed
+-- by client (IP address). Only the edge function (service role) touches this.
+CREATE TABLE public.share_access_rate_limits (
+  client_key TEXT NOT NULL PRIMARY KEY,
+  window_start TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  request_count INTEGER NOT NULL DEFAULT 0
+);
+
+ALTER TABLE public.share_access_rate_limits ENABLE ROW LEVEL SECURITY;
+
+-- Count one request against a client's quota.
+-- Returns 0 when allowed, otherwise the seconds until the window resets.
+CREATE OR REPLACE FUNCTION public.consume_share_access_quota(
+  target_client_key TEXT,
+  max_requests INTEGER,
+  window_seconds INTEGER
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+declare
+  window_length interval := make_interval(secs => window_seconds);
+  current_start timestamptz;
+  current_count integer;
+begin
+  insert into public.share_access_rate_limits as l (client_key, window_start, request_count)
+  values (target_client_key, now(), 1)
+  on conflict (client_key) do update set
+    window_start = case when l.window_start <= now() - window_length then now() else l.window_start end,
+    request_count = case when l.window_start <= now() - window_length then 1 else l.request_count + 1 end
+  returning window_start, request_count into current_start, current_count;
+
+  if current_count > max_requests then
+    return greatest(1, ceil(extract(epoch from (current_start + window_length - now())))::integer);
+  end if;
+
+  return 0;
+end;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.consume_share_access_quota(TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- As before, plus status 'rate_limited' (with retry_after, in seconds) while
+-- a share is locked after too many wrong passwords. No longer stable, since
+-- it records failed attempts.
+CREATE OR REPLACE FUNCTION public.get_shared_folder(share_slug TEXT, share_password TEXT DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+declare
+  max_failed_attempts constant integer := 10;
+  lockout_window constant interval := interval '15 minutes';
+  share public.folder_shares;
+  shared_folder public.folders;
+  attempts public.folder_share_attempts;
+begin
+  select * into share from public.folder_shares where slug = share_slug;
+  if not found then
+    return jsonb_build_object('status', 'not_found');
+  end if;
+
+  select * into shared_folder from public.folders where id = share.folder_id and deleted_at is null;
+  if not found then
+    return jsonb_build_object('status', 'not_found');
+  end if;
+
+  if share.expires_at is not null and share.expires_at <= now() then
+    return jsonb_build_object('status', 'expired');
+  end if;
+
+  if share.password_hash is not null then
+    -- While locked, even the right password is turned away, or guessing
+    -- could simply carry on
+    select * into attempts from public.folder_share_attempts where share_id = share.id;
+    if found and attempts.window_start > now() - lockout_window and attempts.failed_count >= max_failed_attempts then
+      return jsonb_build_object(
+        'status', 'rate_limited',
+        'retry_after', greatest(1, ceil(extract(epoch from (attempts.window_start + lockout_window - now())))::integer)
+      );
+    end if;
+
+    if share_password is null then
+      return jsonb_build_object('status', 'password_required');
+    end if;
+
+    if crypt(share_password, share.password_hash) <> share.password_hash then
+      insert into public.folder_share_attempts as a (share_id, window_start, failed_count)
+      values (share.id, now(), 1)
+      on conflict (share_id) do update set
+        window_start = case when a.window_start <= now() - lockout_window then now() else a.window_start end,
+        failed_count = case when a.window_start <= now() - lockout_window then 1 else a.failed_count + 1 end;
+      return jsonb_build_object('status', 'password_required');
+    end if;
+  end if;
+
+  return jsonb_build_object(
+    'status', 'ok',
+    'folder', jsonb_build_object(
+      'name', shared_folder.name,
+      'description', shared_folder.description,
+      'color', shared_folder.color
+    ),
+    'items', coalesce((
+      select jsonb_agg(jsonb_build_object(
+        'id', i.id,
+        'title', i.title,
+        'description', i.description,
+        'type', i.type,
+        'content', i.content,
+        'thumbnail_url', i.thumbnail_url,
+        'structured', i.structured,
+        'created_at', i.created_at,
+        'updated_at', i.updated_at,
+        'tags', coalesce((
+          select jsonb_agg(jsonb_build_object('id', t.id, 'name', t.name, 'color', t.color) order by t.name)
+          from public.item_tags it
+          join public.tags t on t.id = it.tag_id
+          where it.item_id = i.id
+        ), '[]'::jsonb)
+      ) order by i.created_at desc)
+      from public.items i
+      where i.folder_id = shared_folder.id and i.deleted_at is null and i.file_path is null
+    ), '[]'::jsonb)
+  );
+end;
+$$;
+
+-- Only the shared-folder edge function calls it now
+REVOKE EXECUTE ON FUNCTION public.get_shared_folder(TEXT, TEXT) FROM anon, authenticated;
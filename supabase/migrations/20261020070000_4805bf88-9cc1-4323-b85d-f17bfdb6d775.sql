@@ -0,0 +1,126 @@
+-- Editors could make themselves owners. folder_role() grants 'owner' through
+-- folders.user_id on the folder or any folder above it, so an editor could
+-- set user_id to themselves, or move a folder (or an item) under a folder of
+-- their own, and so lock out the real owner or take the item. Owners of rows
+-- now stay fixed, and moves are checked against the user's role on both ends.
+
+-- The top folder above a folder (itself when it has no parent)
+CREATE OR REPLACE FUNCTION public.folder_root(target_folder_id UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  with recursive ancestors as (
+    select id, parent_id, 0 as depth from public.folders where id = target_folder_id
+    union
+    select f.id, f.parent_id, a.depth + 1
+    from public.folders f
+    join ancestors a on f.id = a.parent_id
+  )
+  select id from ancestors order by depth desc limit 1;
+$$;
+
+-- Orders roles for comparison; no role ranks lowest
+CREATE OR REPLACE FUNCTION public.folder_role_rank(role TEXT)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  select case role when 'owner' then 3 when 'editor' then 2 when 'viewer' then 1 else 0 end;
+$$;
+
+CREATE OR REPLACE FUNCTION public.check_folder_update()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+declare
+  from_role text;
+  to_role text;
+begin
+  if new.user_id is distinct from old.user_id then
+    raise exception 'A folder''s owner cannot be changed';
+  end if;
+
+  -- Parents that were deleted for good are cleared by the foreign key
+  if new.parent_id is not distinct from old.parent_id
+    or (new.parent_id is null and not exists (select 1 from public.folders where id = old.parent_id)) then
+    return new;
+  end if;
+
+  -- A folder at the top takes its roles from itself alone
+  from_role := public.folder_role(coalesce(old.parent_id, old.id));
+  to_role := case
+    when new.parent_id is not null then public.folder_role(new.parent_id)
+    when new.user_id = auth.uid() then 'owner'
+    else (select m.role from public.folder_members m where m.folder_id = old.id and m.user_id = auth.uid())
+  end;
+
+  -- Within one tree a move mustn't gain the user a stronger role; into or
+  -- out of a tree they must own both ends
+  if new.parent_id is not null and old.parent_id is not null
+    and public.folder_root(new.parent_id) = public.folder_root(old.parent_id) then
+    if public.folder_role_rank(to_role) > public.folder_role_rank(from_role) then
+      raise exception 'Moving this folder there would change who owns it';
+    end if;
+  elsif coalesce(from_role, '') <> 'owner' or coalesce(to_role, '') <> 'owner' then
+    raise exception 'Only owners can move folders into or out of a shared folder';
+  end if;
+
+  return new;
+end;
+$$;
+
+CREATE TRIGGER check_folders_update
+  BEFORE UPDATE OF user_id, parent_id ON public.folders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_folder_update();
+
+CREATE OR REPLACE FUNCTION public.check_item_update()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+declare
+  from_role text;
+  to_role text;
+begin
+  if new.user_id is distinct from old.user_id then
+    raise exception 'An item''s owner cannot be changed';
+  end if;
+
+  -- Leaving nothing behind (an item outside any folder is its creator's
+  -- alone), or a folder that was deleted for good, needs no check
+  if new.folder_id is not distinct from old.folder_id
+    or old.folder_id is null
+    or (new.folder_id is null and not exists (select 1 from public.folders where id = old.folder_id)) then
+    return new;
+  end if;
+
+  from_role := public.folder_role(old.folder_id);
+  to_role := case
+    when new.folder_id is not null then public.folder_role(new.folder_id)
+    when new.user_id = auth.uid() then 'owner'
+  end;
+
+  -- Within one tree a move mustn't gain the user a stronger role; only
+  -- owners can take an item out of its tree
+  if new.folder_id is not null and public.folder_root(new.folder_id) = public.folder_root(old.folder_id) then
+    if public.folder_role_rank(to_role) > public.folder_role_rank(from_role) then
+      raise exception 'Moving this item there would change who owns it';
+    end if;
+  elsif coalesce(from_role, '') <> 'owner' then
+    raise exception 'Only owners can move items out of a shared folder';
+  end if;
+
+  return new;
+end;
+$$;
+
+CREATE TRIGGER check_items_update
+  BEFORE UPDATE OF user_id, folder_id ON public.items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_item_update();
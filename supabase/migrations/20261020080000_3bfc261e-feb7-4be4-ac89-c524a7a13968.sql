@@ -0,0 +1,31 @@
+-- Owners could move an invitation to another folder. The update policy only
+-- checked ownership of the folder the invitation was for, so an owner of any
+-- folder could point a pending invitation at a folder they don't own, and
+-- accept_folder_invitation() would then add the invitee there. Invitations
+-- now stay on their folder, and the new row must still be the user's to send.
+DROP POLICY "Owners can update invitations" ON public.folder_invitations;
+
+-- Inviting the same address again changes the role
+CREATE POLICY "Owners can update invitations"
+  ON public.folder_invitations FOR UPDATE
+  USING (public.folder_role(folder_id) = 'owner')
+  WITH CHECK (public.folder_role(folder_id) = 'owner' AND auth.uid() = invited_by);
+
+CREATE OR REPLACE FUNCTION public.check_folder_invitation_update()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+begin
+  if new.folder_id is distinct from old.folder_id then
+    raise exception 'An invitation cannot be moved to another folder';
+  end if;
+
+  return new;
+end;
+$$;
+
+CREATE TRIGGER check_folder_invitations_update
+  BEFORE UPDATE OF folder_id ON public.folder_invitations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_folder_invitation_update();
@@ -0,0 +1,55 @@
+-- Tag operators were resolved on the client into lists of item ids sent back
+-- as id=in.(...) filters, which outgrow URL limits on big tags and were cut
+-- off at the API's row limit. search_items now takes the tags and filters by
+-- them itself, and with an empty query it lists every item, so searches
+-- without free text use it too.
+DROP FUNCTION IF EXISTS public.search_items(TEXT);
+
+-- Ranked matches with the filterable item columns, so field operators
+-- (type:, folder:, before:, domain:, ...) apply as PostgREST filters.
+-- Matches carry every tag in tag_ids and none in excluded_tag_ids.
+CREATE OR REPLACE FUNCTION public.search_items(
+  search_query TEXT,
+  tag_ids UUID[] DEFAULT '{}',
+  excluded_tag_ids UUID[] DEFAULT '{}'
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  type item_type,
+  content TEXT,
+  folder_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE,
+  rank REAL
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+declare
+  ts_query tsquery := public.search_tsquery(search_query);
+begin
+  -- Text with nothing searchable in it (only stop words, say) matches nothing
+  if ts_query is null and trim(coalesce(search_query, '')) <> '' then
+    return;
+  end if;
+
+  return query
+  select
+    i.id, i.title, i.type, i.content, i.folder_id, i.created_at,
+    case when ts_query is null then 0 else ts_rank_cd(i.search_vector, ts_query) end::real
+  from public.items i
+  where i.deleted_at is null
+    and (ts_query is null or i.search_vector @@ ts_query)
+    and not exists (
+      select 1 from unnest(coalesce(tag_ids, '{}')) as required(tag_id)
+      where not exists (
+        select 1 from public.item_tags it where it.item_id = i.id and it.tag_id = required.tag_id
+      )
+    )
+    and not exists (
+      select 1 from public.item_tags it where it.item_id = i.id and it.tag_id = any(coalesce(excluded_tag_ids, '{}'))
+    );
+end;
+$$;
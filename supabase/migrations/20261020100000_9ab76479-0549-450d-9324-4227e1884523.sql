@@ -0,0 +1,20 @@
+-- Reader-mode articles of items in shared folders. Editors can now save the
+-- reader view of any link they can edit, and the article is stored under the
+-- item's owner, so it follows the item: everyone who can see the item can
+-- read it, and everyone who can edit the item can discard it.
+DROP POLICY "Users can view their own item articles" ON public.item_articles;
+DROP POLICY "Users can delete their own item articles" ON public.item_articles;
+
+CREATE POLICY "Users can view articles of items they can see"
+  ON public.item_articles FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.items i WHERE i.id = item_id));
+
+CREATE POLICY "Users can delete articles of items they can edit"
+  ON public.item_articles FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.items i
+      WHERE i.id = item_id
+        AND (i.user_id = auth.uid() OR (i.folder_id IS NOT NULL AND public.folder_role(i.folder_id) IN ('owner', 'editor')))
+    )
+  );
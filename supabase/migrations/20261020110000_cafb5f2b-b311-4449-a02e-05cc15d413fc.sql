@@ -0,0 +1,33 @@
+-- A host that doesn't resolve or refuses connections is no longer marked
+-- broken on the first try, since DNS and network hiccups pass. Links without
+-- a definite answer are checked again after a day instead of a week, so one
+-- that stays unreachable is reported within a few days.
+DROP FUNCTION IF EXISTS public.links_due_for_check(INTEGER, INTEGER);
+
+-- Next batch of live link items to check: never checked first, then the stalest
+CREATE OR REPLACE FUNCTION public.links_due_for_check(
+  batch_size INTEGER,
+  recheck_after_seconds INTEGER,
+  retry_failing_after_seconds INTEGER
+)
+RETURNS TABLE (id UUID, user_id UUID, content TEXT, failures INTEGER)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  select i.id, i.user_id, i.content, coalesce(c.failures, 0)
+  from public.items i
+  left join public.item_link_checks c on c.item_id = i.id
+  where i.type = 'link'
+    and i.deleted_at is null
+    and (
+      c.checked_at is null
+      or c.checked_at < now() - make_interval(
+        secs => case when c.failures > 0 then retry_failing_after_seconds else recheck_after_seconds end
+      )
+    )
+  order by c.checked_at asc nulls first
+  limit batch_size;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.links_due_for_check(INTEGER, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,84 @@
+-- Invitations stay on the folder they were sent for, so an owner of one
+-- folder can't use them to let someone into another. Run with `supabase test db`.
+begin;
+select plan(6);
+
+insert into auth.users (id, email) values
+  ('00000000-0000-0000-0000-00000000000a', 'alice@example.com'),
+  ('00000000-0000-0000-0000-00000000000b', 'mallory@example.com'),
+  ('00000000-0000-0000-0000-00000000000c', 'eve@example.com');
+
+insert into public.folders (id, user_id, name) values
+  ('10000000-0000-0000-0000-00000000000a', '00000000-0000-0000-0000-00000000000a', 'Alice'),
+  ('10000000-0000-0000-0000-00000000000b', '00000000-0000-0000-0000-00000000000b', 'Mallory');
+
+insert into public.folder_invitations (id, folder_id, email, role, invited_by) values
+  ('20000000-0000-0000-0000-00000000000a', '10000000-0000-0000-0000-00000000000a', 'eve@example.com', 'viewer', '00000000-0000-0000-0000-00000000000a'),
+  ('20000000-0000-0000-0000-00000000000b', '10000000-0000-0000-0000-00000000000b', 'mallory@example.com', 'owner', '00000000-0000-0000-0000-00000000000b');
+
+-- Mallory owns her folder, not Alice's, and invites herself to hers
+set local role authenticated;
+set local request.jwt.claims = '{"sub": "00000000-0000-0000-0000-00000000000b", "email": "mallory@example.com"}';
+
+select throws_ok(
+  $$ update public.folder_invitations set folder_id = '10000000-0000-0000-0000-00000000000a'
+     where id = '20000000-0000-0000-0000-00000000000b' $$,
+  'P0001',
+  'An invitation cannot be moved to another folder',
+  'Owners cannot move an invitation to a folder they do not own'
+);
+
+update public.folder_invitations set role = 'owner' where id = '20000000-0000-0000-0000-00000000000a';
+
+select lives_ok(
+  $$ update public.folder_invitations set role = 'editor' where id = '20000000-0000-0000-0000-00000000000b' $$,
+  'Owners can change the role of their own invitations'
+);
+
+select public.accept_folder_invitation('20000000-0000-0000-0000-00000000000b');
+
+-- Eve accepts Alice's invitation
+set local request.jwt.claims = '{"sub": "00000000-0000-0000-0000-00000000000c", "email": "eve@example.com"}';
+
+select public.accept_folder_invitation('20000000-0000-0000-0000-00000000000a');
+
+reset role;
+
+select is(
+  (select role from public.folder_members
+   where folder_id = '10000000-0000-0000-0000-00000000000a' and user_id = '00000000-0000-0000-0000-00000000000c'),
+  'viewer',
+  'Other owners cannot change the role of an invitation'
+);
+
+select is(
+  (select count(*)::int from public.folder_members
+   where folder_id = '10000000-0000-0000-0000-00000000000a' and user_id = '00000000-0000-0000-0000-00000000000b'),
+  0,
+  'Accepting does not join a folder the invitation was not sent for'
+);
+
+select is(
+  (select role from public.folder_members
+   where folder_id = '10000000-0000-0000-0000-00000000000b' and user_id = '00000000-0000-0000-0000-00000000000b'),
+  'editor',
+  'Accepting joins the folder the invitation was sent for'
+);
+
+-- Nor can anyone else rewrite the invitations of a folder they don't own
+insert into public.folder_invitations (id, folder_id, email, role, invited_by) values
+  ('20000000-0000-0000-0000-00000000000c', '10000000-0000-0000-0000-00000000000a', 'mallory@example.com', 'viewer', '00000000-0000-0000-0000-00000000000a');
+
+set local role authenticated;
+update public.folder_invitations set role = 'owner', invited_by = '00000000-0000-0000-0000-00000000000c'
+where id = '20000000-0000-0000-0000-00000000000c';
+reset role;
+
+select is(
+  (select role from public.folder_invitations where id = '20000000-0000-0000-0000-00000000000c'),
+  'viewer',
+  'Others cannot change the invitations of a folder'
+);
+
+select * from finish();
+rollback;
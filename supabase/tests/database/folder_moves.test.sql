@@ -0,0 +1,156 @@
+-- Editors of a shared folder can reorganise it, but can't take its folders
+-- and items for themselves: owners of rows stay fixed, and moves can't raise
+-- the user's role or leave the shared tree. Run with `supabase test db`.
+begin;
+select plan(16);
+
+insert into auth.users (id, email) values
+  ('00000000-0000-0000-0000-00000000000a', 'alice@example.com'),
+  ('00000000-0000-0000-0000-00000000000b', 'bob@example.com');
+
+-- Alice shares Root with Bob as an editor. Bob keeps a folder of his own,
+-- and has created Bob's Corner inside Alice's tree.
+set local request.jwt.claims = '{"sub": "00000000-0000-0000-0000-00000000000a"}';
+
+insert into public.folders (id, user_id, name, parent_id) values
+  ('10000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-00000000000a', 'Root', null),
+  ('10000000-0000-0000-0000-000000000002', '00000000-0000-0000-0000-00000000000a', 'Projects', '10000000-0000-0000-0000-000000000001'),
+  ('10000000-0000-0000-0000-000000000003', '00000000-0000-0000-0000-00000000000a', 'Archive', '10000000-0000-0000-0000-000000000001');
+
+insert into public.folder_members (folder_id, user_id, role) values
+  ('10000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-00000000000b', 'editor');
+
+insert into public.items (id, user_id, folder_id, title, type, content) values
+  ('30000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-00000000000a', '10000000-0000-0000-0000-000000000002', 'Plan', 'note', 'Plan');
+
+set local request.jwt.claims = '{"sub": "00000000-0000-0000-0000-00000000000b"}';
+
+insert into public.folders (id, user_id, name, parent_id) values
+  ('10000000-0000-0000-0000-000000000004', '00000000-0000-0000-0000-00000000000b', 'Bob''s Corner', '10000000-0000-0000-0000-000000000001'),
+  ('10000000-0000-0000-0000-000000000005', '00000000-0000-0000-0000-00000000000b', 'Bob', null);
+
+set local role authenticated;
+
+-- Owners of rows
+select throws_ok(
+  $$ update public.folders set user_id = '00000000-0000-0000-0000-00000000000b'
+     where id = '10000000-0000-0000-0000-000000000002' $$,
+  'P0001',
+  'A folder''s owner cannot be changed',
+  'Editors cannot take over a folder'
+);
+
+select throws_ok(
+  $$ update public.items set user_id = '00000000-0000-0000-0000-00000000000b'
+     where id = '30000000-0000-0000-0000-000000000001' $$,
+  'P0001',
+  'An item''s owner cannot be changed',
+  'Editors cannot take over an item'
+);
+
+-- Folder moves
+select throws_ok(
+  $$ update public.folders set parent_id = '10000000-0000-0000-0000-000000000004'
+     where id = '10000000-0000-0000-0000-000000000002' $$,
+  'P0001',
+  'Moving this folder there would change who owns it',
+  'Editors cannot move a folder under one they own'
+);
+
+select throws_ok(
+  $$ update public.folders set parent_id = '10000000-0000-0000-0000-000000000005'
+     where id = '10000000-0000-0000-0000-000000000002' $$,
+  'P0001',
+  'Only owners can move folders into or out of a shared folder',
+  'Editors cannot move a folder out of the shared tree'
+);
+
+select throws_ok(
+  $$ update public.folders set parent_id = null
+     where id = '10000000-0000-0000-0000-000000000002' $$,
+  'P0001',
+  'Only owners can move folders into or out of a shared folder',
+  'Editors cannot move a folder to the top level'
+);
+
+select throws_ok(
+  $$ update public.folders set parent_id = '10000000-0000-0000-0000-000000000001'
+     where id = '10000000-0000-0000-0000-000000000005' $$,
+  'P0001',
+  'Only owners can move folders into or out of a shared folder',
+  'Editors cannot move their own folders into a shared tree'
+);
+
+select lives_ok(
+  $$ update public.folders set parent_id = '10000000-0000-0000-0000-000000000003'
+     where id = '10000000-0000-0000-0000-000000000002' $$,
+  'Editors can move folders within the shared tree'
+);
+
+select is(
+  (select parent_id from public.folders where id = '10000000-0000-0000-0000-000000000002'),
+  '10000000-0000-0000-0000-000000000003'::uuid,
+  'The folder was moved'
+);
+
+-- Item moves
+select throws_ok(
+  $$ update public.items set folder_id = '10000000-0000-0000-0000-000000000004'
+     where id = '30000000-0000-0000-0000-000000000001' $$,
+  'P0001',
+  'Moving this item there would change who owns it',
+  'Editors cannot move an item into a folder they own'
+);
+
+select throws_ok(
+  $$ update public.items set folder_id = '10000000-0000-0000-0000-000000000005'
+     where id = '30000000-0000-0000-0000-000000000001' $$,
+  'P0001',
+  'Only owners can move items out of a shared folder',
+  'Editors cannot move an item out of the shared tree'
+);
+
+select throws_ok(
+  $$ update public.items set folder_id = null
+     where id = '30000000-0000-0000-0000-000000000001' $$,
+  'P0001',
+  'Only owners can move items out of a shared folder',
+  'Editors cannot take an item out of all folders'
+);
+
+select lives_ok(
+  $$ update public.items set folder_id = '10000000-0000-0000-0000-000000000001'
+     where id = '30000000-0000-0000-0000-000000000001' $$,
+  'Editors can move items within the shared tree'
+);
+
+select is(
+  (select folder_id from public.items where id = '30000000-0000-0000-0000-000000000001'),
+  '10000000-0000-0000-0000-000000000001'::uuid,
+  'The item was moved'
+);
+
+-- Owners can move things anywhere they own
+set local request.jwt.claims = '{"sub": "00000000-0000-0000-0000-00000000000a"}';
+
+select lives_ok(
+  $$ update public.folders set parent_id = null
+     where id = '10000000-0000-0000-0000-000000000003' $$,
+  'Owners can move a folder out of the shared tree'
+);
+
+select lives_ok(
+  $$ update public.items set folder_id = null
+     where id = '30000000-0000-0000-0000-000000000001' $$,
+  'Owners can take an item out of all folders'
+);
+
+-- Deleting a folder for good clears its children's parent through the
+-- foreign key, which isn't a move
+select lives_ok(
+  $$ delete from public.folders where id = '10000000-0000-0000-0000-000000000001' $$,
+  'Owners can delete a folder that has other people''s folders in it'
+);
+
+select * from finish();
+rollback;